@@ -151,6 +151,7 @@ const NotEqualCompare = 517;
 const GreaterEqualCompare = 518;
 const AlwaysCompare = 519;
 const StaticDrawUsage = 35044;
+const DynamicDrawUsage = 35048;
 const GLSL3 = "300 es";
 const WebGLCoordinateSystem = 2e3;
 const WebGPUCoordinateSystem = 2001;
@@ -196,6 +197,7 @@ class EventDispatcher {
   }
 }
 const _lut = ["00", "01", "02", "03", "04", "05", "06", "07", "08", "09", "0a", "0b", "0c", "0d", "0e", "0f", "10", "11", "12", "13", "14", "15", "16", "17", "18", "19", "1a", "1b", "1c", "1d", "1e", "1f", "20", "21", "22", "23", "24", "25", "26", "27", "28", "29", "2a", "2b", "2c", "2d", "2e", "2f", "30", "31", "32", "33", "34", "35", "36", "37", "38", "39", "3a", "3b", "3c", "3d", "3e", "3f", "40", "41", "42", "43", "44", "45", "46", "47", "48", "49", "4a", "4b", "4c", "4d", "4e", "4f", "50", "51", "52", "53", "54", "55", "56", "57", "58", "59", "5a", "5b", "5c", "5d", "5e", "5f", "60", "61", "62", "63", "64", "65", "66", "67", "68", "69", "6a", "6b", "6c", "6d", "6e", "6f", "70", "71", "72", "73", "74", "75", "76", "77", "78", "79", "7a", "7b", "7c", "7d", "7e", "7f", "80", "81", "82", "83", "84", "85", "86", "87", "88", "89", "8a", "8b", "8c", "8d", "8e", "8f", "90", "91", "92", "93", "94", "95", "96", "97", "98", "99", "9a", "9b", "9c", "9d", "9e", "9f", "a0", "a1", "a2", "a3", "a4", "a5", "a6", "a7", "a8", "a9", "aa", "ab", "ac", "ad", "ae", "af", "b0", "b1", "b2", "b3", "b4", "b5", "b6", "b7", "b8", "b9", "ba", "bb", "bc", "bd", "be", "bf", "c0", "c1", "c2", "c3", "c4", "c5", "c6", "c7", "c8", "c9", "ca", "cb", "cc", "cd", "ce", "cf", "d0", "d1", "d2", "d3", "d4", "d5", "d6", "d7", "d8", "d9", "da", "db", "dc", "dd", "de", "df", "e0", "e1", "e2", "e3", "e4", "e5", "e6", "e7", "e8", "e9", "ea", "eb", "ec", "ed", "ee", "ef", "f0", "f1", "f2", "f3", "f4", "f5", "f6", "f7", "f8", "f9", "fa", "fb", "fc", "fd", "fe", "ff"];
+let _seed = 1234567;
 const DEG2RAD = Math.PI / 180;
 const RAD2DEG = 180 / Math.PI;
 function generateUUID() {
@@ -212,9 +214,102 @@ function clamp(value, min, max) {
 function euclideanModulo(n, m) {
   return (n % m + m) % m;
 }
+function mapLinear(x, a1, a2, b1, b2) {
+  return b1 + (x - a1) * (b2 - b1) / (a2 - a1);
+}
+function inverseLerp(x, y, value) {
+  if (x !== y) {
+    return (value - x) / (y - x);
+  } else {
+    return 0;
+  }
+}
 function lerp(x, y, t) {
   return (1 - t) * x + t * y;
 }
+function damp(x, y, lambda, dt) {
+  return lerp(x, y, 1 - Math.exp(-lambda * dt));
+}
+function pingpong(x, length = 1) {
+  return length - Math.abs(euclideanModulo(x, length * 2) - length);
+}
+function smoothstep(x, min, max) {
+  if (x <= min) return 0;
+  if (x >= max) return 1;
+  x = (x - min) / (max - min);
+  return x * x * (3 - 2 * x);
+}
+function smootherstep(x, min, max) {
+  if (x <= min) return 0;
+  if (x >= max) return 1;
+  x = (x - min) / (max - min);
+  return x * x * x * (x * (x * 6 - 15) + 10);
+}
+function randInt(low, high) {
+  return low + Math.floor(Math.random() * (high - low + 1));
+}
+function randFloat(low, high) {
+  return low + Math.random() * (high - low);
+}
+function randFloatSpread(range) {
+  return range * (0.5 - Math.random());
+}
+function seededRandom$1(s) {
+  if (s !== void 0) _seed = s;
+  let t = _seed += 1831565813;
+  t = Math.imul(t ^ t >>> 15, t | 1);
+  t ^= t + Math.imul(t ^ t >>> 7, t | 61);
+  return ((t ^ t >>> 14) >>> 0) / 4294967296;
+}
+function degToRad(degrees) {
+  return degrees * DEG2RAD;
+}
+function radToDeg(radians) {
+  return radians * RAD2DEG;
+}
+function isPowerOfTwo(value) {
+  return (value & value - 1) === 0 && value !== 0;
+}
+function ceilPowerOfTwo(value) {
+  return Math.pow(2, Math.ceil(Math.log(value) / Math.LN2));
+}
+function floorPowerOfTwo(value) {
+  return Math.pow(2, Math.floor(Math.log(value) / Math.LN2));
+}
+function setQuaternionFromProperEuler(q, a, b, c, order) {
+  const cos = Math.cos;
+  const sin = Math.sin;
+  const c2 = cos(b / 2);
+  const s2 = sin(b / 2);
+  const c13 = cos((a + c) / 2);
+  const s13 = sin((a + c) / 2);
+  const c1_3 = cos((a - c) / 2);
+  const s1_3 = sin((a - c) / 2);
+  const c3_1 = cos((c - a) / 2);
+  const s3_1 = sin((c - a) / 2);
+  switch (order) {
+    case "XYX":
+      q.set(c2 * s13, s2 * c1_3, s2 * s1_3, c2 * c13);
+      break;
+    case "YZY":
+      q.set(s2 * s1_3, c2 * s13, s2 * c1_3, c2 * c13);
+      break;
+    case "ZXZ":
+      q.set(s2 * c1_3, s2 * s1_3, c2 * s13, c2 * c13);
+      break;
+    case "XZX":
+      q.set(c2 * s13, s2 * s3_1, s2 * c3_1, c2 * c13);
+      break;
+    case "YXY":
+      q.set(s2 * c3_1, c2 * s13, s2 * s3_1, c2 * c13);
+      break;
+    case "ZYZ":
+      q.set(s2 * s3_1, s2 * c3_1, c2 * s13, c2 * c13);
+      break;
+    default:
+      console.warn("THREE.MathUtils: .setQuaternionFromProperEuler() encountered an unknown order: " + order);
+  }
+}
 function denormalize(value, array) {
   switch (array.constructor) {
     case Float32Array:
@@ -256,7 +351,30 @@ function normalize(value, array) {
   }
 }
 const MathUtils = {
-  DEG2RAD
+  DEG2RAD,
+  RAD2DEG,
+  generateUUID,
+  clamp,
+  euclideanModulo,
+  mapLinear,
+  inverseLerp,
+  lerp,
+  damp,
+  pingpong,
+  smoothstep,
+  smootherstep,
+  randInt,
+  randFloat,
+  randFloatSpread,
+  seededRandom: seededRandom$1,
+  degToRad,
+  radToDeg,
+  isPowerOfTwo,
+  ceilPowerOfTwo,
+  floorPowerOfTwo,
+  setQuaternionFromProperEuler,
+  normalize,
+  denormalize
 };
 class Vector2 {
   constructor(x = 0, y = 0) {
@@ -16714,7 +16832,7 @@ class WebGLRenderer {
     let _clippingEnabled = false;
     let _localClippingEnabled = false;
     const _currentProjectionMatrix = new Matrix4();
-    const _projScreenMatrix2 = new Matrix4();
+    const _projScreenMatrix = new Matrix4();
     const _vector3 = new Vector3();
     const _vector4 = new Vector4();
     const _emptyScene = { background: null, fog: null, environment: null, overrideMaterial: null, isScene: true };
@@ -17222,8 +17340,8 @@ class WebGLRenderer {
       currentRenderState = renderStates.get(scene, renderStateStack.length);
       currentRenderState.init(camera);
       renderStateStack.push(currentRenderState);
-      _projScreenMatrix2.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
-      _frustum.setFromProjectionMatrix(_projScreenMatrix2);
+      _projScreenMatrix.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+      _frustum.setFromProjectionMatrix(_projScreenMatrix);
       _localClippingEnabled = this.localClippingEnabled;
       _clippingEnabled = clipping.init(this.clippingPlanes, _localClippingEnabled);
       currentRenderList = renderLists.get(scene, renderListStack.length);
@@ -17309,7 +17427,7 @@ class WebGLRenderer {
         } else if (object.isSprite) {
           if (!object.frustumCulled || _frustum.intersectsSprite(object)) {
             if (sortObjects) {
-              _vector4.setFromMatrixPosition(object.matrixWorld).applyMatrix4(_projScreenMatrix2);
+              _vector4.setFromMatrixPosition(object.matrixWorld).applyMatrix4(_projScreenMatrix);
             }
             const geometry = objects.update(object);
             const material = object.material;
@@ -17329,7 +17447,7 @@ class WebGLRenderer {
                 if (geometry.boundingSphere === null) geometry.computeBoundingSphere();
                 _vector4.copy(geometry.boundingSphere.center);
               }
-              _vector4.applyMatrix4(object.matrixWorld).applyMatrix4(_projScreenMatrix2);
+              _vector4.applyMatrix4(object.matrixWorld).applyMatrix4(_projScreenMatrix);
             }
             if (Array.isArray(material)) {
               const groups = geometry.groups;
@@ -18159,6 +18277,363 @@ class Scene extends Object3D {
     return data;
   }
 }
+class DataTexture extends Texture {
+  constructor(data = null, width = 1, height = 1, format, type, mapping, wrapS, wrapT, magFilter = NearestFilter, minFilter = NearestFilter, anisotropy, colorSpace) {
+    super(null, mapping, wrapS, wrapT, magFilter, minFilter, format, type, anisotropy, colorSpace);
+    this.isDataTexture = true;
+    this.image = { data, width, height };
+    this.generateMipmaps = false;
+    this.flipY = false;
+    this.unpackAlignment = 1;
+  }
+}
+class InstancedBufferAttribute extends BufferAttribute {
+  constructor(array, itemSize, normalized, meshPerAttribute = 1) {
+    super(array, itemSize, normalized);
+    this.isInstancedBufferAttribute = true;
+    this.meshPerAttribute = meshPerAttribute;
+  }
+  copy(source) {
+    super.copy(source);
+    this.meshPerAttribute = source.meshPerAttribute;
+    return this;
+  }
+  toJSON() {
+    const data = super.toJSON();
+    data.meshPerAttribute = this.meshPerAttribute;
+    data.isInstancedBufferAttribute = true;
+    return data;
+  }
+}
+const _instanceLocalMatrix = /* @__PURE__ */ new Matrix4();
+const _instanceWorldMatrix = /* @__PURE__ */ new Matrix4();
+const _instanceIntersects = [];
+const _box3 = /* @__PURE__ */ new Box3();
+const _identity = /* @__PURE__ */ new Matrix4();
+const _mesh$1 = /* @__PURE__ */ new Mesh();
+const _sphere$3 = /* @__PURE__ */ new Sphere();
+class InstancedMesh extends Mesh {
+  constructor(geometry, material, count) {
+    super(geometry, material);
+    this.isInstancedMesh = true;
+    this.instanceMatrix = new InstancedBufferAttribute(new Float32Array(count * 16), 16);
+    this.instanceColor = null;
+    this.morphTexture = null;
+    this.count = count;
+    this.boundingBox = null;
+    this.boundingSphere = null;
+    for (let i = 0; i < count; i++) {
+      this.setMatrixAt(i, _identity);
+    }
+  }
+  computeBoundingBox() {
+    const geometry = this.geometry;
+    const count = this.count;
+    if (this.boundingBox === null) {
+      this.boundingBox = new Box3();
+    }
+    if (geometry.boundingBox === null) {
+      geometry.computeBoundingBox();
+    }
+    this.boundingBox.makeEmpty();
+    for (let i = 0; i < count; i++) {
+      this.getMatrixAt(i, _instanceLocalMatrix);
+      _box3.copy(geometry.boundingBox).applyMatrix4(_instanceLocalMatrix);
+      this.boundingBox.union(_box3);
+    }
+  }
+  computeBoundingSphere() {
+    const geometry = this.geometry;
+    const count = this.count;
+    if (this.boundingSphere === null) {
+      this.boundingSphere = new Sphere();
+    }
+    if (geometry.boundingSphere === null) {
+      geometry.computeBoundingSphere();
+    }
+    this.boundingSphere.makeEmpty();
+    for (let i = 0; i < count; i++) {
+      this.getMatrixAt(i, _instanceLocalMatrix);
+      _sphere$3.copy(geometry.boundingSphere).applyMatrix4(_instanceLocalMatrix);
+      this.boundingSphere.union(_sphere$3);
+    }
+  }
+  copy(source, recursive) {
+    super.copy(source, recursive);
+    this.instanceMatrix.copy(source.instanceMatrix);
+    if (source.morphTexture !== null) this.morphTexture = source.morphTexture.clone();
+    if (source.instanceColor !== null) this.instanceColor = source.instanceColor.clone();
+    this.count = source.count;
+    if (source.boundingBox !== null) this.boundingBox = source.boundingBox.clone();
+    if (source.boundingSphere !== null) this.boundingSphere = source.boundingSphere.clone();
+    return this;
+  }
+  getColorAt(index, color) {
+    color.fromArray(this.instanceColor.array, index * 3);
+  }
+  getMatrixAt(index, matrix) {
+    matrix.fromArray(this.instanceMatrix.array, index * 16);
+  }
+  getMorphAt(index, object) {
+    const objectInfluences = object.morphTargetInfluences;
+    const array = this.morphTexture.source.data.data;
+    const len = objectInfluences.length + 1;
+    const dataIndex = index * len + 1;
+    for (let i = 0; i < objectInfluences.length; i++) {
+      objectInfluences[i] = array[dataIndex + i];
+    }
+  }
+  raycast(raycaster, intersects) {
+    const matrixWorld = this.matrixWorld;
+    const raycastTimes = this.count;
+    _mesh$1.geometry = this.geometry;
+    _mesh$1.material = this.material;
+    if (_mesh$1.material === void 0) return;
+    if (this.boundingSphere === null) this.computeBoundingSphere();
+    _sphere$3.copy(this.boundingSphere);
+    _sphere$3.applyMatrix4(matrixWorld);
+    if (raycaster.ray.intersectsSphere(_sphere$3) === false) return;
+    for (let instanceId = 0; instanceId < raycastTimes; instanceId++) {
+      this.getMatrixAt(instanceId, _instanceLocalMatrix);
+      _instanceWorldMatrix.multiplyMatrices(matrixWorld, _instanceLocalMatrix);
+      _mesh$1.matrixWorld = _instanceWorldMatrix;
+      _mesh$1.raycast(raycaster, _instanceIntersects);
+      for (let i = 0, l = _instanceIntersects.length; i < l; i++) {
+        const intersect2 = _instanceIntersects[i];
+        intersect2.instanceId = instanceId;
+        intersect2.object = this;
+        intersects.push(intersect2);
+      }
+      _instanceIntersects.length = 0;
+    }
+  }
+  setColorAt(index, color) {
+    if (this.instanceColor === null) {
+      this.instanceColor = new InstancedBufferAttribute(new Float32Array(this.instanceMatrix.count * 3).fill(1), 3);
+    }
+    color.toArray(this.instanceColor.array, index * 3);
+  }
+  setMatrixAt(index, matrix) {
+    matrix.toArray(this.instanceMatrix.array, index * 16);
+  }
+  setMorphAt(index, object) {
+    const objectInfluences = object.morphTargetInfluences;
+    const len = objectInfluences.length + 1;
+    if (this.morphTexture === null) {
+      this.morphTexture = new DataTexture(new Float32Array(len * this.count), len, this.count, RedFormat, FloatType);
+    }
+    const array = this.morphTexture.source.data.data;
+    let morphInfluencesSum = 0;
+    for (let i = 0; i < objectInfluences.length; i++) {
+      morphInfluencesSum += objectInfluences[i];
+    }
+    const morphBaseInfluence = this.geometry.morphTargetsRelative ? 1 : 1 - morphInfluencesSum;
+    const dataIndex = len * index;
+    array[dataIndex] = morphBaseInfluence;
+    array.set(objectInfluences, dataIndex + 1);
+  }
+  updateMorphTargets() {
+  }
+  dispose() {
+    this.dispatchEvent({ type: "dispose" });
+    if (this.morphTexture !== null) {
+      this.morphTexture.dispose();
+      this.morphTexture = null;
+    }
+    return this;
+  }
+}
+class LineBasicMaterial extends Material {
+  static get type() {
+    return "LineBasicMaterial";
+  }
+  constructor(parameters) {
+    super();
+    this.isLineBasicMaterial = true;
+    this.color = new Color(16777215);
+    this.map = null;
+    this.linewidth = 1;
+    this.linecap = "round";
+    this.linejoin = "round";
+    this.fog = true;
+    this.setValues(parameters);
+  }
+  copy(source) {
+    super.copy(source);
+    this.color.copy(source.color);
+    this.map = source.map;
+    this.linewidth = source.linewidth;
+    this.linecap = source.linecap;
+    this.linejoin = source.linejoin;
+    this.fog = source.fog;
+    return this;
+  }
+}
+const _vStart = /* @__PURE__ */ new Vector3();
+const _vEnd = /* @__PURE__ */ new Vector3();
+const _inverseMatrix$1 = /* @__PURE__ */ new Matrix4();
+const _ray$1 = /* @__PURE__ */ new Ray();
+const _sphere$1 = /* @__PURE__ */ new Sphere();
+const _intersectPointOnRay = /* @__PURE__ */ new Vector3();
+const _intersectPointOnSegment = /* @__PURE__ */ new Vector3();
+class Line extends Object3D {
+  constructor(geometry = new BufferGeometry(), material = new LineBasicMaterial()) {
+    super();
+    this.isLine = true;
+    this.type = "Line";
+    this.geometry = geometry;
+    this.material = material;
+    this.updateMorphTargets();
+  }
+  copy(source, recursive) {
+    super.copy(source, recursive);
+    this.material = Array.isArray(source.material) ? source.material.slice() : source.material;
+    this.geometry = source.geometry;
+    return this;
+  }
+  computeLineDistances() {
+    const geometry = this.geometry;
+    if (geometry.index === null) {
+      const positionAttribute = geometry.attributes.position;
+      const lineDistances = [0];
+      for (let i = 1, l = positionAttribute.count; i < l; i++) {
+        _vStart.fromBufferAttribute(positionAttribute, i - 1);
+        _vEnd.fromBufferAttribute(positionAttribute, i);
+        lineDistances[i] = lineDistances[i - 1];
+        lineDistances[i] += _vStart.distanceTo(_vEnd);
+      }
+      geometry.setAttribute("lineDistance", new Float32BufferAttribute(lineDistances, 1));
+    } else {
+      console.warn("THREE.Line.computeLineDistances(): Computation only possible with non-indexed BufferGeometry.");
+    }
+    return this;
+  }
+  raycast(raycaster, intersects) {
+    const geometry = this.geometry;
+    const matrixWorld = this.matrixWorld;
+    const threshold = raycaster.params.Line.threshold;
+    const drawRange = geometry.drawRange;
+    if (geometry.boundingSphere === null) geometry.computeBoundingSphere();
+    _sphere$1.copy(geometry.boundingSphere);
+    _sphere$1.applyMatrix4(matrixWorld);
+    _sphere$1.radius += threshold;
+    if (raycaster.ray.intersectsSphere(_sphere$1) === false) return;
+    _inverseMatrix$1.copy(matrixWorld).invert();
+    _ray$1.copy(raycaster.ray).applyMatrix4(_inverseMatrix$1);
+    const localThreshold = threshold / ((this.scale.x + this.scale.y + this.scale.z) / 3);
+    const localThresholdSq = localThreshold * localThreshold;
+    const step = this.isLineSegments ? 2 : 1;
+    const index = geometry.index;
+    const attributes = geometry.attributes;
+    const positionAttribute = attributes.position;
+    if (index !== null) {
+      const start = Math.max(0, drawRange.start);
+      const end = Math.min(index.count, drawRange.start + drawRange.count);
+      for (let i = start, l = end - 1; i < l; i += step) {
+        const a = index.getX(i);
+        const b = index.getX(i + 1);
+        const intersect2 = checkIntersection(this, raycaster, _ray$1, localThresholdSq, a, b);
+        if (intersect2) {
+          intersects.push(intersect2);
+        }
+      }
+      if (this.isLineLoop) {
+        const a = index.getX(end - 1);
+        const b = index.getX(start);
+        const intersect2 = checkIntersection(this, raycaster, _ray$1, localThresholdSq, a, b);
+        if (intersect2) {
+          intersects.push(intersect2);
+        }
+      }
+    } else {
+      const start = Math.max(0, drawRange.start);
+      const end = Math.min(positionAttribute.count, drawRange.start + drawRange.count);
+      for (let i = start, l = end - 1; i < l; i += step) {
+        const intersect2 = checkIntersection(this, raycaster, _ray$1, localThresholdSq, i, i + 1);
+        if (intersect2) {
+          intersects.push(intersect2);
+        }
+      }
+      if (this.isLineLoop) {
+        const intersect2 = checkIntersection(this, raycaster, _ray$1, localThresholdSq, end - 1, start);
+        if (intersect2) {
+          intersects.push(intersect2);
+        }
+      }
+    }
+  }
+  updateMorphTargets() {
+    const geometry = this.geometry;
+    const morphAttributes = geometry.morphAttributes;
+    const keys = Object.keys(morphAttributes);
+    if (keys.length > 0) {
+      const morphAttribute = morphAttributes[keys[0]];
+      if (morphAttribute !== void 0) {
+        this.morphTargetInfluences = [];
+        this.morphTargetDictionary = {};
+        for (let m = 0, ml = morphAttribute.length; m < ml; m++) {
+          const name = morphAttribute[m].name || String(m);
+          this.morphTargetInfluences.push(0);
+          this.morphTargetDictionary[name] = m;
+        }
+      }
+    }
+  }
+}
+function checkIntersection(object, raycaster, ray, thresholdSq, a, b) {
+  const positionAttribute = object.geometry.attributes.position;
+  _vStart.fromBufferAttribute(positionAttribute, a);
+  _vEnd.fromBufferAttribute(positionAttribute, b);
+  const distSq = ray.distanceSqToSegment(_vStart, _vEnd, _intersectPointOnRay, _intersectPointOnSegment);
+  if (distSq > thresholdSq) return;
+  _intersectPointOnRay.applyMatrix4(object.matrixWorld);
+  const distance = raycaster.ray.origin.distanceTo(_intersectPointOnRay);
+  if (distance < raycaster.near || distance > raycaster.far) return;
+  return {
+    distance,
+    // What do we want? intersection point on the ray or on the segment??
+    // point: raycaster.ray.at( distance ),
+    point: _intersectPointOnSegment.clone().applyMatrix4(object.matrixWorld),
+    index: a,
+    face: null,
+    faceIndex: null,
+    barycoord: null,
+    object
+  };
+}
+const _start = /* @__PURE__ */ new Vector3();
+const _end = /* @__PURE__ */ new Vector3();
+class LineSegments extends Line {
+  constructor(geometry, material) {
+    super(geometry, material);
+    this.isLineSegments = true;
+    this.type = "LineSegments";
+  }
+  computeLineDistances() {
+    const geometry = this.geometry;
+    if (geometry.index === null) {
+      const positionAttribute = geometry.attributes.position;
+      const lineDistances = [];
+      for (let i = 0, l = positionAttribute.count; i < l; i += 2) {
+        _start.fromBufferAttribute(positionAttribute, i);
+        _end.fromBufferAttribute(positionAttribute, i + 1);
+        lineDistances[i] = i === 0 ? 0 : lineDistances[i - 1];
+        lineDistances[i + 1] = lineDistances[i] + _start.distanceTo(_end);
+      }
+      geometry.setAttribute("lineDistance", new Float32BufferAttribute(lineDistances, 1));
+    } else {
+      console.warn("THREE.LineSegments.computeLineDistances(): Computation only possible with non-indexed BufferGeometry.");
+    }
+    return this;
+  }
+}
+class LineLoop extends Line {
+  constructor(geometry, material) {
+    super(geometry, material);
+    this.isLineLoop = true;
+    this.type = "LineLoop";
+  }
+}
 class PointsMaterial extends Material {
   static get type() {
     return "PointsMaterial";
@@ -18186,7 +18661,7 @@ class PointsMaterial extends Material {
   }
 }
 const _inverseMatrix = /* @__PURE__ */ new Matrix4();
-const _ray$1 = /* @__PURE__ */ new Ray();
+const _ray$2 = /* @__PURE__ */ new Ray();
 const _sphere = /* @__PURE__ */ new Sphere();
 const _position$2 = /* @__PURE__ */ new Vector3();
 class Points extends Object3D {
@@ -18215,7 +18690,7 @@ class Points extends Object3D {
     _sphere.radius += threshold;
     if (raycaster.ray.intersectsSphere(_sphere) === false) return;
     _inverseMatrix.copy(matrixWorld).invert();
-    _ray$1.copy(raycaster.ray).applyMatrix4(_inverseMatrix);
+    _ray$2.copy(raycaster.ray).applyMatrix4(_inverseMatrix);
     const localThreshold = threshold / ((this.scale.x + this.scale.y + this.scale.z) / 3);
     const localThresholdSq = localThreshold * localThreshold;
     const index = geometry.index;
@@ -18257,10 +18732,10 @@ class Points extends Object3D {
   }
 }
 function testPoint(point, index, localThresholdSq, matrixWorld, raycaster, intersects, object) {
-  const rayPointDistanceSq = _ray$1.distanceSqToPoint(point);
+  const rayPointDistanceSq = _ray$2.distanceSqToPoint(point);
   if (rayPointDistanceSq < localThresholdSq) {
     const intersectPoint = new Vector3();
-    _ray$1.closestPointToPoint(point, intersectPoint);
+    _ray$2.closestPointToPoint(point, intersectPoint);
     intersectPoint.applyMatrix4(matrixWorld);
     const distance = raycaster.ray.origin.distanceTo(intersectPoint);
     if (distance < raycaster.near || distance > raycaster.far) return;
@@ -18276,82 +18751,11 @@ function testPoint(point, index, localThresholdSq, matrixWorld, raycaster, inter
     });
   }
 }
-class MeshStandardMaterial extends Material {
-  static get type() {
-    return "MeshStandardMaterial";
-  }
-  constructor(parameters) {
-    super();
-    this.isMeshStandardMaterial = true;
-    this.defines = { "STANDARD": "" };
-    this.color = new Color(16777215);
-    this.roughness = 1;
-    this.metalness = 0;
-    this.map = null;
-    this.lightMap = null;
-    this.lightMapIntensity = 1;
-    this.aoMap = null;
-    this.aoMapIntensity = 1;
-    this.emissive = new Color(0);
-    this.emissiveIntensity = 1;
-    this.emissiveMap = null;
-    this.bumpMap = null;
-    this.bumpScale = 1;
-    this.normalMap = null;
-    this.normalMapType = TangentSpaceNormalMap;
-    this.normalScale = new Vector2(1, 1);
-    this.displacementMap = null;
-    this.displacementScale = 1;
-    this.displacementBias = 0;
-    this.roughnessMap = null;
-    this.metalnessMap = null;
-    this.alphaMap = null;
-    this.envMap = null;
-    this.envMapRotation = new Euler();
-    this.envMapIntensity = 1;
-    this.wireframe = false;
-    this.wireframeLinewidth = 1;
-    this.wireframeLinecap = "round";
-    this.wireframeLinejoin = "round";
-    this.flatShading = false;
-    this.fog = true;
-    this.setValues(parameters);
-  }
-  copy(source) {
-    super.copy(source);
-    this.defines = { "STANDARD": "" };
-    this.color.copy(source.color);
-    this.roughness = source.roughness;
-    this.metalness = source.metalness;
-    this.map = source.map;
-    this.lightMap = source.lightMap;
-    this.lightMapIntensity = source.lightMapIntensity;
-    this.aoMap = source.aoMap;
-    this.aoMapIntensity = source.aoMapIntensity;
-    this.emissive.copy(source.emissive);
-    this.emissiveMap = source.emissiveMap;
-    this.emissiveIntensity = source.emissiveIntensity;
-    this.bumpMap = source.bumpMap;
-    this.bumpScale = source.bumpScale;
-    this.normalMap = source.normalMap;
-    this.normalMapType = source.normalMapType;
-    this.normalScale.copy(source.normalScale);
-    this.displacementMap = source.displacementMap;
-    this.displacementScale = source.displacementScale;
-    this.displacementBias = source.displacementBias;
-    this.roughnessMap = source.roughnessMap;
-    this.metalnessMap = source.metalnessMap;
-    this.alphaMap = source.alphaMap;
-    this.envMap = source.envMap;
-    this.envMapRotation.copy(source.envMapRotation);
-    this.envMapIntensity = source.envMapIntensity;
-    this.wireframe = source.wireframe;
-    this.wireframeLinewidth = source.wireframeLinewidth;
-    this.wireframeLinecap = source.wireframeLinecap;
-    this.wireframeLinejoin = source.wireframeLinejoin;
-    this.flatShading = source.flatShading;
-    this.fog = source.fog;
-    return this;
+class CanvasTexture extends Texture {
+  constructor(canvas, mapping, wrapS, wrapT, magFilter, minFilter, format, type, anisotropy) {
+    super(canvas, mapping, wrapS, wrapT, magFilter, minFilter, format, type, anisotropy);
+    this.isCanvasTexture = true;
+    this.needsUpdate = true;
   }
 }
 const Cache = {
@@ -18530,275 +18934,24 @@ class ImageLoader extends Loader {
     return image;
   }
 }
-class TextureLoader extends Loader {
-  constructor(manager) {
-    super(manager);
-  }
-  load(url, onLoad, onProgress, onError) {
-    const texture = new Texture();
-    const loader = new ImageLoader(this.manager);
-    loader.setCrossOrigin(this.crossOrigin);
-    loader.setPath(this.path);
-    loader.load(url, function(image) {
-      texture.image = image;
-      texture.needsUpdate = true;
-      if (onLoad !== void 0) {
-        onLoad(texture);
-      }
-    }, onProgress, onError);
-    return texture;
-  }
-}
-class Light extends Object3D {
-  constructor(color, intensity = 1) {
-    super();
-    this.isLight = true;
-    this.type = "Light";
-    this.color = new Color(color);
-    this.intensity = intensity;
+const _matrix = /* @__PURE__ */ new Matrix4();
+class Raycaster {
+  constructor(origin, direction, near = 0, far = Infinity) {
+    this.ray = new Ray(origin, direction);
+    this.near = near;
+    this.far = far;
+    this.camera = null;
+    this.layers = new Layers();
+    this.params = {
+      Mesh: {},
+      Line: { threshold: 1 },
+      LOD: {},
+      Points: { threshold: 1 },
+      Sprite: {}
+    };
   }
-  dispose() {
-  }
-  copy(source, recursive) {
-    super.copy(source, recursive);
-    this.color.copy(source.color);
-    this.intensity = source.intensity;
-    return this;
-  }
-  toJSON(meta) {
-    const data = super.toJSON(meta);
-    data.object.color = this.color.getHex();
-    data.object.intensity = this.intensity;
-    if (this.groundColor !== void 0) data.object.groundColor = this.groundColor.getHex();
-    if (this.distance !== void 0) data.object.distance = this.distance;
-    if (this.angle !== void 0) data.object.angle = this.angle;
-    if (this.decay !== void 0) data.object.decay = this.decay;
-    if (this.penumbra !== void 0) data.object.penumbra = this.penumbra;
-    if (this.shadow !== void 0) data.object.shadow = this.shadow.toJSON();
-    if (this.target !== void 0) data.object.target = this.target.uuid;
-    return data;
-  }
-}
-const _projScreenMatrix$1 = /* @__PURE__ */ new Matrix4();
-const _lightPositionWorld$1 = /* @__PURE__ */ new Vector3();
-const _lookTarget$1 = /* @__PURE__ */ new Vector3();
-class LightShadow {
-  constructor(camera) {
-    this.camera = camera;
-    this.intensity = 1;
-    this.bias = 0;
-    this.normalBias = 0;
-    this.radius = 1;
-    this.blurSamples = 8;
-    this.mapSize = new Vector2(512, 512);
-    this.map = null;
-    this.mapPass = null;
-    this.matrix = new Matrix4();
-    this.autoUpdate = true;
-    this.needsUpdate = false;
-    this._frustum = new Frustum();
-    this._frameExtents = new Vector2(1, 1);
-    this._viewportCount = 1;
-    this._viewports = [
-      new Vector4(0, 0, 1, 1)
-    ];
-  }
-  getViewportCount() {
-    return this._viewportCount;
-  }
-  getFrustum() {
-    return this._frustum;
-  }
-  updateMatrices(light) {
-    const shadowCamera = this.camera;
-    const shadowMatrix = this.matrix;
-    _lightPositionWorld$1.setFromMatrixPosition(light.matrixWorld);
-    shadowCamera.position.copy(_lightPositionWorld$1);
-    _lookTarget$1.setFromMatrixPosition(light.target.matrixWorld);
-    shadowCamera.lookAt(_lookTarget$1);
-    shadowCamera.updateMatrixWorld();
-    _projScreenMatrix$1.multiplyMatrices(shadowCamera.projectionMatrix, shadowCamera.matrixWorldInverse);
-    this._frustum.setFromProjectionMatrix(_projScreenMatrix$1);
-    shadowMatrix.set(
-      0.5,
-      0,
-      0,
-      0.5,
-      0,
-      0.5,
-      0,
-      0.5,
-      0,
-      0,
-      0.5,
-      0.5,
-      0,
-      0,
-      0,
-      1
-    );
-    shadowMatrix.multiply(_projScreenMatrix$1);
-  }
-  getViewport(viewportIndex) {
-    return this._viewports[viewportIndex];
-  }
-  getFrameExtents() {
-    return this._frameExtents;
-  }
-  dispose() {
-    if (this.map) {
-      this.map.dispose();
-    }
-    if (this.mapPass) {
-      this.mapPass.dispose();
-    }
-  }
-  copy(source) {
-    this.camera = source.camera.clone();
-    this.intensity = source.intensity;
-    this.bias = source.bias;
-    this.radius = source.radius;
-    this.mapSize.copy(source.mapSize);
-    return this;
-  }
-  clone() {
-    return new this.constructor().copy(this);
-  }
-  toJSON() {
-    const object = {};
-    if (this.intensity !== 1) object.intensity = this.intensity;
-    if (this.bias !== 0) object.bias = this.bias;
-    if (this.normalBias !== 0) object.normalBias = this.normalBias;
-    if (this.radius !== 1) object.radius = this.radius;
-    if (this.mapSize.x !== 512 || this.mapSize.y !== 512) object.mapSize = this.mapSize.toArray();
-    object.camera = this.camera.toJSON(false).object;
-    delete object.camera.matrix;
-    return object;
-  }
-}
-const _projScreenMatrix = /* @__PURE__ */ new Matrix4();
-const _lightPositionWorld = /* @__PURE__ */ new Vector3();
-const _lookTarget = /* @__PURE__ */ new Vector3();
-class PointLightShadow extends LightShadow {
-  constructor() {
-    super(new PerspectiveCamera(90, 1, 0.5, 500));
-    this.isPointLightShadow = true;
-    this._frameExtents = new Vector2(4, 2);
-    this._viewportCount = 6;
-    this._viewports = [
-      // These viewports map a cube-map onto a 2D texture with the
-      // following orientation:
-      //
-      //  xzXZ
-      //   y Y
-      //
-      // X - Positive x direction
-      // x - Negative x direction
-      // Y - Positive y direction
-      // y - Negative y direction
-      // Z - Positive z direction
-      // z - Negative z direction
-      // positive X
-      new Vector4(2, 1, 1, 1),
-      // negative X
-      new Vector4(0, 1, 1, 1),
-      // positive Z
-      new Vector4(3, 1, 1, 1),
-      // negative Z
-      new Vector4(1, 1, 1, 1),
-      // positive Y
-      new Vector4(3, 0, 1, 1),
-      // negative Y
-      new Vector4(1, 0, 1, 1)
-    ];
-    this._cubeDirections = [
-      new Vector3(1, 0, 0),
-      new Vector3(-1, 0, 0),
-      new Vector3(0, 0, 1),
-      new Vector3(0, 0, -1),
-      new Vector3(0, 1, 0),
-      new Vector3(0, -1, 0)
-    ];
-    this._cubeUps = [
-      new Vector3(0, 1, 0),
-      new Vector3(0, 1, 0),
-      new Vector3(0, 1, 0),
-      new Vector3(0, 1, 0),
-      new Vector3(0, 0, 1),
-      new Vector3(0, 0, -1)
-    ];
-  }
-  updateMatrices(light, viewportIndex = 0) {
-    const camera = this.camera;
-    const shadowMatrix = this.matrix;
-    const far = light.distance || camera.far;
-    if (far !== camera.far) {
-      camera.far = far;
-      camera.updateProjectionMatrix();
-    }
-    _lightPositionWorld.setFromMatrixPosition(light.matrixWorld);
-    camera.position.copy(_lightPositionWorld);
-    _lookTarget.copy(camera.position);
-    _lookTarget.add(this._cubeDirections[viewportIndex]);
-    camera.up.copy(this._cubeUps[viewportIndex]);
-    camera.lookAt(_lookTarget);
-    camera.updateMatrixWorld();
-    shadowMatrix.makeTranslation(-_lightPositionWorld.x, -_lightPositionWorld.y, -_lightPositionWorld.z);
-    _projScreenMatrix.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
-    this._frustum.setFromProjectionMatrix(_projScreenMatrix);
-  }
-}
-class PointLight extends Light {
-  constructor(color, intensity, distance = 0, decay = 2) {
-    super(color, intensity);
-    this.isPointLight = true;
-    this.type = "PointLight";
-    this.distance = distance;
-    this.decay = decay;
-    this.shadow = new PointLightShadow();
-  }
-  get power() {
-    return this.intensity * 4 * Math.PI;
-  }
-  set power(power) {
-    this.intensity = power / (4 * Math.PI);
-  }
-  dispose() {
-    this.shadow.dispose();
-  }
-  copy(source, recursive) {
-    super.copy(source, recursive);
-    this.distance = source.distance;
-    this.decay = source.decay;
-    this.shadow = source.shadow.clone();
-    return this;
-  }
-}
-class AmbientLight extends Light {
-  constructor(color, intensity) {
-    super(color, intensity);
-    this.isAmbientLight = true;
-    this.type = "AmbientLight";
-  }
-}
-const _matrix = /* @__PURE__ */ new Matrix4();
-class Raycaster {
-  constructor(origin, direction, near = 0, far = Infinity) {
-    this.ray = new Ray(origin, direction);
-    this.near = near;
-    this.far = far;
-    this.camera = null;
-    this.layers = new Layers();
-    this.params = {
-      Mesh: {},
-      Line: { threshold: 1 },
-      LOD: {},
-      Points: { threshold: 1 },
-      Sprite: {}
-    };
-  }
-  set(origin, direction) {
-    this.ray.set(origin, direction);
+  set(origin, direction) {
+    this.ray.set(origin, direction);
   }
   setFromCamera(coords, camera) {
     if (camera.isPerspectiveCamera) {
@@ -19707,17 +19860,64 @@ function interceptControlUp(event) {
     document2.removeEventListener("keyup", this._interceptControlUp, { passive: true, capture: true });
   }
 }
-const COMPONENT_STYLES = `
-  :host {
-    display: block;
-    position: relative;
-    font-family: 'Georgia', 'Times New Roman', serif;
-    --accent: #8C52FF;
+const DEFAULT_ACCENT = "#8C52FF";
+const DARK_TOKENS = `--accent: ${DEFAULT_ACCENT};
+    --on-accent: #fff;
     --bg: #0a0a0a;
     --fg: #f2f2f2;
     --muted: #888;
     --card-bg: #1a1a1a;
     --border: #333;
+    --surface: rgba(0,0,0,0.6);
+    --surface-hover: rgba(0,0,0,0.9);
+    --overlay: rgba(0,0,0,0.8);
+    --shadow: 0 20px 60px rgba(0,0,0,0.5);
+    --media-bg: #000;
+    --caption-fg: #fff;
+    --caption-bg: rgba(0,0,0,0.75);
+    --star: #fff;
+    --edge: #fff;
+    --placeholder: #2a2a2a;
+    --fallback-tint: var(--accent);
+    --radius: 12px;
+    --radius-card: 16px;
+    --radius-pill: 999px;
+    --font: 'Georgia', 'Times New Roman', serif;
+    --font-ui: system-ui, sans-serif;`;
+const LIGHT_TOKENS = `--bg: #f7f7f5;
+    --fg: #1a1a1a;
+    --muted: #666;
+    --card-bg: #fff;
+    --border: #ddd;
+    --surface: rgba(255,255,255,0.75);
+    --surface-hover: rgba(255,255,255,0.95);
+    --overlay: rgba(247,247,245,0.8);
+    --shadow: 0 20px 60px rgba(0,0,0,0.15);
+    --media-bg: #e5e5e5;
+    --caption-fg: #1a1a1a;
+    --caption-bg: rgba(255,255,255,0.85);
+    --star: #1a1a1a;
+    --edge: #1a1a1a;
+    --placeholder: #e0e0e0;`;
+const COMPONENT_STYLES = `
+  :host {
+    display: block;
+    position: relative;
+    font-family: var(--font);
+    color-scheme: dark;
+    ${DARK_TOKENS}
+  }
+
+  :host([theme="light"]) {
+    color-scheme: light;
+    ${LIGHT_TOKENS}
+  }
+
+  @media (prefers-color-scheme: light) {
+    :host([theme="auto"]) {
+      color-scheme: light;
+      ${LIGHT_TOKENS}
+    }
   }
 
   .container {
@@ -19730,7 +19930,7 @@ const COMPONENT_STYLES = `
     width: 100%;
     aspect-ratio: 16/9;
     object-fit: cover;
-    border-radius: 12px;
+    border-radius: var(--radius);
   }
 
   .loading {
@@ -19763,7 +19963,7 @@ const COMPONENT_STYLES = `
     width: 100%;
     aspect-ratio: 16/9;
     min-height: 400px;
-    border-radius: 12px;
+    border-radius: var(--radius);
     overflow: hidden;
     background: var(--bg);
   }
@@ -19774,6 +19974,33 @@ const COMPONENT_STYLES = `
     height: 100% !important;
   }
 
+  /* Poster or spinner kept over the scene until its first thumbnails arrive */
+  .scene-loading {
+    position: absolute;
+    inset: 0;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    background: var(--bg);
+    transition: opacity 0.4s ease;
+  }
+
+  .scene-loading .poster {
+    height: 100%;
+    border-radius: 0;
+  }
+
+  .scene-loading .loading {
+    position: absolute;
+    min-height: 0;
+    bottom: 12px;
+  }
+
+  .scene-loading.ready {
+    opacity: 0;
+    pointer-events: none;
+  }
+
   .hint {
     position: absolute;
     bottom: 12px;
@@ -19781,10 +20008,10 @@ const COMPONENT_STYLES = `
     transform: translateX(-50%);
     font-size: 0.7rem;
     color: var(--muted);
-    background: rgba(0,0,0,0.6);
+    background: var(--surface);
     backdrop-filter: blur(8px);
     padding: 6px 16px;
-    border-radius: 999px;
+    border-radius: var(--radius-pill);
     white-space: nowrap;
     pointer-events: none;
   }
@@ -19799,11 +20026,17 @@ const COMPONENT_STYLES = `
 
   .label {
     position: absolute;
+    left: 0;
+    top: 0;
     font-size: 10px;
     color: var(--fg);
     opacity: 0.7;
     white-space: nowrap;
+    max-width: 14em;
+    overflow: hidden;
+    text-overflow: ellipsis;
     transform: translate(-50%, -50%);
+    will-change: transform;
     transition: opacity 0.2s;
     pointer-events: auto;
     cursor: pointer;
@@ -19818,8 +20051,117 @@ const COMPONENT_STYLES = `
     color: var(--accent);
   }
 
+  .label.filtered-out {
+    pointer-events: none;
+  }
+
+  .label.selected {
+    color: var(--accent);
+  }
+
+  .label.hovered {
+    opacity: 1 !important;
+    filter: none !important;
+    color: var(--accent);
+  }
+
+  .label.crowded {
+    opacity: 0 !important;
+    pointer-events: none;
+  }
+
+  .label.hovered,
+  .label:focus-visible {
+    max-width: none;
+    z-index: 1;
+  }
+
+  .label:focus-visible {
+    opacity: 1 !important;
+    filter: none !important;
+    color: var(--accent);
+    outline: 1px solid var(--accent);
+    border-radius: 4px;
+  }
+
+  /* ── Toolbar: search + filter bar ── */
+  .toolbar {
+    display: flex;
+    flex-wrap: wrap;
+    align-items: center;
+    gap: 12px;
+    padding: 0 0 12px;
+  }
+
+  .search-input {
+    flex: 0 1 240px;
+    min-width: 160px;
+    font-size: 0.8rem;
+    padding: 6px 12px;
+    border-radius: var(--radius-pill);
+    border: 1px solid var(--border);
+    background: var(--card-bg);
+    color: var(--fg);
+    font-family: var(--font-ui);
+  }
+
+  .search-input:focus-visible {
+    border-color: var(--accent);
+    outline: none;
+  }
+
+  mark.search-hit {
+    background: none;
+    color: var(--accent);
+    text-decoration: underline;
+    text-underline-offset: 2px;
+  }
+
+  .filter-bar {
+    display: flex;
+    flex-wrap: wrap;
+    align-items: center;
+    gap: 6px;
+  }
+
+  .filter-chip {
+    font-size: 0.7rem;
+    padding: 4px 10px;
+    border-radius: var(--radius-pill);
+    border: 1px solid var(--border);
+    color: var(--fg);
+    background: transparent;
+    font-family: var(--font-ui);
+    cursor: pointer;
+    transition: border-color 0.15s, background 0.15s;
+  }
+
+  .filter-chip:hover, .filter-chip:focus-visible {
+    border-color: var(--accent);
+    outline: none;
+  }
+
+  .filter-chip[aria-pressed="true"] {
+    background: var(--accent);
+    border-color: var(--accent);
+    color: var(--on-accent);
+  }
+
+  .filter-clear {
+    border-style: dashed;
+    color: var(--muted);
+  }
+
+  .result-count {
+    font-size: 0.7rem;
+    color: var(--muted);
+    margin-left: auto;
+    font-family: var(--font-ui);
+  }
+
   /* ── Static Grid ── */
   .grid {
+    position: relative;
     display: grid;
     grid-template-columns: repeat(auto-fill, minmax(280px, 1fr));
     gap: 20px;
@@ -19829,7 +20171,7 @@ const COMPONENT_STYLES = `
   .grid-item {
     background: var(--card-bg);
     border: 1px solid var(--border);
-    border-radius: 12px;
+    border-radius: var(--radius);
     overflow: hidden;
     cursor: pointer;
     transition: transform 0.2s, border-color 0.2s;
@@ -19867,11 +20209,11 @@ const COMPONENT_STYLES = `
   .tag {
     font-size: 0.65rem;
     padding: 2px 8px;
-    border-radius: 999px;
+    border-radius: var(--radius-pill);
     border: 1px solid var(--accent);
     color: var(--accent);
     background: transparent;
-    font-family: system-ui, sans-serif;
+    font-family: var(--font-ui);
   }
 
   /* ── Overlay Card ── */
@@ -19882,29 +20224,31 @@ const COMPONENT_STYLES = `
     display: flex;
     align-items: center;
     justify-content: center;
-    background: rgba(0,0,0,0.8);
+    background: var(--overlay);
     backdrop-filter: blur(6px);
     padding: 24px;
     opacity: 0;
+    visibility: hidden;
     pointer-events: none;
-    transition: opacity 0.25s;
+    transition: opacity 0.25s, visibility 0.25s;
   }
 
   .overlay.active {
     opacity: 1;
+    visibility: visible;
     pointer-events: auto;
   }
 
   .card {
     background: var(--card-bg);
     border: 1px solid var(--border);
-    border-radius: 16px;
+    border-radius: var(--radius-card);
     max-width: 720px;
     width: 100%;
     display: flex;
     flex-direction: row;
     overflow: hidden;
-    box-shadow: 0 20px 60px rgba(0,0,0,0.5);
+    box-shadow: var(--shadow);
     position: relative;
   }
 
@@ -19912,14 +20256,98 @@ const COMPONENT_STYLES = `
     .card { flex-direction: column; }
   }
 
-  .card img {
+  /* ── Media carousel ── */
+  .media {
+    position: relative;
     width: 50%;
+    flex-shrink: 0;
+    overflow: hidden;
+    touch-action: pan-y;
+  }
+
+  @media (max-width: 640px) {
+    .media { width: 100%; aspect-ratio: 16/10; }
+  }
+
+  .media:focus-visible {
+    outline: 2px solid var(--accent);
+    outline-offset: -2px;
+  }
+
+  .slide {
+    position: absolute;
+    inset: 0;
+    margin: 0;
+  }
+
+  .slide[hidden] {
+    display: none;
+  }
+
+  .slide img, .slide video {
+    width: 100%;
+    height: 100%;
     object-fit: cover;
     display: block;
+    background: var(--media-bg);
   }
 
-  @media (max-width: 640px) {
-    .card img { width: 100%; aspect-ratio: 16/10; }
+  .slide figcaption {
+    position: absolute;
+    left: 0;
+    right: 0;
+    bottom: 0;
+    padding: 24px 12px 10px;
+    font-size: 0.7rem;
+    color: var(--caption-fg);
+    background: linear-gradient(transparent, var(--caption-bg));
+    font-family: var(--font-ui);
+    pointer-events: none;
+  }
+
+  .media-nav {
+    position: absolute;
+    top: 50%;
+    transform: translateY(-50%);
+    width: 28px;
+    height: 28px;
+    border-radius: 50%;
+    border: 1px solid var(--border);
+    background: var(--surface);
+    color: var(--fg);
+    cursor: pointer;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    z-index: 2;
+  }
+
+  .media-prev { left: 8px; }
+  .media-next { right: 8px; }
+
+  .media-dots {
+    position: absolute;
+    top: 10px;
+    left: 50%;
+    transform: translateX(-50%);
+    display: flex;
+    gap: 6px;
+    z-index: 2;
+  }
+
+  .media-dot {
+    width: 8px;
+    height: 8px;
+    padding: 0;
+    border-radius: 50%;
+    border: 1px solid var(--fg);
+    background: transparent;
+    cursor: pointer;
+  }
+
+  .media-dot[aria-current="true"] {
+    background: var(--accent);
+    border-color: var(--accent);
   }
 
   .card-body {
@@ -19936,13 +20364,68 @@ const COMPONENT_STYLES = `
     padding-right: 32px;
   }
 
-  .card-body p {
+  .card-body .description {
     font-size: 0.85rem;
     line-height: 1.6;
     color: var(--muted);
     margin: 0 0 16px;
   }
 
+  .description p, .description ul, .description ol, .description blockquote {
+    margin: 0 0 10px;
+  }
+
+  .description > :last-child {
+    margin-bottom: 0;
+  }
+
+  .description ul, .description ol {
+    padding-left: 20px;
+  }
+
+  .description a {
+    color: var(--accent);
+  }
+
+  .description strong, .description b {
+    color: var(--fg);
+  }
+
+  .card-links {
+    display: flex;
+    flex-wrap: wrap;
+    gap: 8px;
+    margin: 0 0 16px;
+  }
+
+  .link-btn {
+    display: inline-flex;
+    align-items: center;
+    font-size: 0.75rem;
+    padding: 6px 14px;
+    border-radius: var(--radius-pill);
+    border: 1px solid var(--accent);
+    color: var(--accent);
+    text-decoration: none;
+    font-family: var(--font-ui);
+    transition: background 0.15s, color 0.15s;
+  }
+
+  .link-btn.primary, .link-btn:hover, .link-btn:focus-visible {
+    background: var(--accent);
+    color: var(--on-accent);
+    outline: none;
+  }
+
+  .visually-hidden {
+    position: absolute;
+    width: 1px;
+    height: 1px;
+    overflow: hidden;
+    clip: rect(0 0 0 0);
+    white-space: nowrap;
+  }
+
   .card-body .tags {
     display: flex;
     flex-wrap: wrap;
@@ -19954,7 +20437,7 @@ const COMPONENT_STYLES = `
 
   .close-btn, .nav-btn {
     position: absolute;
-    background: rgba(0,0,0,0.6);
+    background: var(--surface);
     border: 1px solid var(--border);
     color: var(--fg);
     cursor: pointer;
@@ -19970,7 +20453,7 @@ const COMPONENT_STYLES = `
   }
 
   .close-btn:hover, .nav-btn:hover {
-    background: rgba(0,0,0,0.9);
+    background: var(--surface-hover);
   }
 
   .close-btn { top: 12px; right: 12px; }
@@ -19991,131 +20474,1710 @@ const COMPONENT_STYLES = `
     color: var(--muted);
   }
 
-  /* ── Reduced-motion grid wrapper ── */
-  .grid-wrap {
-    position: relative;
+  .retry-btn {
+    display: block;
+    margin: 8px auto 0;
+    font-size: 0.7rem;
+    padding: 4px 12px;
+    border-radius: var(--radius-pill);
+    border: 1px solid var(--border);
+    color: var(--fg);
+    background: transparent;
+    font-family: var(--font-ui);
+    cursor: pointer;
   }
-`;
-const ICON_CLOSE = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>`;
-const ICON_LEFT = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><polyline points="15 18 9 12 15 6"/></svg>`;
-const ICON_RIGHT = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><polyline points="9 6 15 12 9 18"/></svg>`;
+
+  .retry-btn:hover, .retry-btn:focus-visible {
+    border-color: var(--accent);
+    outline: none;
+  }
+
+  .validation-errors ul {
+    display: inline-block;
+    text-align: left;
+    margin: 8px 0 0;
+    padding-left: 18px;
+  }
+
+  /* ── Reduced-motion grid wrapper ── */
+  .grid-wrap {
+    position: relative;
+  }
+`;
+class SafeHtml {
+  constructor(value) {
+    this.value = value;
+  }
+  toString() {
+    return this.value;
+  }
+}
+function trustedHtml(markup) {
+  return new SafeHtml(markup);
+}
+function escapeHtml(value) {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+}
+function html(strings, ...values) {
+  const part = (value) => {
+    if (value instanceof SafeHtml) return value.value;
+    if (Array.isArray(value)) return value.map(part).join("");
+    if (value === null || value === void 0 || value === false) return "";
+    return escapeHtml(String(value));
+  };
+  let out = strings[0];
+  values.forEach((value, i) => {
+    out += part(value) + strings[i + 1];
+  });
+  return new SafeHtml(out);
+}
+function setHtml(el, content) {
+  el.innerHTML = content.value;
+}
+function linkButton(link, index) {
+  const primary = link.kind === "case-study" ? " primary" : "";
+  const part = `button link-button${primary}`;
+  if (!opensInNewTab(link.href)) {
+    return html`<a class="link-btn${primary}" part="${part}" href="${link.href}" data-link="${index}">${link.label}</a>`;
+  }
+  return html`<a class="link-btn${primary}" part="${part}" href="${link.href}" data-link="${index}" target="_blank" rel="noopener noreferrer">${link.label}<span class="visually-hidden"> (opens in a new tab)</span></a>`;
+}
+function opensInNewTab(href) {
+  try {
+    const url = new URL(href, document.baseURI);
+    return /^https?:$/.test(url.protocol) && url.origin !== location.origin;
+  } catch {
+    return false;
+  }
+}
+const ICON_CLOSE = trustedHtml(`<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>`);
+const ICON_LEFT = trustedHtml(`<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><polyline points="15 18 9 12 15 6"/></svg>`);
+const ICON_RIGHT = trustedHtml(`<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><polyline points="9 6 15 12 9 18"/></svg>`);
+let webGLAvailable = null;
 function isWebGLAvailable() {
+  if (webGLAvailable !== null) return webGLAvailable;
   try {
     const canvas = document.createElement("canvas");
-    return !!(window.WebGLRenderingContext && (canvas.getContext("webgl") || canvas.getContext("experimental-webgl")));
+    const gl = window.WebGLRenderingContext ? canvas.getContext("webgl") || canvas.getContext("experimental-webgl") : null;
+    webGLAvailable = !!gl;
+    gl?.getExtension("WEBGL_lose_context")?.loseContext();
   } catch {
-    return false;
+    webGLAvailable = false;
   }
+  return webGLAvailable;
 }
 function prefersReducedMotion() {
   return window.matchMedia("(prefers-reduced-motion: reduce)").matches;
 }
+function hashString(str) {
+  let h = 2166136261;
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+function seededRandom(seed) {
+  let a = seed >>> 0;
+  return () => {
+    a = a + 1831565813 >>> 0;
+    let t = a;
+    t = Math.imul(t ^ t >>> 15, t | 1);
+    t ^= t + Math.imul(t ^ t >>> 7, t | 61);
+    return ((t ^ t >>> 14) >>> 0) / 4294967296;
+  };
+}
+const DESCRIPTION_FORMATS = ["text", "markdown", "html"];
+const ALLOWED_TAGS = /* @__PURE__ */ new Set([
+  "p",
+  "br",
+  "strong",
+  "b",
+  "em",
+  "i",
+  "u",
+  "code",
+  "ul",
+  "ol",
+  "li",
+  "a",
+  "blockquote"
+]);
+const DROPPED_TAGS = /* @__PURE__ */ new Set([
+  "script",
+  "style",
+  "template",
+  "iframe",
+  "object",
+  "embed",
+  "svg",
+  "math",
+  "noscript"
+]);
+const LINK_PROTOCOLS = ["http:", "https:", "mailto:"];
+function createLink(href) {
+  try {
+    const url = new URL(href, document.baseURI);
+    if (!LINK_PROTOCOLS.includes(url.protocol)) return null;
+    const a = document.createElement("a");
+    a.href = url.href;
+    a.target = "_blank";
+    a.rel = "noopener noreferrer";
+    return a;
+  } catch {
+    return null;
+  }
+}
+function appendInlineMarkdown(parent, text) {
+  const pattern = /\*\*(.+?)\*\*|\*(.+?)\*|\b_(.+?)_\b|`(.+?)`|\[([^\]]+)\]\(((?:[^()\s]|\([^()\s]*\))+)\)/g;
+  let last = 0;
+  for (const m of text.matchAll(pattern)) {
+    const start = m.index ?? 0;
+    parent.appendChild(document.createTextNode(text.slice(last, start)));
+    last = start + m[0].length;
+    if (m[1] !== void 0 || m[2] !== void 0 || m[3] !== void 0) {
+      const el = document.createElement(m[1] !== void 0 ? "strong" : "em");
+      appendInlineMarkdown(el, m[1] ?? m[2] ?? m[3]);
+      parent.appendChild(el);
+    } else if (m[4] !== void 0) {
+      const code = document.createElement("code");
+      code.textContent = m[4];
+      parent.appendChild(code);
+    } else {
+      const a = createLink(m[6]);
+      if (a) {
+        appendInlineMarkdown(a, m[5]);
+        parent.appendChild(a);
+      } else {
+        appendInlineMarkdown(parent, m[5]);
+      }
+    }
+  }
+  parent.appendChild(document.createTextNode(text.slice(last)));
+}
+function renderMarkdown(src) {
+  const frag = document.createDocumentFragment();
+  src.replace(/\r\n?/g, "\n").split(/\n\s*\n/).map((block) => block.trim()).filter(Boolean).forEach((block) => {
+    const lines = block.split("\n");
+    const bullet = /^\s*[-*+]\s+/;
+    const numbered = /^\s*\d+[.)]\s+/;
+    const listType = lines.every((l) => bullet.test(l)) ? "ul" : lines.every((l) => numbered.test(l)) ? "ol" : null;
+    if (listType) {
+      const list = document.createElement(listType);
+      lines.forEach((line) => {
+        const li = document.createElement("li");
+        appendInlineMarkdown(li, line.replace(listType === "ul" ? bullet : numbered, ""));
+        list.appendChild(li);
+      });
+      frag.appendChild(list);
+      return;
+    }
+    const p = document.createElement("p");
+    lines.forEach((line, i) => {
+      if (i > 0) p.appendChild(document.createElement("br"));
+      appendInlineMarkdown(p, line.trim());
+    });
+    frag.appendChild(p);
+  });
+  return frag;
+}
+function sanitizeHtml(src) {
+  const doc = new DOMParser().parseFromString(src, "text/html");
+  const frag = document.createDocumentFragment();
+  const copy = (from, to) => {
+    from.childNodes.forEach((node) => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        to.appendChild(document.createTextNode(node.textContent || ""));
+        return;
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE) return;
+      const source = node;
+      const tag = source.localName;
+      if (DROPPED_TAGS.has(tag)) return;
+      if (!ALLOWED_TAGS.has(tag)) {
+        copy(source, to);
+        return;
+      }
+      const el = tag === "a" ? createLink(source.getAttribute("href") || "") ?? document.createElement("span") : document.createElement(tag);
+      copy(source, el);
+      to.appendChild(el);
+    });
+  };
+  copy(doc.body, frag);
+  return frag;
+}
+function renderDescription(text, format) {
+  if (format === "markdown") return renderMarkdown(text);
+  if (format === "html") return sanitizeHtml(text);
+  const frag = document.createDocumentFragment();
+  const p = document.createElement("p");
+  p.textContent = text;
+  frag.appendChild(p);
+  return frag;
+}
+const SCHEMA_VERSION = 1;
+const IMAGE_PROTOCOLS = ["http:", "https:", "data:", "blob:"];
+function isSafeUrl(value, protocols) {
+  try {
+    return protocols.includes(new URL(value, document.baseURI).protocol);
+  } catch {
+    return false;
+  }
+}
+const ITEM_FIELDS = /* @__PURE__ */ new Set([
+  "id",
+  "title",
+  "description",
+  "image",
+  "thumb",
+  "tags",
+  "url",
+  "links",
+  "media",
+  "featured"
+]);
+const LINK_LABELS = {
+  website: "Visit website",
+  press: "Read press coverage",
+  video: "Watch video"
+};
+function slugify(text) {
+  return text.toLowerCase().normalize("NFKD").replace(/[\u0300-\u036f]/g, "").replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+}
+function normalizePortfolioData(data) {
+  const warnings = [];
+  let rawItems = data;
+  let descriptionFormat = "text";
+  if (!Array.isArray(data)) {
+    if (!data || typeof data !== "object") {
+      warnings.push({ code: "invalid-root", message: "Data is not an object or array." });
+      return { items: [], descriptionFormat, warnings };
+    }
+    const { version, items: items2, descriptionFormat: format } = data;
+    if (version !== void 0 && (typeof version !== "number" || version > SCHEMA_VERSION)) {
+      warnings.push({
+        code: "unsupported-version",
+        message: `Schema version ${String(version)} is not supported; reading it as version ${SCHEMA_VERSION}.`
+      });
+    }
+    if (format !== void 0) {
+      if (DESCRIPTION_FORMATS.includes(format)) {
+        descriptionFormat = format;
+      } else {
+        warnings.push({
+          code: "invalid-type",
+          message: `Unknown descriptionFormat "${String(format)}"; using plain text.`,
+          field: "descriptionFormat"
+        });
+      }
+    }
+    if (!Array.isArray(items2)) {
+      warnings.push({ code: "invalid-root", message: "Data has no `items` array." });
+      return { items: [], descriptionFormat, warnings };
+    }
+    rawItems = items2;
+  }
+  const seen = /* @__PURE__ */ new Set();
+  const items = [];
+  rawItems.forEach((raw, index) => {
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      warnings.push({ code: "invalid-item", message: `Item ${index} is not an object; skipped.`, index });
+      return;
+    }
+    const source = raw;
+    const text = (field) => {
+      const value = source[field];
+      if (value === void 0 || value === null) return "";
+      if (typeof value === "string") return value.trim();
+      if (typeof value === "number") return String(value);
+      warnings.push({
+        code: "invalid-type",
+        message: `Item ${index}: \`${field}\` should be a string.`,
+        index,
+        field
+      });
+      return "";
+    };
+    const url = (field, protocols) => {
+      const value = text(field);
+      if (!value || isSafeUrl(value, protocols)) return value;
+      warnings.push({
+        code: "invalid-url",
+        message: `Item ${index}: \`${field}\` is not an allowed URL; ignored.`,
+        index,
+        field
+      });
+      return "";
+    };
+    let title = text("title");
+    let id = text("id");
+    if (!title) {
+      warnings.push({ code: "missing-field", message: `Item ${index} has no title.`, index, field: "title" });
+      title = id || "Untitled project";
+    }
+    if (!id) {
+      id = slugify(title) || `item-${index}`;
+      warnings.push({
+        code: "missing-field",
+        message: `Item ${index} has no id; using "${id}".`,
+        index,
+        field: "id"
+      });
+    }
+    if (seen.has(id)) {
+      warnings.push({
+        code: "duplicate-id",
+        message: `Item ${index} repeats id "${id}"; skipped.`,
+        index,
+        field: "id"
+      });
+      return;
+    }
+    seen.add(id);
+    let tags = [];
+    if (Array.isArray(source.tags)) {
+      tags = source.tags.filter((t) => typeof t === "string").map((t) => t.trim()).filter((t, i, all) => t && all.indexOf(t) === i);
+    } else if (source.tags !== void 0) {
+      warnings.push({
+        code: "invalid-type",
+        message: `Item ${index}: \`tags\` should be an array of strings.`,
+        index,
+        field: "tags"
+      });
+    }
+    const links = [];
+    if (Array.isArray(source.links)) {
+      source.links.forEach((raw2, k) => {
+        const link = raw2 && typeof raw2 === "object" ? raw2 : {};
+        const href = typeof link.href === "string" ? link.href.trim() : "";
+        if (!href || !isSafeUrl(href, LINK_PROTOCOLS)) {
+          warnings.push({
+            code: "invalid-url",
+            message: `Item ${index}: link ${k} has no allowed \`href\`; ignored.`,
+            index,
+            field: "links"
+          });
+          return;
+        }
+        const kind = typeof link.kind === "string" ? link.kind.trim() : "";
+        const label = typeof link.label === "string" ? link.label.trim() : "";
+        links.push({
+          label: label || LINK_LABELS[kind] || "Open link",
+          href,
+          ...kind && { kind }
+        });
+      });
+    } else if (source.links !== void 0) {
+      warnings.push({
+        code: "invalid-type",
+        message: `Item ${index}: \`links\` should be an array.`,
+        index,
+        field: "links"
+      });
+    }
+    const media = [];
+    if (Array.isArray(source.media)) {
+      source.media.forEach((raw2, k) => {
+        const entry = raw2 && typeof raw2 === "object" ? raw2 : {};
+        const str = (key) => typeof entry[key] === "string" ? entry[key].trim() : "";
+        const src = str("src");
+        if (!src || !isSafeUrl(src, IMAGE_PROTOCOLS)) {
+          warnings.push({
+            code: "invalid-url",
+            message: `Item ${index}: media ${k} has no allowed \`src\`; ignored.`,
+            index,
+            field: "media"
+          });
+          return;
+        }
+        const type = entry.type === "video" || entry.type === "image" ? entry.type : /\.(mp4|webm|ogv|mov)(\?|#|$)/i.test(src) ? "video" : "image";
+        const poster = str("poster");
+        media.push({
+          type,
+          src,
+          alt: str("alt"),
+          caption: str("caption"),
+          poster: poster && isSafeUrl(poster, IMAGE_PROTOCOLS) ? poster : ""
+        });
+      });
+    } else if (source.media !== void 0) {
+      warnings.push({
+        code: "invalid-type",
+        message: `Item ${index}: \`media\` should be an array.`,
+        index,
+        field: "media"
+      });
+    }
+    if (source.featured !== void 0 && typeof source.featured !== "boolean") {
+      warnings.push({
+        code: "invalid-type",
+        message: `Item ${index}: \`featured\` should be true or false.`,
+        index,
+        field: "featured"
+      });
+    }
+    const thumb = url("thumb", IMAGE_PROTOCOLS);
+    const custom = Object.fromEntries(
+      Object.entries(source).filter(([key]) => !ITEM_FIELDS.has(key))
+    );
+    items.push({
+      ...custom,
+      id,
+      title,
+      description: text("description"),
+      image: url("image", IMAGE_PROTOCOLS),
+      ...thumb && { thumb },
+      tags,
+      url: url("url", LINK_PROTOCOLS),
+      links,
+      media,
+      ...source.featured === true && { featured: true }
+    });
+  });
+  return { items, descriptionFormat, warnings };
+}
+const DATA_CACHE_NAME = "solar-portfolio-data";
+const DEFAULT_DATA_TIMEOUT = 15e3;
+const MIN_REFRESH_SECONDS = 5;
+const dataCache = /* @__PURE__ */ new Map();
+const dataListeners = /* @__PURE__ */ new Map();
+function dataKey(url) {
+  return new URL(url, document.baseURI).href;
+}
+async function fetchData(url, timeout, previous = null) {
+  const headers = {};
+  if (previous?.etag) headers["If-None-Match"] = previous.etag;
+  if (previous?.lastModified) headers["If-Modified-Since"] = previous.lastModified;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+  try {
+    const resp = await fetch(url, { headers, signal: controller.signal });
+    if (resp.status === 304 && previous) return null;
+    if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+    return {
+      data: await resp.json(),
+      etag: resp.headers.get("ETag"),
+      lastModified: resp.headers.get("Last-Modified")
+    };
+  } catch (err) {
+    if (controller.signal.aborted) throw new Error(`Timed out after ${timeout} ms`);
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+async function readPersisted(key) {
+  if (typeof caches === "undefined") return null;
+  try {
+    const resp = await (await caches.open(DATA_CACHE_NAME)).match(key);
+    if (!resp) return null;
+    return {
+      data: await resp.json(),
+      etag: resp.headers.get("ETag"),
+      lastModified: resp.headers.get("Last-Modified")
+    };
+  } catch (err) {
+    console.warn("[solar-portfolio] Could not read cached data:", err);
+    return null;
+  }
+}
+async function writePersisted(key, entry) {
+  if (typeof caches === "undefined") return;
+  const headers = { "Content-Type": "application/json" };
+  if (entry.etag) headers.ETag = entry.etag;
+  if (entry.lastModified) headers["Last-Modified"] = entry.lastModified;
+  try {
+    const cache = await caches.open(DATA_CACHE_NAME);
+    await cache.put(key, new Response(JSON.stringify(entry.data), { headers }));
+  } catch (err) {
+    console.warn("[solar-portfolio] Could not cache data:", err);
+  }
+}
+async function revalidateData(key, previous, options) {
+  const fresh = await fetchData(key, options.timeout, previous);
+  if (!fresh) return;
+  dataCache.set(key, Promise.resolve(fresh));
+  if (options.persist) await writePersisted(key, fresh);
+  if (JSON.stringify(fresh.data) === JSON.stringify(previous.data)) return;
+  dataListeners.get(key)?.forEach((listener) => listener(fresh.data));
+}
+function warnRevalidate(err) {
+  console.warn("[solar-portfolio] Could not revalidate cached data:", err);
+}
+async function loadData(url, options, revalidate = false) {
+  const key = dataKey(url);
+  let entry = dataCache.get(key);
+  if (entry && revalidate) {
+    const previous = await entry.catch(() => null);
+    if (previous) {
+      await revalidateData(key, previous, options).catch(warnRevalidate);
+    }
+    entry = dataCache.get(key);
+  }
+  if (!entry) {
+    entry = (options.persist ? readPersisted(key) : Promise.resolve(null)).then(async (stored) => {
+      if (stored) {
+        revalidateData(key, stored, options).catch(warnRevalidate);
+        return stored;
+      }
+      const fresh = await fetchData(key, options.timeout);
+      if (options.persist) await writePersisted(key, fresh);
+      return fresh;
+    });
+    dataCache.set(key, entry);
+    entry.catch(() => {
+      if (dataCache.get(key) === entry) dataCache.delete(key);
+    });
+  }
+  return (await entry).data;
+}
+function onDataChange(url, listener) {
+  const key = dataKey(url);
+  let listeners = dataListeners.get(key);
+  if (!listeners) dataListeners.set(key, listeners = /* @__PURE__ */ new Set());
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+const LAYOUT_MODES = ["clusters", "sphere", "spiral"];
+const LAYOUT_EXTENT = new Vector3(2, 1, 1.5);
+const MIN_ITEM_DISTANCE = 0.9;
+const MAX_EDGES_PER_ITEM = 4;
+function computeLayout(items, mode) {
+  if (items.length === 0) return [];
+  const scale = layoutScale(items.length);
+  switch (mode) {
+    case "sphere":
+      return sphereLayout(items, scale);
+    case "spiral":
+      return spiralLayout(items, scale);
+    default:
+      return clusterLayout(items, scale);
+  }
+}
+function layoutScale(count) {
+  return 1 + 0.25 * Math.log2(Math.max(1, count / 10));
+}
+function groupByTags(items) {
+  const freq = /* @__PURE__ */ new Map();
+  items.forEach((item) => {
+    new Set(item.tags).forEach((t) => freq.set(t, (freq.get(t) || 0) + 1));
+  });
+  const groups = /* @__PURE__ */ new Map();
+  items.forEach((item, i) => {
+    let key = `#${item.id}`;
+    let best = 1;
+    [...item.tags].sort().forEach((t) => {
+      const f = freq.get(t) || 0;
+      if (f > best) {
+        best = f;
+        key = t;
+      }
+    });
+    const group = groups.get(key);
+    if (group) group.push(i);
+    else groups.set(key, [i]);
+  });
+  return [...groups.values()].sort((a, b) => b.length - a.length || a[0] - b[0]);
+}
+function fibonacciSphere(count) {
+  const points = [];
+  const golden = Math.PI * (3 - Math.sqrt(5));
+  if (count === 1) return [new Vector3()];
+  for (let i = 0; i < count; i++) {
+    const y = 1 - i / (count - 1) * 2;
+    const r = Math.sqrt(1 - y * y);
+    const theta = golden * i;
+    points.push(new Vector3(Math.cos(theta) * r, y, Math.sin(theta) * r));
+  }
+  return points;
+}
+function clusterLayout(items, scale) {
+  const groups = groupByTags(items);
+  const centers = fibonacciSphere(groups.length).map(
+    (p) => p.multiply(LAYOUT_EXTENT).multiplyScalar(0.8 * scale)
+  );
+  const positions = new Array(items.length);
+  groups.forEach((members, g) => {
+    const radius = members.length === 1 ? 0 : 0.3 + 0.12 * Math.sqrt(members.length);
+    const offsets = fibonacciSphere(members.length);
+    members.forEach((idx, k) => {
+      positions[idx] = centers[g].clone().addScaledVector(offsets[k], radius);
+    });
+  });
+  relaxLayout(positions, items, scale);
+  return positions;
+}
+function sphereLayout(items, scale) {
+  const order = groupByTags(items).flat();
+  const points = fibonacciSphere(items.length);
+  const positions = new Array(items.length);
+  order.forEach((idx, k) => {
+    positions[idx] = points[k].multiply(LAYOUT_EXTENT).multiplyScalar(scale);
+  });
+  return positions;
+}
+function spiralLayout(items, scale) {
+  const order = groupByTags(items).flat();
+  const turns = 1.5 + items.length / 20;
+  const positions = new Array(items.length);
+  order.forEach((idx, k) => {
+    const t = items.length === 1 ? 0 : k / (items.length - 1);
+    const angle = t * turns * Math.PI * 2;
+    const r = 0.35 + t * 0.75;
+    const rand = seededRandom(hashString(items[idx].id));
+    positions[idx] = new Vector3(
+      Math.cos(angle) * r * LAYOUT_EXTENT.x,
+      (rand() - 0.5) * LAYOUT_EXTENT.y * 0.8,
+      Math.sin(angle) * r * LAYOUT_EXTENT.z
+    ).multiplyScalar(scale);
+  });
+  return positions;
+}
+function relaxLayout(positions, items, scale) {
+  const n = positions.length;
+  const tagSets = items.map((item) => new Set(item.tags));
+  const bounds = LAYOUT_EXTENT.clone().multiplyScalar(scale);
+  const delta = new Vector3();
+  const sharedTags = new Uint8Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      let shared = 0;
+      tagSets[i].forEach((t) => {
+        if (tagSets[j].has(t)) shared++;
+      });
+      sharedTags[i * n + j] = Math.min(shared, 255);
+    }
+  }
+  const iterations = Math.max(20, Math.min(80, Math.round(16e3 / Math.max(1, n))));
+  positions.forEach((p, i) => {
+    const rand = seededRandom(hashString(items[i].id));
+    p.x += (rand() - 0.5) * 0.05;
+    p.y += (rand() - 0.5) * 0.05;
+    p.z += (rand() - 0.5) * 0.05;
+  });
+  for (let iter = 0; iter < iterations; iter++) {
+    const cooling = 1 - iter / iterations;
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        delta.subVectors(positions[j], positions[i]);
+        const dist = Math.max(delta.length(), 1e-3);
+        let force = 0;
+        if (dist < MIN_ITEM_DISTANCE) {
+          force -= (MIN_ITEM_DISTANCE - dist) * 0.5;
+        }
+        const shared = sharedTags[i * n + j];
+        if (shared > 0 && dist > MIN_ITEM_DISTANCE * 1.2) {
+          force += (dist - MIN_ITEM_DISTANCE * 1.2) * 0.02 * shared;
+        }
+        if (force === 0) continue;
+        delta.multiplyScalar(force * cooling / dist);
+        positions[i].add(delta);
+        positions[j].sub(delta);
+      }
+    }
+    positions.forEach((p) => p.clamp(bounds.clone().negate(), bounds));
+  }
+}
+const SEARCH_FIELD_WEIGHTS = { title: 3, tags: 2, description: 1 };
+function normalizeWord(word) {
+  return word.toLowerCase().normalize("NFKD").replace(/[\u0300-\u036f]/g, "");
+}
+function tokenize(text) {
+  return normalizeWord(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+function editDistance(a, b, max) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+      rowMin = Math.min(rowMin, cur[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = cur;
+  }
+  return prev[b.length];
+}
+function matchQuality(queryToken, word) {
+  if (word === queryToken) return 1;
+  if (queryToken.length >= 2 && word.startsWith(queryToken)) return 0.8;
+  const maxTypos = queryToken.length >= 8 ? 2 : queryToken.length >= 4 ? 1 : 0;
+  if (maxTypos === 0) return 0;
+  const d = editDistance(queryToken, word, maxTypos);
+  return d <= maxTypos ? 0.6 - 0.15 * (d - 1) : 0;
+}
+function searchItems(items, query) {
+  const queryTokens = [...new Set(tokenize(query))];
+  if (queryTokens.length === 0) return [];
+  const results = [];
+  items.forEach((item, index) => {
+    const fields = [
+      [tokenize(item.title), SEARCH_FIELD_WEIGHTS.title],
+      [tokenize(item.tags.join(" ")), SEARCH_FIELD_WEIGHTS.tags],
+      [tokenize(item.description), SEARCH_FIELD_WEIGHTS.description]
+    ];
+    const terms = /* @__PURE__ */ new Set();
+    let score = 0;
+    for (const qt of queryTokens) {
+      let best = 0;
+      for (const [words, weight] of fields) {
+        for (const word of words) {
+          const q = matchQuality(qt, word);
+          if (q === 0) continue;
+          terms.add(word);
+          best = Math.max(best, q * weight);
+        }
+      }
+      if (best === 0) return;
+      score += best;
+    }
+    results.push({ index, score, terms });
+  });
+  return results.sort((a, b) => b.score - a.score || a.index - b.index);
+}
+function highlightTerms(root, terms) {
+  root.querySelectorAll("mark.search-hit").forEach((mark) => {
+    mark.replaceWith(document.createTextNode(mark.textContent || ""));
+  });
+  root.normalize();
+  if (!terms || terms.size === 0) return;
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const textNodes = [];
+  while (walker.nextNode()) {
+    const node = walker.currentNode;
+    if (!node.parentElement?.closest("script, style")) textNodes.push(node);
+  }
+  textNodes.forEach((node) => {
+    const text = node.data;
+    const wordPattern = /[\p{L}\p{N}]+/gu;
+    const frag = document.createDocumentFragment();
+    let last = 0;
+    let found = false;
+    for (const m of text.matchAll(wordPattern)) {
+      if (!terms.has(normalizeWord(m[0]))) continue;
+      found = true;
+      const start = m.index ?? 0;
+      frag.appendChild(document.createTextNode(text.slice(last, start)));
+      const mark = document.createElement("mark");
+      mark.className = "search-hit";
+      mark.textContent = m[0];
+      frag.appendChild(mark);
+      last = start + m[0].length;
+    }
+    if (!found) return;
+    frag.appendChild(document.createTextNode(text.slice(last)));
+    node.replaceWith(frag);
+  });
+}
+function mediaSlide(media, index, title) {
+  const label = media.alt || title;
+  const content = media.type === "video" ? html`<video src="${media.src}" poster="${media.poster}" aria-label="${label}" controls playsinline muted loop preload="metadata"></video>` : html`<img src="${media.src}" alt="${label}" />`;
+  return html`<figure class="slide" data-slide="${index}">${content}${media.caption && html`<figcaption>${media.caption}</figcaption>`}</figure>`;
+}
+function mediaGallery(item) {
+  const media = item.media?.length ? item.media : [{ src: item.image }];
+  if (media.length === 1) {
+    return html`<div class="media" part="media">${mediaSlide(media[0], 0, item.title)}</div>`;
+  }
+  return html`
+    <div class="media" part="media" role="region" aria-roledescription="carousel" aria-label="${item.title} media" tabindex="0">
+      ${media.map((m, i) => mediaSlide(m, i, item.title))}
+      <button class="media-nav media-prev" part="button media-nav" aria-label="Previous media">${ICON_LEFT}</button>
+      <button class="media-nav media-next" part="button media-nav" aria-label="Next media">${ICON_RIGHT}</button>
+      <div class="media-dots">
+        ${media.map((_, i) => html`<button class="media-dot" part="media-dot" data-dot="${i}" aria-label="Show media ${i + 1} of ${media.length}"></button>`)}
+      </div>
+    </div>
+  `;
+}
+class MediaCarousel {
+  constructor(root) {
+    this.current = 0;
+    this.pointerStartX = null;
+    this.handleKey = (e) => {
+      if (e.key !== "ArrowLeft" && e.key !== "ArrowRight") return;
+      e.stopPropagation();
+      e.preventDefault();
+      this.go(this.current + (e.key === "ArrowRight" ? 1 : -1));
+    };
+    this.handlePointerDown = (e) => {
+      this.pointerStartX = e.clientX;
+    };
+    this.handlePointerUp = (e) => {
+      if (this.pointerStartX === null) return;
+      const dx = e.clientX - this.pointerStartX;
+      this.pointerStartX = null;
+      if (Math.abs(dx) > 40) this.go(this.current + (dx < 0 ? 1 : -1));
+    };
+    this.root = root;
+    this.slides = Array.from(root.querySelectorAll(".slide"));
+    this.dots = Array.from(root.querySelectorAll(".media-dot"));
+    root.querySelector(".media-prev")?.addEventListener("click", () => this.go(this.current - 1));
+    root.querySelector(".media-next")?.addEventListener("click", () => this.go(this.current + 1));
+    this.dots.forEach((dot, i) => dot.addEventListener("click", () => this.go(i)));
+    if (this.slides.length > 1) {
+      root.addEventListener("keydown", this.handleKey);
+      root.addEventListener("pointerdown", this.handlePointerDown);
+      root.addEventListener("pointerup", this.handlePointerUp);
+    }
+    this.go(0);
+  }
+  go(index) {
+    const count = this.slides.length;
+    this.current = (index % count + count) % count;
+    this.slides.forEach((slide, i) => {
+      const active = i === this.current;
+      slide.hidden = !active;
+      slide.setAttribute("aria-label", `${i + 1} of ${count}`);
+      const video = slide.querySelector("video");
+      if (!video) return;
+      if (active && !prefersReducedMotion()) video.play().catch(() => {
+      });
+      else video.pause();
+    });
+    this.dots.forEach((dot, i) => dot.setAttribute("aria-current", String(i === this.current)));
+  }
+  destroy() {
+    this.root.removeEventListener("keydown", this.handleKey);
+    this.root.removeEventListener("pointerdown", this.handlePointerDown);
+    this.root.removeEventListener("pointerup", this.handlePointerUp);
+    this.slides.forEach((slide) => slide.querySelector("video")?.pause());
+  }
+}
+const BINDING_PATTERN = /\{\{\s*([\w$.-]*)\s*\}\}/g;
+const URL_ATTRIBUTES = {
+  href: LINK_PROTOCOLS,
+  "xlink:href": LINK_PROTOCOLS,
+  action: LINK_PROTOCOLS,
+  formaction: LINK_PROTOCOLS,
+  data: LINK_PROTOCOLS,
+  src: IMAGE_PROTOCOLS,
+  poster: IMAGE_PROTOCOLS
+};
+const UNBOUND_ATTRIBUTES = /* @__PURE__ */ new Set([
+  "srcdoc",
+  "style",
+  "attributename",
+  "to",
+  "from",
+  "values",
+  "by"
+]);
+const UNBOUND_ELEMENTS = /* @__PURE__ */ new Set(["script", "style", "template"]);
+function isSafeSrcset(value) {
+  const candidates = value.split(",").map((c) => c.trim().split(/\s+/)[0]);
+  return candidates.every((src) => src && isSafeUrl(src, IMAGE_PROTOCOLS));
+}
+function lookup(path, item, scope) {
+  const local = path.startsWith(".");
+  const keys = (local ? path.slice(1) : path).split(".").filter(Boolean);
+  return keys.reduce(
+    (value, key) => value && typeof value === "object" ? value[key] : void 0,
+    local ? scope : item
+  );
+}
+function bindingText(value) {
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  if (Array.isArray(value)) return value.map(bindingText).filter(Boolean).join(", ");
+  return "";
+}
+function isTruthy(value) {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+function bindTemplateNode(node, item, scope) {
+  [...node.childNodes].forEach((child) => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      const text = child.textContent ?? "";
+      if (text.includes("{{")) {
+        child.textContent = text.replace(
+          BINDING_PATTERN,
+          (_, path) => bindingText(lookup(path, item, scope))
+        );
+      }
+    } else if (child.nodeType === Node.ELEMENT_NODE) {
+      bindTemplateElement(child, item, scope);
+    }
+  });
+}
+function bindTemplateElement(el, item, scope) {
+  const each = el.getAttribute("data-each");
+  if (each !== null) {
+    el.removeAttribute("data-each");
+    const list = lookup(each, item, scope);
+    (Array.isArray(list) ? list : []).forEach((entry) => {
+      const copy = el.cloneNode(true);
+      el.before(copy);
+      bindTemplateElement(copy, item, entry);
+    });
+    el.remove();
+    return;
+  }
+  const condition = el.getAttribute("data-if");
+  if (condition !== null) {
+    el.removeAttribute("data-if");
+    const negate = condition.startsWith("!");
+    if (isTruthy(lookup(condition.replace(/^!/, ""), item, scope)) === negate) {
+      el.remove();
+      return;
+    }
+  }
+  const unbound = UNBOUND_ELEMENTS.has(el.localName);
+  [...el.attributes].forEach(({ name, value }) => {
+    if (!value.includes("{{")) return;
+    const lower = name.toLowerCase();
+    if (unbound || lower.startsWith("on") || UNBOUND_ATTRIBUTES.has(lower)) {
+      el.removeAttribute(name);
+      return;
+    }
+    const bound = value.replace(BINDING_PATTERN, (_, path) => bindingText(lookup(path, item, scope)));
+    const protocols = URL_ATTRIBUTES[lower];
+    const safe = lower === "srcset" || lower === "imagesrcset" ? isSafeSrcset(bound) : !protocols || bound !== "" && isSafeUrl(bound, protocols);
+    if (safe) el.setAttribute(name, bound);
+    else el.removeAttribute(name);
+  });
+  if (!unbound) bindTemplateNode(el, item, scope);
+}
+function renderTemplate(template, item) {
+  const fragment2 = document.importNode(template.content, true);
+  bindTemplateNode(fragment2, item, item);
+  return fragment2;
+}
+const RENDER_QUALITIES = ["low", "balanced", "high"];
+const QUALITY_PRESETS = {
+  low: { pixelRatio: 1, idleFps: 30, motion: false },
+  balanced: { pixelRatio: 2, idleFps: 30, motion: true },
+  high: { pixelRatio: 2, idleFps: Infinity, motion: true }
+};
+const ORBIT_DISTANCE = 5;
+const CLOSE_UP_DISTANCE = 1.6;
+const FLIGHT_DURATION = 900;
+function easeInOutCubic(t) {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+const THUMB_WIDTH = 0.8;
+const THUMB_HEIGHT = 0.53;
+const ATLAS_SIZE = 2048;
+const ATLAS_HEADROOM = 16;
+const UPDATE_DURATION = 1200;
+const LABEL_LIMIT = 48;
+const DETAIL_LIMIT = 8;
+const DETAIL_CACHE_SIZE = 24;
+const CULL_DEPTH = 1.5;
+const HIDDEN_PRIORITY = 100;
+const FRAME_STATS_SIZE = 120;
+const Y_AXIS = new Vector3(0, 1, 0);
+const IMAGE_CONCURRENCY = 6;
+const IMAGE_RETRIES = 3;
+const IMAGE_RETRY_DELAY = 1e3;
+const TEXTURE_FADE = 400;
+const SCENE_READY_COUNT = 12;
+const SCENE_READY_TIMEOUT = 6e3;
+const THUMB_VERTEX_SHADER = `
+  #ifdef USE_INSTANCING
+    attribute vec4 atlasRect;
+    attribute float thumbOpacity;
+    attribute float thumbGlow;
+    attribute float thumbReveal;
+  #else
+    uniform vec4 atlasRect;
+    uniform float thumbOpacity;
+    uniform float thumbGlow;
+    uniform float thumbReveal;
+  #endif
+  varying vec2 vUv;
+  varying vec2 vAtlasUv;
+  varying float vOpacity;
+  varying float vGlow;
+  varying float vReveal;
+
+  void main() {
+    vUv = uv;
+    vAtlasUv = atlasRect.xy + uv * atlasRect.zw;
+    vOpacity = thumbOpacity;
+    vGlow = thumbGlow;
+    vReveal = thumbReveal;
+    vec4 local = vec4(position, 1.0);
+    #ifdef USE_INSTANCING
+      local = instanceMatrix * local;
+    #endif
+    gl_Position = projectionMatrix * modelViewMatrix * local;
+  }
+`;
+const THUMB_FRAGMENT_SHADER = `
+  uniform sampler2D map;
+  uniform vec3 accent;
+  uniform vec3 placeholder;
+  #ifndef USE_INSTANCING
+    uniform sampler2D detailMap;
+    uniform float detailMix;
+  #endif
+  varying vec2 vUv;
+  varying vec2 vAtlasUv;
+  varying float vOpacity;
+  varying float vGlow;
+  varying float vReveal;
+
+  void main() {
+    vec3 image = texture2D(map, vAtlasUv).rgb;
+    #ifndef USE_INSTANCING
+      image = mix(image, texture2D(detailMap, vUv).rgb, detailMix);
+    #endif
+    vec3 color = mix(placeholder, image, vReveal) * 0.9 + accent * 0.35 * vGlow;
+    gl_FragColor = vec4(color, vOpacity);
+    #include <colorspace_fragment>
+  }
+`;
+function createThumbMaterial(map, colors) {
+  return new ShaderMaterial({
+    uniforms: {
+      map: { value: map },
+      detailMap: { value: map },
+      detailMix: { value: 0 },
+      accent: { value: new Color(colors.accent) },
+      placeholder: { value: new Color(colors.placeholder) },
+      atlasRect: { value: new Vector4(0, 0, 1, 1) },
+      thumbOpacity: { value: 0.85 },
+      thumbGlow: { value: 0 },
+      thumbReveal: { value: 0 }
+    },
+    vertexShader: THUMB_VERTEX_SHADER,
+    fragmentShader: THUMB_FRAGMENT_SHADER,
+    transparent: true,
+    side: DoubleSide
+  });
+}
+function revealAt(readyAt, now) {
+  if (readyAt === void 0) return 0;
+  return Math.min(1, (now - readyAt) / TEXTURE_FADE);
+}
+class ImageQueue {
+  constructor(crossOrigin) {
+    this.pending = [];
+    this.active = 0;
+    this.loader = new ImageLoader();
+    this.timers = /* @__PURE__ */ new Set();
+    this.disposed = false;
+    this.loader.setCrossOrigin(crossOrigin);
+  }
+  load(url, priority) {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ url, priority, attempts: 0, resolve, reject });
+      this.pump();
+    });
+  }
+  pump() {
+    while (!this.disposed && this.active < IMAGE_CONCURRENCY && this.pending.length > 0) {
+      let best = 0;
+      let bestPriority = Infinity;
+      this.pending.forEach((req2, k) => {
+        const p = req2.priority();
+        if (p < bestPriority) {
+          bestPriority = p;
+          best = k;
+        }
+      });
+      const [req] = this.pending.splice(best, 1);
+      this.active++;
+      this.loader.load(
+        req.url,
+        (img) => {
+          this.active--;
+          if (!this.disposed) req.resolve(img);
+          this.pump();
+        },
+        void 0,
+        (err) => {
+          this.active--;
+          this.retry(req, err);
+          this.pump();
+        }
+      );
+    }
+  }
+  retry(req, err) {
+    if (this.disposed) return;
+    if (++req.attempts > IMAGE_RETRIES) {
+      req.reject(err);
+      return;
+    }
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      this.pending.push(req);
+      this.pump();
+    }, IMAGE_RETRY_DELAY * 2 ** (req.attempts - 1));
+    this.timers.add(timer);
+  }
+  dispose() {
+    this.disposed = true;
+    this.pending = [];
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+  }
+}
+class ThumbnailAtlas {
+  constructor(capacity, queue, fallbackColor, onChange) {
+    this.states = [];
+    this.claims = [];
+    this.free = [];
+    this.drawn = [];
+    this.readyAt = [];
+    this.lastUpload = 0;
+    this.disposed = false;
+    const aspect2 = THUMB_HEIGHT / THUMB_WIDTH;
+    let tileWidth = 256;
+    while (tileWidth > 32 && Math.floor(ATLAS_SIZE / tileWidth) * Math.floor(ATLAS_SIZE / (tileWidth * aspect2)) < capacity) {
+      tileWidth /= 2;
+    }
+    this.queue = queue;
+    this.onChange = onChange;
+    this.fallbackColor = fallbackColor;
+    this.tileWidth = tileWidth;
+    this.tileHeight = Math.round(tileWidth * aspect2);
+    this.cols = Math.floor(ATLAS_SIZE / tileWidth);
+    this.capacity = Math.min(capacity, this.cols * Math.floor(ATLAS_SIZE / this.tileHeight));
+    for (let tile = this.capacity - 1; tile >= 0; tile--) this.free.push(tile);
+    this.canvas = document.createElement("canvas");
+    this.canvas.width = Math.max(1, Math.min(this.capacity, this.cols)) * this.tileWidth;
+    this.canvas.height = Math.max(1, Math.ceil(this.capacity / this.cols)) * this.tileHeight;
+    this.ctx = this.canvas.getContext("2d");
+    this.texture = new CanvasTexture(this.canvas);
+    this.texture.colorSpace = SRGBColorSpace;
+    this.texture.generateMipmaps = false;
+    this.texture.minFilter = LinearFilter;
+  }
+  /** Tiles still unclaimed. */
+  get available() {
+    return this.free.length;
+  }
+  /** Thumbnails settled so far among the claimed tiles. */
+  get progress() {
+    const claimed = this.states.filter((state) => state !== null);
+    return {
+      loaded: claimed.filter((state) => state === "loaded").length,
+      failed: claimed.filter((state) => state === "failed").length,
+      total: claimed.length
+    };
+  }
+  /** Claims a tile and queues `url` for it. Returns -1 when the atlas is full. */
+  add(url, priority) {
+    const tile = this.free.pop();
+    if (tile === void 0) return -1;
+    const claim = (this.claims[tile] ?? 0) + 1;
+    this.claims[tile] = claim;
+    this.states[tile] = "loading";
+    this.readyAt[tile] = void 0;
+    const settle = (state) => {
+      this.states[tile] = state;
+      this.drawn.push(tile);
+      this.onChange();
+    };
+    this.queue.load(url, priority).then(
+      (img) => {
+        if (this.disposed || this.claims[tile] !== claim) return;
+        const [x, y] = this.tileOrigin(tile);
+        this.ctx.drawImage(img, x, y, this.tileWidth, this.tileHeight);
+        settle("loaded");
+      },
+      () => {
+        if (this.disposed || this.claims[tile] !== claim) return;
+        this.fillTile(tile);
+        settle("failed");
+      }
+    );
+    return tile;
+  }
+  /** Frees a tile for reuse; a load still pending for it is ignored. */
+  release(tile) {
+    this.claims[tile]++;
+    this.states[tile] = null;
+    this.free.push(tile);
+  }
+  fillTile(tile) {
+    const [x, y] = this.tileOrigin(tile);
+    this.ctx.fillStyle = this.fallbackColor;
+    this.ctx.fillRect(x, y, this.tileWidth, this.tileHeight);
+  }
+  /** Repaints the tiles of images that failed to load in a new color. */
+  setFallbackColor(color) {
+    this.fallbackColor = color;
+    let repainted = false;
+    this.states.forEach((state, tile) => {
+      if (state !== "failed") return;
+      this.fillTile(tile);
+      repainted = true;
+    });
+    if (repainted) this.texture.needsUpdate = true;
+  }
+  tileOrigin(tile) {
+    return [tile % this.cols * this.tileWidth, Math.floor(tile / this.cols) * this.tileHeight];
+  }
+  /** UV offset and size of a tile, inset half a texel against bleeding. */
+  rect(tile, out) {
+    if (tile < 0) return out.set(0, 0, 0, 0);
+    const [x, y] = this.tileOrigin(tile);
+    const w = this.canvas.width;
+    const h = this.canvas.height;
+    return out.set(
+      (x + 0.5) / w,
+      1 - (y + this.tileHeight - 0.5) / h,
+      (this.tileWidth - 1) / w,
+      (this.tileHeight - 1) / h
+    );
+  }
+  /** How far a tile has faded in from the placeholder. */
+  reveal(tile, now) {
+    return revealAt(this.readyAt[tile], now);
+  }
+  /**
+   * Uploads new tiles at most a few times a second. Returns true while tiles
+   * are waiting to upload or still fading in.
+   */
+  flush(now) {
+    if (this.drawn.length > 0 && now - this.lastUpload >= 200) {
+      this.texture.needsUpdate = true;
+      this.drawn.forEach((tile) => this.readyAt[tile] = now);
+      this.drawn = [];
+      this.lastUpload = now;
+    }
+    return this.drawn.length > 0 || now - this.lastUpload < TEXTURE_FADE;
+  }
+  dispose() {
+    this.disposed = true;
+    this.texture.dispose();
+  }
+}
+class DetailTextures {
+  constructor(queue, onLoad) {
+    this.cache = /* @__PURE__ */ new Map();
+    this.loadedAt = /* @__PURE__ */ new Map();
+    this.queue = queue;
+    this.onLoad = onLoad;
+  }
+  /** The texture if it has loaded; otherwise starts loading it and returns null. */
+  get(url) {
+    if (this.cache.has(url)) {
+      const tex = this.cache.get(url);
+      this.cache.delete(url);
+      this.cache.set(url, tex);
+      return tex;
+    }
+    this.cache.set(url, null);
+    this.queue.load(url, () => -1).then(
+      (img) => {
+        if (!this.cache.has(url)) return;
+        const tex = new Texture(img);
+        tex.colorSpace = SRGBColorSpace;
+        tex.needsUpdate = true;
+        this.cache.set(url, tex);
+        this.loadedAt.set(url, performance.now());
+        this.onLoad();
+      },
+      () => {
+      }
+    );
+    for (const [key, tex] of this.cache) {
+      if (this.cache.size <= DETAIL_CACHE_SIZE) break;
+      tex?.dispose();
+      this.cache.delete(key);
+      this.loadedAt.delete(key);
+    }
+    return null;
+  }
+  /** How far a loaded texture has cross-faded in over the atlas tile. */
+  reveal(url, now) {
+    return revealAt(this.loadedAt.get(url), now);
+  }
+  dispose() {
+    this.cache.forEach((tex) => tex?.dispose());
+    this.cache.clear();
+  }
+}
+const _SharedRenderer = class _SharedRenderer {
+  constructor() {
+    this.lost = false;
+    this.users = 0;
+    this.handleContextLost = (e) => {
+      e.preventDefault();
+      this.lost = true;
+      console.warn("[solar-portfolio]", "WebGL context lost; showing the grid until it is restored.");
+      _SharedRenderer.listeners.forEach((listener) => listener(true));
+    };
+    this.handleContextRestored = () => {
+      this.lost = false;
+      _SharedRenderer.listeners.forEach((listener) => listener(false));
+    };
+    this.renderer = new WebGLRenderer({ antialias: true, alpha: true });
+    this.renderer.outputColorSpace = SRGBColorSpace;
+    const canvas = this.renderer.domElement;
+    canvas.addEventListener("webglcontextlost", this.handleContextLost);
+    canvas.addEventListener("webglcontextrestored", this.handleContextRestored);
+  }
+  static acquire() {
+    _SharedRenderer.instance ?? (_SharedRenderer.instance = new _SharedRenderer());
+    _SharedRenderer.instance.users++;
+    return _SharedRenderer.instance;
+  }
+  static get contextLost() {
+    return _SharedRenderer.instance?.lost ?? false;
+  }
+  /** Called with `true` when the context is lost and `false` once it is restored. */
+  static onContextChange(listener) {
+    _SharedRenderer.listeners.add(listener);
+    return () => _SharedRenderer.listeners.delete(listener);
+  }
+  /** Renders at the target canvas's pixel size and copies the image across. */
+  render(scene, camera, target) {
+    const { width, height } = target.canvas;
+    if (this.lost || width === 0 || height === 0) return;
+    const canvas = this.renderer.domElement;
+    if (canvas.width < width || canvas.height < height) {
+      this.renderer.setSize(Math.max(canvas.width, width), Math.max(canvas.height, height), false);
+    }
+    this.renderer.setViewport(0, 0, width, height);
+    this.renderer.setScissor(0, 0, width, height);
+    this.renderer.setScissorTest(true);
+    this.renderer.render(scene, camera);
+    target.clearRect(0, 0, width, height);
+    target.drawImage(canvas, 0, canvas.height - height, width, height, 0, 0, width, height);
+  }
+  release() {
+    this.users--;
+    if (this.users > 0 || this.lost) return;
+    const canvas = this.renderer.domElement;
+    canvas.removeEventListener("webglcontextlost", this.handleContextLost);
+    canvas.removeEventListener("webglcontextrestored", this.handleContextRestored);
+    this.renderer.dispose();
+    this.renderer.forceContextLoss();
+    _SharedRenderer.instance = null;
+  }
+};
+_SharedRenderer.instance = null;
+_SharedRenderer.listeners = /* @__PURE__ */ new Set();
+let SharedRenderer = _SharedRenderer;
 class ConstellationScene {
-  constructor(container, labelLayer, items, accent, onItemClick) {
+  constructor(container, labelLayer, items, settings, handlers) {
     this.raycaster = new Raycaster();
     this.mouse = new Vector2();
-    this.thumbnailMeshes = [];
-    this.textures = [];
     this.items = [];
     this.animId = 0;
-    this.labelElements = [];
+    this.lastFrame = 0;
+    this.frameStarts = [];
+    this.frameDurations = [];
+    this.onScreen = true;
+    this.covered = false;
+    this.dragging = false;
     this.stars = null;
+    this.edges = [];
+    this.edgeLines = null;
+    this.edgeColorsDirty = true;
+    this.hoveredIndex = null;
+    this.selectedIndex = null;
+    this.visibleMask = [];
+    this.fade = [];
+    this.flyGoal = null;
+    this.flight = null;
+    this.closeUp = false;
+    this.focusedIndex = null;
+    this.hoverOutline = null;
+    this.selectedOutline = null;
+    this.emphasis = [];
+    this.pointerMoved = false;
+    this.pointerInside = false;
     this.basePositions = [];
     this.currentPositions = [];
+    this.rotations = [];
+    this.scratchQuaternion = new Quaternion();
+    this.scratchScale = new Vector3();
+    this.thumbGeometry = new PlaneGeometry(THUMB_WIDTH, THUMB_HEIGHT);
+    this.atlas = null;
+    this.tiles = [];
+    this.indexById = /* @__PURE__ */ new Map();
+    this.instances = null;
+    this.slotItems = [];
+    this.detailTextures = null;
+    this.detailMeshes = [];
+    this.inView = [];
+    this.moveFrom = [];
+    this.moveStart = 0;
+    this.departing = [];
+    this.labels = /* @__PURE__ */ new Map();
+    this.labelPool = [];
+    this.labelStyles = /* @__PURE__ */ new WeakMap();
+    this.labelSizes = /* @__PURE__ */ new WeakMap();
+    this.lastLabelSync = -Infinity;
+    this.tabStop = 0;
+    this.visibleRank = [];
+    this.visibleCount = 0;
+    this.handleControlsStart = () => {
+      this.dragging = true;
+      this.cancelFly();
+    };
+    this.handleControlsEnd = () => {
+      this.dragging = false;
+    };
     this.resize = () => {
-      const parent = this.renderer.domElement.parentElement;
+      const parent = this.canvas.parentElement;
       if (!parent) return;
       const w = parent.clientWidth;
       const h = parent.clientHeight;
-      this.renderer.setSize(w, h);
+      this.canvas.width = Math.round(w * this.pixelRatio);
+      this.canvas.height = Math.round(h * this.pixelRatio);
+      this.canvas.style.width = `${w}px`;
+      this.canvas.style.height = `${h}px`;
       this.camera.aspect = w / h;
       this.camera.updateProjectionMatrix();
+      this.invalidate();
     };
     this.handleCanvasClick = (e) => {
-      const rect = this.renderer.domElement.getBoundingClientRect();
-      this.mouse.x = (e.clientX - rect.left) / rect.width * 2 - 1;
-      this.mouse.y = -((e.clientY - rect.top) / rect.height) * 2 + 1;
-      this.raycaster.setFromCamera(this.mouse, this.camera);
-      const hits = this.raycaster.intersectObjects(this.thumbnailMeshes);
-      if (hits.length > 0) {
-        const idx = hits[0].object.userData.index;
-        if (typeof idx === "number") this.onItemClick(idx);
-      }
+      this.setPointer(e);
+      const idx = this.pick();
+      if (idx !== null) this.handlers.onItemClick(idx);
     };
-    this.animate = () => {
+    this.handlePointerMove = (e) => {
+      if (e.pointerType === "touch") return;
+      this.setPointer(e);
+      this.pointerMoved = true;
+      this.pointerInside = true;
+      this.invalidate();
+    };
+    this.handlePointerLeave = () => {
+      this.pointerMoved = false;
+      if (!this.pointerInside) return;
+      this.pointerInside = false;
+      this.canvas.style.cursor = "";
+      this.setHoveredIndex(null);
+    };
+    this.invalidate = () => {
+      if (this.animId || this.paused) return;
       this.animId = requestAnimationFrame(this.animate);
-      const time = performance.now() * 1e-3;
-      this.thumbnailMeshes.forEach((mesh, i) => {
-        const base = this.basePositions[i];
-        const cur = this.currentPositions[i];
-        const speed = 0.08 + i * 0.01;
-        const offset = i * Math.PI * 2 / this.items.length;
-        const angle = time * speed + offset;
-        const r = 0.4;
-        const tx = base.x + Math.cos(angle) * r * 0.45;
-        const ty = base.y + Math.sin(angle * 0.7) * r * 0.3;
-        const tz = base.z + Math.sin(angle * 0.5) * r * 0.25;
-        cur.x += (tx - cur.x) * 0.02;
-        cur.y += (ty - cur.y) * 0.02;
-        cur.z += (tz - cur.z) * 0.02;
-        mesh.position.copy(cur);
-        mesh.rotation.y = Math.sin(time * 0.3 + offset) * 0.05;
-      });
-      const w = this.renderer.domElement.clientWidth;
-      const h = this.renderer.domElement.clientHeight;
-      this.thumbnailMeshes.forEach((mesh, i) => {
-        const pos = mesh.position.clone();
-        pos.y -= 0.38;
-        pos.project(this.camera);
-        const x = (pos.x * 0.5 + 0.5) * w;
-        const y = (-pos.y * 0.5 + 0.5) * h;
-        const btn = this.labelElements[i];
-        if (btn) {
-          btn.style.left = `${x}px`;
-          btn.style.top = `${y}px`;
-          const dist = this.camera.position.distanceTo(mesh.position);
-          const blur = Math.max(0, Math.min(4, (dist - 4) * 1.2));
-          btn.style.filter = `blur(${blur}px)`;
-          btn.style.opacity = `${Math.max(0.3, 1 - blur * 0.15)}`;
-        }
-      });
-      this.controls.update();
-      this.renderer.render(this.scene, this.camera);
     };
+    this.animate = (now) => {
+      this.animId = 0;
+      if (this.paused) return;
+      if (!this.interacting && now - this.lastFrame < 1e3 / this.idleFps - 2) {
+        this.invalidate();
+        return;
+      }
+      this.lastFrame = now;
+      const started = performance.now();
+      if (this.motion) this.drift(now * 1e-3);
+      let changed = this.updateMoves(now);
+      this.updateFly();
+      this.updateFlight();
+      changed = this.controls.update() || changed;
+      this.camera.updateMatrixWorld();
+      this.updateHover();
+      changed = this.updateFade() || changed;
+      changed = this.updateEmphasis() || changed;
+      this.updateEdges();
+      changed = this.updateThumbnails(now) || changed;
+      changed = this.updateDeparting(now) || changed;
+      changed = this.updateLabels(now) || changed;
+      changed = (this.atlas?.flush(now) ?? false) || changed;
+      this.shared.render(this.scene, this.camera, this.context2d);
+      this.recordFrame(now, started);
+      if (this.motion || changed) this.invalidate();
+    };
+    const preset = QUALITY_PRESETS[settings.quality];
     this.items = items;
-    this.accentColor = accent;
-    this.onItemClick = onItemClick;
+    this.colors = settings.colors;
+    this.layout = settings.layout;
+    this.motion = preset.motion;
+    this.idleFps = settings.fps ?? preset.idleFps;
+    this.visibleMask = items.map(() => true);
+    this.fade = items.map(() => 1);
+    this.emphasis = items.map(() => 0);
+    this.handlers = handlers;
     this.labelLayer = labelLayer;
-    this.renderer = new WebGLRenderer({ antialias: true, alpha: true });
-    this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
-    this.renderer.outputColorSpace = SRGBColorSpace;
-    container.appendChild(this.renderer.domElement);
+    this.imageQueue = new ImageQueue(settings.crossOrigin);
+    this.shared = SharedRenderer.acquire();
+    this.pixelRatio = Math.min(window.devicePixelRatio, preset.pixelRatio);
+    this.canvas = document.createElement("canvas");
+    this.context2d = this.canvas.getContext("2d");
+    container.appendChild(this.canvas);
     this.scene = new Scene();
     this.camera = new PerspectiveCamera(50, 2, 0.1, 100);
-    this.camera.position.set(0, 0, 5);
-    this.controls = new OrbitControls(this.camera, this.renderer.domElement);
+    this.camera.position.set(0, 0, ORBIT_DISTANCE);
+    this.controls = new OrbitControls(this.camera, this.canvas);
     this.controls.enableZoom = false;
     this.controls.enablePan = false;
-    this.controls.autoRotate = true;
+    this.controls.autoRotate = this.motion;
     this.controls.autoRotateSpeed = 0.3;
     this.controls.enableDamping = true;
     this.controls.dampingFactor = 0.05;
     this.controls.minPolarAngle = Math.PI / 4;
     this.controls.maxPolarAngle = Math.PI * 3 / 4;
-    this.scene.add(new AmbientLight(16777215, 0.6));
-    const point1 = new PointLight(16777215, 0.8);
-    point1.position.set(5, 5, 5);
-    this.scene.add(point1);
-    const point2 = new PointLight(16107591, 0.4);
-    point2.position.set(-5, -5, 5);
-    this.scene.add(point2);
+    this.controls.addEventListener("start", this.handleControlsStart);
+    this.controls.addEventListener("end", this.handleControlsEnd);
+    this.controls.addEventListener("change", this.invalidate);
     this.createStars();
     this.createThumbnails();
-    this.createLabels();
+    this.createEdges();
+    this.updateVisibleRanks();
+    this.hoverOutline = this.createOutline(1);
+    this.selectedOutline = this.createOutline(0.55);
     this.resize();
-    window.addEventListener("resize", this.resize);
-    this.renderer.domElement.addEventListener("click", this.handleCanvasClick);
-    this.animate();
+    this.resizeObserver = new ResizeObserver(this.resize);
+    this.resizeObserver.observe(container);
+    this.intersectionObserver = new IntersectionObserver((entries) => {
+      this.onScreen = entries[entries.length - 1].isIntersecting;
+      this.invalidate();
+    });
+    this.intersectionObserver.observe(container);
+    document.addEventListener("visibilitychange", this.invalidate);
+    this.canvas.addEventListener("click", this.handleCanvasClick);
+    this.canvas.addEventListener("pointermove", this.handlePointerMove);
+    this.canvas.addEventListener("pointerleave", this.handlePointerLeave);
+    this.invalidate();
+  }
+  /** Recolors stars, glows, outlines, placeholders, lines and failed thumbnails. */
+  setColors(colors) {
+    this.colors = colors;
+    const materials = [this.instances, ...this.detailMeshes].map(
+      (mesh) => mesh?.material
+    );
+    materials.forEach((mat) => {
+      mat?.uniforms.accent.value.set(colors.accent);
+      mat?.uniforms.placeholder.value.set(colors.placeholder);
+    });
+    [this.hoverOutline, this.selectedOutline].forEach(
+      (outline) => outline?.material?.color.set(colors.accent)
+    );
+    this.stars?.material?.color.set(colors.star);
+    const edgeMaterial = this.edgeLines?.material;
+    if (edgeMaterial) {
+      edgeMaterial.blending = this.edgeBlending();
+      edgeMaterial.needsUpdate = true;
+    }
+    this.atlas?.setFallbackColor(colors.fallback);
+    this.edgeColorsDirty = true;
+    this.invalidate();
+  }
+  /** The open card hides the scene, so frames stop until it closes. */
+  setCovered(covered) {
+    this.covered = covered;
+    this.invalidate();
+  }
+  /** Swings the orbiting camera round until the item faces it. */
+  focusItem(index) {
+    const position = this.currentPositions[index];
+    if (!position) return;
+    const dir = position.clone().sub(this.controls.target);
+    if (dir.lengthSq() < 1e-6) return;
+    const radius = this.camera.position.distanceTo(this.controls.target);
+    const goal = new Spherical().setFromVector3(dir);
+    goal.radius = radius;
+    goal.phi = MathUtils.clamp(
+      goal.phi,
+      this.controls.minPolarAngle,
+      this.controls.maxPolarAngle
+    );
+    if (prefersReducedMotion()) {
+      this.camera.position.setFromSpherical(goal).add(this.controls.target);
+      this.invalidate();
+      return;
+    }
+    this.flyGoal = goal;
+    this.updateAutoRotate();
+    this.invalidate();
+  }
+  /**
+   * Eases the camera up close to an item, re-centring the orbit on it.
+   * Resolves on arrival, or straight away if the visitor grabs the controls.
+   */
+  flyTo(index) {
+    const position = this.currentPositions[index];
+    if (!position) return Promise.resolve();
+    const target = position.clone();
+    const view = new Spherical().setFromVector3(
+      this.camera.position.clone().sub(target)
+    );
+    view.radius = CLOSE_UP_DISTANCE;
+    view.phi = MathUtils.clamp(
+      view.phi,
+      this.controls.minPolarAngle,
+      this.controls.maxPolarAngle
+    );
+    this.closeUp = true;
+    return this.startFlight(new Vector3().setFromSpherical(view).add(target), target);
+  }
+  /** Eases back out to the orbit around the whole constellation. */
+  flyHome() {
+    if (!this.closeUp) return Promise.resolve();
+    this.closeUp = false;
+    const position = this.camera.position.clone().normalize().multiplyScalar(ORBIT_DISTANCE);
+    return this.startFlight(position, new Vector3());
+  }
+  startFlight(toPosition, toTarget) {
+    this.flight?.done();
+    this.flight = null;
+    this.flyGoal = null;
+    if (prefersReducedMotion()) {
+      this.camera.position.copy(toPosition);
+      this.controls.target.copy(toTarget);
+      this.updateAutoRotate();
+      this.invalidate();
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      this.flight = {
+        fromPosition: this.camera.position.clone(),
+        fromTarget: this.controls.target.clone(),
+        toPosition,
+        toTarget,
+        start: performance.now(),
+        done: resolve
+      };
+      this.updateAutoRotate();
+      this.invalidate();
+    });
+  }
+  updateFlight() {
+    const f = this.flight;
+    if (!f) return;
+    const t = Math.min(1, (performance.now() - f.start) / FLIGHT_DURATION);
+    const k = easeInOutCubic(t);
+    this.camera.position.lerpVectors(f.fromPosition, f.toPosition, k);
+    this.controls.target.lerpVectors(f.fromTarget, f.toTarget, k);
+    if (t < 1) return;
+    this.flight = null;
+    f.done();
+    this.updateAutoRotate();
+  }
+  cancelFly() {
+    if (!this.flyGoal && !this.flight) return;
+    this.flyGoal = null;
+    this.flight?.done();
+    this.flight = null;
+    this.updateAutoRotate();
+  }
+  /**
+   * Auto-rotation pauses while the camera is flying, while it is close up to
+   * an open item, and while an item is hovered.
+   */
+  updateAutoRotate() {
+    this.controls.autoRotate = this.motion && !this.flyGoal && !this.flight && !this.closeUp && this.hoveredIndex === null;
+  }
+  updateFly() {
+    if (!this.flyGoal) return;
+    const offset = this.camera.position.clone().sub(this.controls.target);
+    const cur = new Spherical().setFromVector3(offset);
+    let dTheta = this.flyGoal.theta - cur.theta;
+    dTheta = Math.atan2(Math.sin(dTheta), Math.cos(dTheta));
+    const dPhi = this.flyGoal.phi - cur.phi;
+    if (Math.abs(dTheta) < 2e-3 && Math.abs(dPhi) < 2e-3) {
+      this.flyGoal = null;
+      this.updateAutoRotate();
+      return;
+    }
+    cur.theta += dTheta * 0.08;
+    cur.phi += dPhi * 0.08;
+    cur.radius += (this.flyGoal.radius - cur.radius) * 0.08;
+    this.camera.position.setFromSpherical(cur).add(this.controls.target);
   }
   createStars() {
     const count = 120;
@@ -20131,95 +22193,917 @@ class ConstellationScene {
     const geom = new BufferGeometry();
     geom.setAttribute("position", new BufferAttribute(positions, 3));
     const mat = new PointsMaterial({
-      color: 16777215,
+      color: this.colors.star,
       size: 0.03,
       transparent: true,
       opacity: 0.4,
       sizeAttenuation: true
     });
-    this.stars = new Points(geom, mat);
-    this.scene.add(this.stars);
+    this.stars = new Points(geom, mat);
+    this.scene.add(this.stars);
+  }
+  createThumbnails() {
+    const layout = computeLayout(this.items, this.layout);
+    layout.forEach((basePos) => {
+      this.basePositions.push(basePos.clone());
+      this.currentPositions.push(basePos.clone());
+      this.rotations.push(0);
+    });
+    const n = this.items.length;
+    const atlas = new ThumbnailAtlas(
+      n + Math.max(ATLAS_HEADROOM, Math.ceil(n / 4)),
+      this.imageQueue,
+      this.colors.fallback,
+      () => {
+        this.invalidate();
+        this.handlers.onProgress(atlas.progress);
+      }
+    );
+    this.atlas = atlas;
+    this.detailTextures = new DetailTextures(this.imageQueue, this.invalidate);
+    this.indexById = new Map(this.items.map((item, i) => [item.id, i]));
+    this.tiles = this.items.map((item) => this.claimTile(item));
+    const count = Math.max(1, atlas.capacity);
+    const geom = this.thumbGeometry.clone();
+    geom.setAttribute(
+      "atlasRect",
+      new InstancedBufferAttribute(new Float32Array(count * 4), 4).setUsage(
+        DynamicDrawUsage
+      )
+    );
+    ["thumbOpacity", "thumbGlow", "thumbReveal"].forEach((name) => {
+      geom.setAttribute(
+        name,
+        new InstancedBufferAttribute(new Float32Array(count), 1).setUsage(
+          DynamicDrawUsage
+        )
+      );
+    });
+    this.instances = new InstancedMesh(
+      geom,
+      createThumbMaterial(this.atlas.texture, this.colors),
+      count
+    );
+    this.instances.instanceMatrix.setUsage(DynamicDrawUsage);
+    this.instances.count = 0;
+    this.instances.frustumCulled = false;
+    this.scene.add(this.instances);
+    for (let k = 0; k < DETAIL_LIMIT; k++) {
+      const mesh = new Mesh(
+        this.thumbGeometry,
+        createThumbMaterial(this.atlas.texture, this.colors)
+      );
+      mesh.visible = false;
+      mesh.matrixAutoUpdate = false;
+      mesh.renderOrder = 1;
+      this.scene.add(mesh);
+      this.detailMeshes.push(mesh);
+    }
+  }
+  /** Claims an atlas tile for an item and queues its thumbnail. */
+  claimTile(item) {
+    const priority = () => {
+      const i = this.indexById.get(item.id);
+      if (i === void 0) return Infinity;
+      return this.camera.position.distanceTo(this.currentPositions[i]) + (this.visibleMask[i] ? 0 : HIDDEN_PRIORITY);
+    };
+    return this.atlas.add(item.thumb ?? item.image, priority);
+  }
+  /** Writes an item's drift, rotation and hover scale into a matrix. */
+  itemMatrix(index, out) {
+    const scale = 1 + 0.15 * this.emphasis[index];
+    return out.compose(
+      this.currentPositions[index],
+      this.scratchQuaternion.setFromAxisAngle(Y_AXIS, this.rotations[index]),
+      this.scratchScale.setScalar(scale)
+    );
+  }
+  /**
+   * Culls items outside the view or too far away, hands the largest on screen
+   * full-size textures, and packs the rest into the instanced mesh back to
+   * front so the translucent planes blend correctly. Returns true while a
+   * full-size texture is still fading in.
+   */
+  updateThumbnails(now) {
+    if (!this.instances || !this.atlas || !this.detailTextures) return false;
+    const frustum = new Frustum().setFromProjectionMatrix(
+      new Matrix4().multiplyMatrices(
+        this.camera.projectionMatrix,
+        this.camera.matrixWorldInverse
+      )
+    );
+    const sphere = new Sphere();
+    const cullDistance = this.camera.position.distanceTo(this.controls.target) + CULL_DEPTH * layoutScale(this.items.length);
+    const distances = /* @__PURE__ */ new Map();
+    const inView = [];
+    this.currentPositions.forEach((pos, i) => {
+      if (this.fade[i] === 0) return;
+      const dist = this.camera.position.distanceTo(pos);
+      if (dist > cullDistance) return;
+      sphere.set(pos, THUMB_WIDTH / 2 * (1 + 0.15 * this.emphasis[i]));
+      if (!frustum.intersectsSphere(sphere)) return;
+      distances.set(i, dist);
+      inView.push(i);
+    });
+    inView.sort((a, b) => distances.get(a) - distances.get(b));
+    this.inView = inView;
+    const pixelsPerUnit = this.canvas.clientHeight * this.pixelRatio / (2 * Math.tan(MathUtils.degToRad(this.camera.fov / 2)));
+    const detail = [];
+    for (const i of inView) {
+      if (detail.length >= DETAIL_LIMIT) break;
+      const width = THUMB_WIDTH * pixelsPerUnit / distances.get(i);
+      if (width < this.atlas.tileWidth * 1.25) break;
+      const tex = this.detailTextures.get(this.items[i].image);
+      if (tex) detail.push([i, tex]);
+    }
+    const detailed = new Set(detail.map(([i]) => i));
+    const geom = this.instances.geometry;
+    const rects = geom.getAttribute("atlasRect");
+    const opacities = geom.getAttribute("thumbOpacity");
+    const glows = geom.getAttribute("thumbGlow");
+    const reveals = geom.getAttribute("thumbReveal");
+    const matrix = new Matrix4();
+    const rect = new Vector4();
+    let slot = 0;
+    for (let k = inView.length - 1; k >= 0; k--) {
+      const i = inView[k];
+      if (detailed.has(i) || this.tiles[i] < 0) continue;
+      this.instances.setMatrixAt(slot, this.itemMatrix(i, matrix));
+      this.atlas.rect(this.tiles[i], rect);
+      rects.setXYZW(slot, rect.x, rect.y, rect.z, rect.w);
+      opacities.setX(slot, 0.85 * this.fade[i]);
+      glows.setX(slot, this.emphasis[i]);
+      reveals.setX(slot, this.atlas.reveal(this.tiles[i], now));
+      this.slotItems[slot] = i;
+      slot++;
+    }
+    this.instances.count = slot;
+    this.instances.instanceMatrix.needsUpdate = true;
+    rects.needsUpdate = true;
+    opacities.needsUpdate = true;
+    glows.needsUpdate = true;
+    reveals.needsUpdate = true;
+    this.instances.boundingSphere = null;
+    let fading = false;
+    this.detailMeshes.forEach((mesh, k) => {
+      const entry = detail[k];
+      mesh.visible = !!entry;
+      if (!entry) return;
+      const [i, tex] = entry;
+      const uniforms = mesh.material.uniforms;
+      const mix = this.detailTextures.reveal(this.items[i].image, now);
+      this.atlas.rect(this.tiles[i], uniforms.atlasRect.value);
+      uniforms.detailMap.value = tex;
+      uniforms.detailMix.value = mix;
+      uniforms.thumbReveal.value = Math.max(mix, this.atlas.reveal(this.tiles[i], now));
+      uniforms.thumbOpacity.value = 0.85 * this.fade[i];
+      uniforms.thumbGlow.value = this.emphasis[i];
+      this.itemMatrix(i, mesh.matrix);
+      mesh.userData.index = i;
+      if (mix < 1) fading = true;
+    });
+    return fading;
+  }
+  createEdges() {
+    const tagSets = this.items.map((item) => new Set(item.tags));
+    const candidates = this.items.map(() => []);
+    for (let a = 0; a < this.items.length; a++) {
+      for (let b = a + 1; b < this.items.length; b++) {
+        let shared = 0;
+        tagSets[a].forEach((t) => {
+          if (tagSets[b].has(t)) shared++;
+        });
+        if (shared === 0) continue;
+        const union = tagSets[a].size + tagSets[b].size - shared;
+        const edge = { a, b, weight: shared / union };
+        candidates[a].push(edge);
+        candidates[b].push(edge);
+      }
+    }
+    const kept = /* @__PURE__ */ new Set();
+    candidates.forEach((list) => {
+      list.sort((x, y) => y.weight - x.weight).slice(0, MAX_EDGES_PER_ITEM).forEach((e) => kept.add(e));
+    });
+    this.edges = [...kept].sort((x, y) => x.a - y.a || x.b - y.b);
+    if (this.edges.length === 0) return;
+    const geom = new BufferGeometry();
+    geom.setAttribute(
+      "position",
+      new BufferAttribute(new Float32Array(this.edges.length * 6), 3)
+    );
+    geom.setAttribute(
+      "color",
+      new BufferAttribute(new Float32Array(this.edges.length * 6), 3)
+    );
+    const mat = new LineBasicMaterial({
+      vertexColors: true,
+      transparent: true,
+      blending: this.edgeBlending(),
+      depthWrite: false
+    });
+    this.edgeLines = new LineSegments(geom, mat);
+    this.scene.add(this.edgeLines);
+  }
+  // Additive lines vanish on a light backdrop, so those blend normally instead
+  edgeBlending() {
+    const hsl = new Color(this.colors.background).getHSL({ h: 0, s: 0, l: 0 });
+    return hsl.l > 0.5 ? NormalBlending : AdditiveBlending;
+  }
+  /** Marks the item whose card is open so its lines stay highlighted. */
+  setSelectedIndex(index) {
+    if (this.selectedIndex === index) return;
+    this.labels.get(this.selectedIndex ?? -1)?.classList.remove("selected");
+    this.selectedIndex = index;
+    this.labels.get(index ?? -1)?.classList.add("selected");
+    this.edgeColorsDirty = true;
+    this.lastLabelSync = -Infinity;
+    this.invalidate();
+  }
+  setHoveredIndex(index) {
+    if (this.hoveredIndex === index) return;
+    this.labels.get(this.hoveredIndex ?? -1)?.classList.remove("hovered");
+    this.hoveredIndex = index;
+    this.labels.get(index ?? -1)?.classList.add("hovered");
+    this.edgeColorsDirty = true;
+    this.lastLabelSync = -Infinity;
+    this.updateAutoRotate();
+    this.invalidate();
+  }
+  updateEdges() {
+    if (!this.edgeLines) return;
+    const geom = this.edgeLines.geometry;
+    const pos = geom.getAttribute("position");
+    this.edges.forEach((e, k) => {
+      const pa = this.currentPositions[e.a];
+      const pb = this.currentPositions[e.b];
+      pos.setXYZ(k * 2, pa.x, pa.y, pa.z);
+      pos.setXYZ(k * 2 + 1, pb.x, pb.y, pb.z);
+    });
+    pos.needsUpdate = true;
+    if (!this.edgeColorsDirty) return;
+    this.edgeColorsDirty = false;
+    const col = geom.getAttribute("color");
+    const base = new Color(this.colors.edge);
+    const accent = new Color(this.colors.accent);
+    const additive = this.edgeBlending() === AdditiveBlending;
+    const background = new Color(additive ? 0 : this.colors.background);
+    const target = new Color();
+    const c = new Color();
+    this.edges.forEach((e, k) => {
+      const lit = [this.hoveredIndex, this.selectedIndex].some(
+        (idx) => idx !== null && (idx === e.a || idx === e.b)
+      );
+      const strength = lit ? 0.6 + 0.4 * e.weight : 0.08 + 0.3 * e.weight;
+      target.copy(lit ? accent : base);
+      c.copy(background).lerp(target, strength * Math.min(this.fade[e.a], this.fade[e.b]));
+      col.setXYZ(k * 2, c.r, c.g, c.b);
+      col.setXYZ(k * 2 + 1, c.r, c.g, c.b);
+    });
+    col.needsUpdate = true;
+  }
+  /** An accent rectangle drawn just outside a thumbnail's edges. */
+  createOutline(opacity) {
+    const w = 0.9 / 2;
+    const h = 0.63 / 2;
+    const geom = new BufferGeometry().setFromPoints([
+      new Vector3(-w, -h, 0),
+      new Vector3(w, -h, 0),
+      new Vector3(w, h, 0),
+      new Vector3(-w, h, 0)
+    ]);
+    const mat = new LineBasicMaterial({
+      color: this.colors.accent,
+      transparent: true,
+      opacity,
+      depthTest: false
+    });
+    const outline = new LineLoop(geom, mat);
+    outline.matrixAutoUpdate = false;
+    outline.renderOrder = 10;
+    outline.visible = false;
+    this.scene.add(outline);
+    return outline;
+  }
+  placeOutline(outline, index) {
+    if (!outline) return;
+    outline.visible = index !== null && this.fade[index] > 0;
+    if (index === null) return;
+    this.itemMatrix(index, outline.matrix);
+  }
+  /**
+   * Eases hovered/focused and selected thumbnails toward a larger, glowing
+   * state. Returns true while any of them is still changing.
+   */
+  updateEmphasis() {
+    const active = this.hoveredIndex ?? this.focusedIndex;
+    let changed = false;
+    this.emphasis.forEach((value, i) => {
+      const target = i === active ? 1 : i === this.selectedIndex ? 0.5 : 0;
+      if (value === target) return;
+      changed = true;
+      const next = value + (target - value) * 0.2;
+      this.emphasis[i] = Math.abs(target - next) < 0.01 ? target : next;
+    });
+    this.placeOutline(this.hoverOutline, active);
+    this.placeOutline(this.selectedOutline, active === this.selectedIndex ? null : this.selectedIndex);
+    return changed;
+  }
+  /** The item's label, added to the DOM if it is not among the nearest. */
+  labelFor(index) {
+    return this.items[index] ? this.mountLabel(index) : void 0;
+  }
+  /**
+   * Labels form a single tab stop (roving tabindex); arrow keys then move
+   * between thumbnails by where they appear on screen, not by DOM order.
+   * Buttons are recycled, so handlers read the item from `data-index`.
+   */
+  createLabel() {
+    const btn = document.createElement("button");
+    btn.className = "label";
+    btn.setAttribute("part", "label");
+    const index = () => Number(btn.dataset.index);
+    btn.addEventListener("click", () => this.handlers.onItemClick(index()));
+    btn.addEventListener("keydown", (e) => this.handleLabelKey(e, index()));
+    btn.addEventListener("mouseenter", () => this.setHoveredIndex(index()));
+    btn.addEventListener("focus", () => {
+      this.setHoveredIndex(index());
+      this.setFocusedIndex(index());
+    });
+    btn.addEventListener("mouseleave", () => this.setHoveredIndex(null));
+    btn.addEventListener("blur", () => {
+      this.setHoveredIndex(null);
+      this.setFocusedIndex(null);
+    });
+    return btn;
+  }
+  mountLabel(index) {
+    let btn = this.labels.get(index);
+    if (btn) return btn;
+    btn = this.labelPool.pop() ?? this.createLabel();
+    btn.dataset.index = String(index);
+    btn.textContent = this.items[index].title;
+    this.labelStyles.delete(btn);
+    this.labelSizes.delete(btn);
+    this.labels.set(index, btn);
+    this.refreshLabel(index, btn);
+    this.labelLayer.appendChild(btn);
+    return btn;
+  }
+  unmountLabel(index, btn) {
+    btn.remove();
+    btn.removeAttribute("style");
+    this.labels.delete(index);
+    this.labelPool.push(btn);
+  }
+  /** Applies filter, hover, selection and tab-stop state to a mounted label. */
+  refreshLabel(index, btn) {
+    const visible = this.visibleMask[index];
+    btn.disabled = !visible;
+    btn.tabIndex = index === this.tabStop ? 0 : -1;
+    btn.classList.toggle("filtered-out", !visible);
+    btn.classList.toggle("hovered", index === this.hoveredIndex);
+    btn.classList.toggle("selected", index === this.selectedIndex);
+    if (visible) btn.removeAttribute("aria-hidden");
+    else btn.setAttribute("aria-hidden", "true");
+    btn.setAttribute("aria-label", this.describe(index));
+  }
+  /** e.g. "Living River Campaign, 2 of 10, tagged Advocacy, Digital Campaign". */
+  describe(index) {
+    const item = this.items[index];
+    const parts = [item.title];
+    const rank = this.visibleRank[index];
+    if (rank >= 0) parts.push(`${rank + 1} of ${this.visibleCount}`);
+    if (item.tags.length > 0) parts.push(`tagged ${item.tags.join(", ")}`);
+    return parts.join(", ");
+  }
+  updateVisibleRanks() {
+    let rank = 0;
+    this.visibleRank = this.visibleMask.map((visible) => visible ? rank++ : -1);
+    this.visibleCount = rank;
+  }
+  /**
+   * Keeps the labels of the nearest items in view in the DOM, along with any
+   * that are focused, hovered, selected or hold the tab stop.
+   */
+  syncLabels() {
+    const candidates = this.inView.filter((i) => this.visibleMask[i]);
+    const wanted = new Set(
+      [
+        ...candidates.filter((i) => this.items[i].featured),
+        ...candidates.filter((i) => !this.items[i].featured)
+      ].slice(0, LABEL_LIMIT)
+    );
+    [this.focusedIndex, this.hoveredIndex, this.selectedIndex, this.tabStop].forEach((i) => {
+      if (i !== null && this.items[i]) wanted.add(i);
+    });
+    this.labels.forEach((btn, i) => {
+      if (!wanted.has(i) && !btn.matches(":focus")) this.unmountLabel(i, btn);
+    });
+    wanted.forEach((i) => this.mountLabel(i));
+  }
+  setFocusedIndex(index) {
+    this.focusedIndex = index;
+    this.invalidate();
+    if (index === null) return;
+    const previous = this.tabStop;
+    this.tabStop = index;
+    [previous, index].forEach((i) => {
+      const btn = this.labels.get(i);
+      if (btn) btn.tabIndex = i === index ? 0 : -1;
+    });
+    this.keepInView(index);
+  }
+  /** Projects an item's position to normalized device coordinates. */
+  screenPosition(index) {
+    return this.currentPositions[index].clone().project(this.camera);
+  }
+  /** Turns the camera when a focused item sits near the edge or behind it. */
+  keepInView(index) {
+    const p = this.screenPosition(index);
+    if (p.z > 1 || Math.abs(p.x) > 0.75 || Math.abs(p.y) > 0.75) this.focusItem(index);
+  }
+  handleLabelKey(e, index) {
+    const dirs = {
+      ArrowLeft: [-1, 0],
+      ArrowRight: [1, 0],
+      ArrowUp: [0, 1],
+      ArrowDown: [0, -1]
+    };
+    const visible = this.items.map((_, i) => i).filter((i) => this.visibleMask[i]);
+    let target = null;
+    if (e.key in dirs) {
+      target = this.nearestInDirection(index, dirs[e.key], visible);
+    } else if (e.key === "Home") {
+      target = visible[0] ?? null;
+    } else if (e.key === "End") {
+      target = visible[visible.length - 1] ?? null;
+    } else {
+      return;
+    }
+    e.preventDefault();
+    if (target !== null) this.mountLabel(target).focus();
+  }
+  /**
+   * Picks the closest item lying roughly in the given screen direction,
+   * penalising sideways offset so "right" means right, not diagonally up.
+   */
+  nearestInDirection(from, [dx, dy], candidates) {
+    const origin = this.screenPosition(from);
+    let best = null;
+    let bestScore = Infinity;
+    candidates.forEach((i) => {
+      if (i === from) return;
+      const p = this.screenPosition(i);
+      if (p.z > 1) return;
+      const along = (p.x - origin.x) * dx + (p.y - origin.y) * dy;
+      if (along <= 0.01) return;
+      const across = Math.abs((p.x - origin.x) * dy - (p.y - origin.y) * dx);
+      const score = along + across * 2;
+      if (score < bestScore) {
+        bestScore = score;
+        best = i;
+      }
+    });
+    return best;
+  }
+  /**
+   * Swaps in a new item list, matched to the current one by id. Returns false
+   * when the atlas has no room for the added items; the scene should then be
+   * rebuilt instead.
+   */
+  setItems(items) {
+    const atlas = this.atlas;
+    const previous = this.indexById;
+    const added = items.filter((item) => !previous.has(item.id)).length;
+    if (!atlas || added > atlas.available) return false;
+    const now = performance.now();
+    const indexById = new Map(items.map((item, k) => [item.id, k]));
+    this.items.forEach((item, i) => {
+      if (!indexById.has(item.id)) this.depart(i, now);
+    });
+    const from = items.map((item) => previous.get(item.id));
+    const carry = (values, fallback) => from.map((i) => i === void 0 ? fallback : values[i]);
+    const remap = (i) => i === null ? null : indexById.get(this.items[i]?.id) ?? null;
+    this.basePositions = computeLayout(items, this.layout);
+    this.moveFrom = items.map((_, k) => {
+      const i = from[k];
+      if (i !== void 0) return this.currentPositions[i].clone();
+      const base = this.basePositions[k];
+      const out = base.lengthSq() > 1e-6 ? base.clone().normalize() : new Vector3(0, 0, -1);
+      return base.clone().addScaledVector(out, 3);
+    });
+    this.currentPositions = this.moveFrom.map((p) => p.clone());
+    this.moveStart = now;
+    this.rotations = carry(this.rotations, 0);
+    this.visibleMask = carry(this.visibleMask, true);
+    this.fade = carry(this.fade, 0);
+    this.emphasis = carry(this.emphasis, 0);
+    this.tiles = carry(this.tiles, -1);
+    this.hoveredIndex = remap(this.hoveredIndex);
+    this.selectedIndex = remap(this.selectedIndex);
+    this.focusedIndex = remap(this.focusedIndex);
+    this.tabStop = remap(this.tabStop) ?? 0;
+    const labels = this.labels;
+    let hadFocus = false;
+    this.labels = /* @__PURE__ */ new Map();
+    labels.forEach((btn, i) => {
+      const k = indexById.get(this.items[i].id);
+      if (k === void 0) {
+        hadFocus || (hadFocus = btn.matches(":focus"));
+        btn.remove();
+        btn.removeAttribute("style");
+        this.labelPool.push(btn);
+        return;
+      }
+      btn.dataset.index = String(k);
+      btn.textContent = items[k].title;
+      this.labelSizes.delete(btn);
+      this.labels.set(k, btn);
+    });
+    this.items = items;
+    this.indexById = indexById;
+    from.forEach((i, k) => {
+      if (i === void 0) this.tiles[k] = this.claimTile(items[k]);
+    });
+    this.inView = [];
+    if (this.edgeLines) {
+      this.scene.remove(this.edgeLines);
+      this.edgeLines.geometry.dispose();
+      this.edgeLines.material.dispose();
+      this.edgeLines = null;
+    }
+    this.createEdges();
+    this.edgeColorsDirty = true;
+    this.updateVisibleRanks();
+    this.labels.forEach((btn, i) => this.refreshLabel(i, btn));
+    this.lastLabelSync = -Infinity;
+    this.updateAutoRotate();
+    if (hadFocus && this.items.length > 0) this.labelFor(this.tabStop)?.focus();
+    this.handlers.onProgress(atlas.progress);
+    this.invalidate();
+    return true;
+  }
+  /** Leaves a shrinking copy of a removed item behind; its tile is freed after. */
+  depart(index, now) {
+    const atlas = this.atlas;
+    const tile = this.tiles[index];
+    if (this.fade[index] === 0) {
+      if (tile >= 0) atlas.release(tile);
+      return;
+    }
+    const material = createThumbMaterial(atlas.texture, this.colors);
+    atlas.rect(tile, material.uniforms.atlasRect.value);
+    material.uniforms.thumbReveal.value = atlas.reveal(tile, now);
+    const mesh = new Mesh(this.thumbGeometry, material);
+    mesh.matrixAutoUpdate = false;
+    this.scene.add(mesh);
+    this.departing.push({
+      mesh,
+      tile,
+      position: this.currentPositions[index].clone(),
+      rotation: this.rotations[index],
+      opacity: 0.85 * this.fade[index],
+      start: now
+    });
+  }
+  /** Eases items to their places after a live update. Returns true while moving. */
+  updateMoves(now) {
+    if (this.moveFrom.length === 0) return false;
+    const t = Math.min(1, (now - this.moveStart) / UPDATE_DURATION);
+    const k = easeInOutCubic(t);
+    this.moveFrom.forEach((from, i) => {
+      this.currentPositions[i].lerpVectors(from, this.basePositions[i], k);
+    });
+    if (t === 1) this.moveFrom = [];
+    return true;
+  }
+  /** Shrinks and fades removed items. Returns true while any remain. */
+  updateDeparting(now) {
+    this.departing = this.departing.filter((d) => {
+      const t = Math.min(1, (now - d.start) / UPDATE_DURATION);
+      const material = d.mesh.material;
+      if (t < 1) {
+        material.uniforms.thumbOpacity.value = d.opacity * (1 - t);
+        d.mesh.matrix.compose(
+          d.position,
+          this.scratchQuaternion.setFromAxisAngle(Y_AXIS, d.rotation),
+          this.scratchScale.setScalar(1 - 0.6 * easeInOutCubic(t))
+        );
+        return true;
+      }
+      this.scene.remove(d.mesh);
+      material.dispose();
+      if (d.tile >= 0) this.atlas?.release(d.tile);
+      return false;
+    });
+    return this.departing.length > 0;
+  }
+  /**
+   * Fades filtered-out thumbnails, lines and labels instead of rebuilding the
+   * scene. Hidden items stop responding to clicks and leave the tab order.
+   */
+  setVisibleItems(mask) {
+    this.visibleMask = this.items.map((_, i) => mask[i] !== false);
+    if (this.hoveredIndex !== null && !this.visibleMask[this.hoveredIndex]) {
+      this.setHoveredIndex(null);
+    }
+    if (!this.visibleMask[this.tabStop]) this.tabStop = Math.max(0, this.visibleMask.indexOf(true));
+    this.updateVisibleRanks();
+    this.labels.forEach((btn, i) => this.refreshLabel(i, btn));
+    this.lastLabelSync = -Infinity;
+    this.invalidate();
+  }
+  /** Returns true while any item is still fading. */
+  updateFade() {
+    let changed = false;
+    this.fade.forEach((value, i) => {
+      const target = this.visibleMask[i] ? 1 : 0;
+      if (value === target) return;
+      changed = true;
+      const next = value + (target - value) * 0.12;
+      this.fade[i] = Math.abs(target - next) < 0.01 ? target : next;
+      this.edgeColorsDirty = true;
+    });
+    return changed;
+  }
+  setPointer(e) {
+    const rect = this.canvas.getBoundingClientRect();
+    this.mouse.x = (e.clientX - rect.left) / rect.width * 2 - 1;
+    this.mouse.y = -((e.clientY - rect.top) / rect.height) * 2 + 1;
+  }
+  /** Index of the visible thumbnail under the pointer, if any. */
+  pick() {
+    if (!this.instances) return null;
+    this.raycaster.setFromCamera(this.mouse, this.camera);
+    const hits = this.raycaster.intersectObjects(
+      [this.instances, ...this.detailMeshes.filter((m) => m.visible)],
+      false
+    );
+    for (const hit of hits) {
+      const idx = hit.object === this.instances && hit.instanceId !== void 0 ? this.slotItems[hit.instanceId] : hit.object.userData.index;
+      if (typeof idx === "number" && this.visibleMask[idx]) return idx;
+    }
+    return null;
+  }
+  updateHover() {
+    if (!this.pointerMoved) return;
+    this.pointerMoved = false;
+    const idx = this.pick();
+    this.canvas.style.cursor = idx !== null ? "pointer" : "";
+    this.setHoveredIndex(idx);
+  }
+  get paused() {
+    return !this.onScreen || document.hidden || this.covered && !this.flight;
+  }
+  // Keyboard focus also highlights its item as hovered, but only counts while
+  // the camera turns to it: a label left focused falls back to the idle cap
+  get interacting() {
+    return this.dragging || !!this.flight || !!this.flyGoal || this.hoveredIndex !== null && this.hoveredIndex !== this.focusedIndex;
+  }
+  recordFrame(now, started) {
+    this.frameStarts.push(now);
+    this.frameDurations.push(performance.now() - started);
+    if (this.frameStarts.length > FRAME_STATS_SIZE) {
+      this.frameStarts.shift();
+      this.frameDurations.shift();
+    }
+  }
+  get frameStats() {
+    const since = performance.now() - 1e3;
+    return {
+      durations: this.frameDurations.slice(),
+      fps: this.frameStarts.filter((t) => t >= since).length
+    };
+  }
+  /** Orbital movement */
+  drift(time) {
+    this.currentPositions.forEach((cur, i) => {
+      const base = this.basePositions[i];
+      const speed = 0.08 + i * 0.01;
+      const offset = i * Math.PI * 2 / this.items.length;
+      const angle = time * speed + offset;
+      const r = 0.4;
+      const tx = base.x + Math.cos(angle) * r * 0.45;
+      const ty = base.y + Math.sin(angle * 0.7) * r * 0.3;
+      const tz = base.z + Math.sin(angle * 0.5) * r * 0.25;
+      cur.x += (tx - cur.x) * 0.02;
+      cur.y += (ty - cur.y) * 0.02;
+      cur.z += (tz - cur.z) * 0.02;
+      this.rotations[i] = Math.sin(time * 0.3 + offset) * 0.05;
+    });
   }
-  createThumbnails() {
-    const loader = new TextureLoader();
-    const spread = [
-      [-1.8, 0.8, -1.5],
-      [-0.5, 1, 0.8],
-      [0.8, 0.9, -0.8],
-      [1.9, 0.6, 1.2],
-      [-1.6, -0.2, 1],
-      [-0.4, 0.1, -1.2],
-      [0.6, -0.3, 1.5],
-      [1.7, -0.1, -0.5],
-      [-1, -0.9, -0.3],
-      [1.1, -0.8, 0.6]
-    ];
-    this.items.forEach((item, i) => {
-      const pos = spread[i % spread.length];
-      const basePos = new Vector3(pos[0], pos[1], pos[2]);
-      this.basePositions.push(basePos.clone());
-      this.currentPositions.push(basePos.clone());
-      const geom = new PlaneGeometry(0.8, 0.53);
-      const mat = new MeshStandardMaterial({
-        transparent: true,
-        opacity: 0.85,
-        side: DoubleSide,
-        color: 16777215
-      });
-      const mesh = new Mesh(geom, mat);
-      mesh.position.copy(basePos);
-      mesh.userData = { index: i };
-      this.scene.add(mesh);
-      this.thumbnailMeshes.push(mesh);
-      this.textures.push(null);
-      loader.load(
-        item.image,
-        (tex) => {
-          tex.colorSpace = SRGBColorSpace;
-          mat.map = tex;
-          mat.needsUpdate = true;
-          this.textures[i] = tex;
-        },
-        void 0,
-        () => {
-          mat.color.set(this.accentColor);
-        }
-      );
+  /**
+   * Places labels next to their thumbnails. Which labels are mounted is
+   * re-evaluated a few times a second; style writes are batched after all
+   * reads and skipped when nothing changed. Returns true while a re-evaluation
+   * is still due.
+   */
+  updateLabels(now) {
+    const syncDue = now - this.lastLabelSync >= 200;
+    if (syncDue) {
+      this.syncLabels();
+      this.lastLabelSync = now;
+    }
+    this.labels.forEach((btn) => {
+      if (!this.labelSizes.has(btn)) this.labelSizes.set(btn, [btn.offsetWidth, btn.offsetHeight]);
+    });
+    const placements = this.placeLabels();
+    const writes = [];
+    placements.forEach((placement) => {
+      const { btn, x, y, scale, blur, opacity, crowded } = placement;
+      const key = `${x.toFixed(1)}|${y.toFixed(1)}|${scale.toFixed(2)}|${blur}|${opacity.toFixed(2)}|${crowded}`;
+      if (this.labelStyles.get(btn) === key) return;
+      this.labelStyles.set(btn, key);
+      writes.push([btn, placement]);
+    });
+    writes.forEach(([btn, { x, y, scale, blur, opacity, crowded }]) => {
+      btn.style.transform = `translate3d(${x.toFixed(1)}px, ${y.toFixed(1)}px, 0) translate(-50%, -50%) scale(${scale.toFixed(2)})`;
+      btn.style.filter = `blur(${blur}px)`;
+      btn.style.opacity = opacity.toFixed(2);
+      btn.classList.toggle("crowded", crowded);
     });
+    return !syncDue;
   }
-  createLabels() {
-    this.items.forEach((item, i) => {
-      const btn = document.createElement("button");
-      btn.className = "label";
-      btn.textContent = item.title;
-      btn.setAttribute("aria-label", `View ${item.title}`);
-      btn.addEventListener("click", () => this.onItemClick(i));
-      this.labelLayer.appendChild(btn);
-      this.labelElements.push(btn);
+  /**
+   * Collision pass over the mounted labels. Focused, hovered and selected
+   * labels are placed first, then featured items, then nearer ones. Each
+   * label tries below its thumbnail, then above, then nudged sideways; labels
+   * with nowhere free are hidden until there is room. All stay inside the canvas.
+   */
+  placeLabels() {
+    const w = this.canvas.clientWidth;
+    const h = this.canvas.clientHeight;
+    const toScreen = (p) => ({
+      x: (p.x * 0.5 + 0.5) * w,
+      y: (-p.y * 0.5 + 0.5) * h,
+      behind: p.z > 1
+    });
+    const pinned = /* @__PURE__ */ new Set([this.focusedIndex, this.hoveredIndex, this.selectedIndex]);
+    const entries = [...this.labels].map(([i, btn]) => {
+      const pos = this.currentPositions[i];
+      const below = toScreen(pos.clone().setY(pos.y - 0.38).project(this.camera));
+      const above = toScreen(pos.clone().setY(pos.y + 0.38).project(this.camera));
+      const dist = this.camera.position.distanceTo(pos);
+      const blur = Math.round(Math.max(0, Math.min(4, (dist - 4) * 1.2)) * 4) / 4;
+      const scale = MathUtils.clamp(5 / dist, 0.8, 1.15);
+      const opacity = below.behind ? 0 : Math.max(0.3, 1 - blur * 0.15) * this.fade[i];
+      const rank = pinned.has(i) ? 0 : this.items[i].featured ? 1 : 2;
+      return { i, btn, below, above, dist, blur, scale, opacity, rank };
+    });
+    entries.sort((a, b) => a.rank - b.rank || a.dist - b.dist);
+    const taken = [];
+    const overlaps = (r) => taken.some((t) => Math.abs(t.x - r.x) * 2 < t.w + r.w && Math.abs(t.y - r.y) * 2 < t.h + r.h);
+    return entries.map(({ i, btn, below, above, blur, scale, opacity, rank }) => {
+      const [bw, bh] = this.labelSizes.get(btn) ?? [0, 0];
+      const lw = bw * scale + 4;
+      const lh = bh * scale + 2;
+      const clamp2 = (x, y) => ({
+        x: MathUtils.clamp(x, lw / 2, Math.max(lw / 2, w - lw / 2)),
+        y: MathUtils.clamp(y, lh / 2, Math.max(lh / 2, h - lh / 2)),
+        w: lw,
+        h: lh
+      });
+      const fallback = clamp2(below.x, below.y);
+      if (opacity === 0) {
+        return { btn, x: fallback.x, y: fallback.y, scale, blur, opacity, crowded: false };
+      }
+      const candidates = [
+        fallback,
+        clamp2(above.x, above.y),
+        clamp2(below.x - lw / 2, below.y),
+        clamp2(below.x + lw / 2, below.y),
+        clamp2(below.x, below.y + lh)
+      ];
+      let spot = candidates.find((c) => !overlaps(c));
+      const crowded = !spot && rank > 0 && !this.labels.get(i)?.matches(":focus");
+      if (!spot) spot = fallback;
+      if (!crowded) taken.push(spot);
+      return { btn, x: spot.x, y: spot.y, scale, blur, opacity, crowded };
     });
   }
   destroy() {
     cancelAnimationFrame(this.animId);
-    window.removeEventListener("resize", this.resize);
-    this.renderer.domElement.removeEventListener("click", this.handleCanvasClick);
-    this.renderer.dispose();
-    this.thumbnailMeshes.forEach((m) => {
-      m.geometry.dispose();
-      m.material.dispose();
-    });
-    this.textures.forEach((t) => t?.dispose());
+    this.flight?.done();
+    this.controls.removeEventListener("start", this.handleControlsStart);
+    this.controls.removeEventListener("end", this.handleControlsEnd);
+    this.controls.removeEventListener("change", this.invalidate);
+    this.controls.dispose();
+    this.resizeObserver.disconnect();
+    this.intersectionObserver.disconnect();
+    document.removeEventListener("visibilitychange", this.invalidate);
+    this.canvas.removeEventListener("click", this.handleCanvasClick);
+    this.canvas.removeEventListener("pointermove", this.handlePointerMove);
+    this.canvas.removeEventListener("pointerleave", this.handlePointerLeave);
+    this.thumbGeometry.dispose();
+    if (this.instances) {
+      this.instances.geometry.dispose();
+      this.instances.material.dispose();
+      this.instances.dispose();
+    }
+    this.detailMeshes.forEach((m) => m.material.dispose());
+    this.departing.forEach((d) => d.mesh.material.dispose());
+    this.imageQueue.dispose();
+    this.atlas?.dispose();
+    this.detailTextures?.dispose();
     if (this.stars) {
       this.stars.geometry.dispose();
       this.stars.material.dispose();
     }
+    if (this.edgeLines) {
+      this.edgeLines.geometry.dispose();
+      this.edgeLines.material.dispose();
+    }
+    [this.hoverOutline, this.selectedOutline].forEach((outline) => {
+      if (!outline) return;
+      outline.geometry.dispose();
+      outline.material.dispose();
+    });
+    this.shared.release();
   }
 }
 const _SolarPortfolio = class _SolarPortfolio extends HTMLElement {
   constructor() {
     super();
-    this.items = [];
+    this.portfolioItems = [];
+    this.descriptionFormat = "text";
     this.scene = null;
+    this.sceneLost = false;
+    this.unsubscribeContext = null;
+    this.colorScheme = window.matchMedia("(prefers-color-scheme: light)");
+    this.carousel = null;
+    this.returnFocus = null;
+    this.announcer = null;
     this.activeIndex = null;
+    this.shownCard = null;
+    this.activeTags = /* @__PURE__ */ new Set();
+    this.gridItems = [];
+    this.resultCount = null;
+    this.query = "";
+    this.searchResults = null;
+    this.searchInput = null;
+    this.routingFromUrl = false;
+    this.itemsAssigned = false;
+    this.assignedWarnings = [];
+    this.loadController = null;
+    this.unsubscribeData = null;
+    this.eventSource = null;
+    this.ready = false;
+    this.handleThemeChange = () => {
+      this.scene?.setColors(this.readSceneColors());
+    };
+    this.poll = () => {
+      const url = this.getAttribute("data-json");
+      if (!this.ready || this.itemsAssigned || !url || document.hidden) return;
+      if (this.inlineDataScript || this.hasAttribute("data-src")) return;
+      loadData(url, this.dataOptions, true).catch(warnRevalidate);
+    };
+    this.handleLiveMessage = (e) => {
+      let data;
+      try {
+        data = JSON.parse(e.data);
+      } catch (err) {
+        console.warn("[solar-portfolio] Ignoring a live update that is not JSON:", err);
+        return;
+      }
+      if (this.ready) this.updateItems(normalizePortfolioData(data));
+    };
+    this.handleDataChange = (data) => {
+      if (this.itemsAssigned) return;
+      this.updateItems(normalizePortfolioData(data));
+    };
+    this.handleRouteChange = () => {
+      if (!this.routing || this.portfolioItems.length === 0) return;
+      const id = this.readRouteParams().get(this.routeParam);
+      const index = id ? this.portfolioItems.findIndex((item) => item.id === id) : -1;
+      this.routingFromUrl = true;
+      try {
+        if (index >= 0 && index !== this.activeIndex) this.showCard(index);
+        else if (index < 0 && this.activeIndex !== null) this.hideCard();
+      } finally {
+        this.routingFromUrl = false;
+      }
+    };
+    this.handleContextChange = (lost) => {
+      if (lost && this.scene) {
+        this.sceneLost = true;
+        this.rerender();
+      } else if (!lost && this.sceneLost) {
+        this.sceneLost = false;
+        this.rerender();
+      }
+    };
+    this.handleOverlayKey = (e) => {
+      const overlay = e.currentTarget;
+      if (e.key === "Escape") {
+        e.preventDefault();
+        this.hideCard();
+      } else if (e.key === "ArrowLeft" || e.key === "ArrowRight") {
+        const target = this.neighbor(e.key === "ArrowRight" ? 1 : -1);
+        if (this.activeIndex !== null && target !== null) this.showCard(target);
+      } else if (e.key === "Tab") {
+        this.trapFocus(e, overlay);
+      }
+    };
     this.shadow = this.attachShadow({ mode: "open" });
     const style = document.createElement("style");
     style.textContent = COMPONENT_STYLES;
@@ -20228,66 +23112,603 @@ const _SolarPortfolio = class _SolarPortfolio extends HTMLElement {
     this.container.className = "container";
     this.shadow.appendChild(this.container);
   }
+  addEventListener(type, listener, options) {
+    super.addEventListener(type, listener, options);
+  }
+  removeEventListener(type, listener, options) {
+    super.removeEventListener(type, listener, options);
+  }
   connectedCallback() {
+    window.addEventListener("popstate", this.handleRouteChange);
+    window.addEventListener("hashchange", this.handleRouteChange);
+    this.unsubscribeContext = SharedRenderer.onContextChange(this.handleContextChange);
+    this.colorScheme.addEventListener("change", this.handleThemeChange);
+    this.upgradeProperties();
     this.load();
+    this.startLiveUpdates();
   }
   disconnectedCallback() {
+    window.removeEventListener("popstate", this.handleRouteChange);
+    window.removeEventListener("hashchange", this.handleRouteChange);
+    this.unsubscribeContext?.();
+    this.unsubscribeContext = null;
+    this.colorScheme.removeEventListener("change", this.handleThemeChange);
+    this.loadController?.abort();
+    this.unsubscribeData?.();
+    this.unsubscribeData = null;
+    this.stopLiveUpdates();
     this.scene?.destroy();
     this.scene = null;
   }
-  attributeChangedCallback() {
-    if (this.isConnected) {
-      this.scene?.destroy();
-      this.scene = null;
-      this.load();
+  attributeChangedCallback(name, oldValue, newValue) {
+    if (!this.isConnected || oldValue === newValue) return;
+    switch (name) {
+      case "accent":
+        this.updateAccentColor();
+        this.handleThemeChange();
+        break;
+      case "theme":
+        this.handleThemeChange();
+        break;
+      case "poster":
+      case "persist":
+      case "timeout":
+        break;
+      case "refresh":
+      case "live":
+        this.startLiveUpdates();
+        break;
+      case "routing":
+      case "namespace":
+        if (this.ready) this.handleRouteChange();
+        break;
+      case "variant":
+      case "layout":
+      case "filters":
+      case "search":
+      case "quality":
+      case "fps":
+      case "crossorigin":
+        if (this.ready) this.rerender();
+        break;
+      default:
+        this.load();
+    }
+  }
+  // ── Public API ─────────────────────────────────────────────────────────────
+  /** A copy of the loaded items. */
+  get items() {
+    return this.portfolioItems.slice();
+  }
+  /** Replaces the items and re-renders without fetching anything. */
+  set items(items) {
+    this.assignData({ items });
+    if (this.isConnected) this.load();
+  }
+  /**
+   * Cost of the constellation's recent frames, measured inside its render
+   * loop; null while no constellation is shown.
+   */
+  get frameStats() {
+    return this.scene?.frameStats ?? null;
+  }
+  /** The loaded data in `portfolio.json` shape. */
+  get data() {
+    return { descriptionFormat: this.descriptionFormat, items: this.items };
+  }
+  /** Same as setting `items`, for data already in `portfolio.json` shape. */
+  set data(data) {
+    this.assignData(data);
+    if (this.isConnected) this.load();
+  }
+  /**
+   * Replaces the items like `items`, but animates the change. Projects are
+   * matched by `id`, and an open card stays open. Once something is shown,
+   * this is one more live update: `refresh`, `live` and `data-json`
+   * revalidation keep running and later updates replace these items.
+   */
+  setItems(items) {
+    if (!this.ready) {
+      this.items = items;
+      return;
     }
+    const loaded = normalizePortfolioData({ items });
+    if (this.itemsAssigned) this.assignedWarnings = loaded.warnings;
+    this.updateItems(loaded);
+  }
+  /** Opens the card for the item with this id. Returns false if there is none. */
+  open(id) {
+    const index = this.portfolioItems.findIndex((item) => item.id === id);
+    if (index < 0) return false;
+    this.showCard(index);
+    return true;
+  }
+  close() {
+    this.hideCard();
+  }
+  /** Steps to the next visible item, or opens the first one if no card is open. */
+  next() {
+    const target = this.neighbor(1);
+    if (target !== null) this.showCard(target);
+  }
+  /** Steps to the previous visible item, or opens the last one if no card is open. */
+  prev() {
+    const target = this.neighbor(-1);
+    if (target !== null) this.showCard(target);
+  }
+  /**
+   * Reads the data source again and re-renders; a cached `data-json` is
+   * checked with the server first. Items assigned from script are simply
+   * re-rendered.
+   */
+  reload() {
+    return this.load(true);
+  }
+  /** Returns false if a cancelable event had `preventDefault()` called on it. */
+  emit(type, detail, cancelable = false) {
+    return this.dispatchEvent(
+      new CustomEvent(type, { detail, bubbles: true, composed: true, cancelable })
+    );
   }
   get accent() {
-    return this.getAttribute("accent") || "#8C52FF";
+    return this.getAttribute("accent");
   }
   get variant() {
     return this.getAttribute("variant") || "constellation";
   }
+  get layout() {
+    const value = this.getAttribute("layout");
+    return value && LAYOUT_MODES.includes(value) ? value : "clusters";
+  }
+  get quality() {
+    const value = this.getAttribute("quality");
+    return value && RENDER_QUALITIES.includes(value) ? value : "balanced";
+  }
+  get fps() {
+    const value = Number(this.getAttribute("fps"));
+    return value > 0 ? Math.min(value, 120) : null;
+  }
+  get crossOrigin() {
+    return this.getAttribute("crossorigin") === "use-credentials" ? "use-credentials" : "anonymous";
+  }
+  get routing() {
+    const value = this.getAttribute("routing");
+    return value === "hash" || value === "query" ? value : null;
+  }
+  /** URL parameter holding the open project id, e.g. `project` or `work.project`. */
+  get routeParam() {
+    const ns = this.getAttribute("namespace");
+    return ns ? `${ns}.project` : "project";
+  }
   get posterUrl() {
     return this.getAttribute("poster");
   }
-  async load() {
+  async load(revalidate = false) {
+    this.loadController?.abort();
+    this.unsubscribeData?.();
+    this.unsubscribeData = null;
+    const controller = new AbortController();
+    this.loadController = controller;
+    const { signal } = controller;
+    this.ready = false;
+    this.scene?.destroy();
+    this.scene = null;
     this.container.innerHTML = "";
     this.updateAccentColor();
-    const jsonUrl = this.getAttribute("data-json");
-    if (!jsonUrl) {
-      this.container.innerHTML = `<div class="fallback-notice">No data-json attribute provided.</div>`;
-      return;
-    }
-    if (this.posterUrl) {
-      this.container.innerHTML = `<img class="poster" src="${this.posterUrl}" alt="Portfolio loading…" />`;
-    } else {
-      this.container.innerHTML = `<div class="loading">Loading portfolio</div>`;
+    let warnings = this.assignedWarnings;
+    let loaded = null;
+    if (!this.itemsAssigned) {
+      const inline = this.inlineDataScript;
+      const moduleUrl = this.getAttribute("data-src");
+      const jsonUrl = this.getAttribute("data-json");
+      if (!inline && !moduleUrl && !jsonUrl) {
+        this.container.innerHTML = `<div class="fallback-notice">No portfolio data provided.</div>`;
+        return;
+      }
+      if (!inline && this.posterUrl) {
+        setHtml(this.container, html`<img class="poster" src="${this.posterUrl}" alt="Portfolio loading…" />`);
+      } else if (!inline) {
+        this.container.innerHTML = `<div class="loading">Loading portfolio</div>`;
+      }
+      if (!inline && !moduleUrl) {
+        this.unsubscribeData = onDataChange(jsonUrl, this.handleDataChange);
+      }
+      let data;
+      try {
+        if (inline) data = JSON.parse(inline.textContent || "");
+        else if (moduleUrl) data = await this.importData(moduleUrl);
+        else data = await loadData(jsonUrl, this.dataOptions, revalidate);
+      } catch (err) {
+        if (signal.aborted) return;
+        this.showLoadError(err);
+        return;
+      }
+      if (signal.aborted) return;
+      loaded = normalizePortfolioData(data);
+      warnings = loaded.warnings;
     }
-    try {
-      const resp = await fetch(jsonUrl);
-      if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
-      const data = await resp.json();
-      this.items = data.items || [];
-    } catch (err) {
-      this.container.innerHTML = `<div class="fallback-notice">Failed to load portfolio data.</div>`;
-      console.error("[solar-portfolio]", err);
-      return;
+    this.present(warnings, loaded);
+  }
+  /** Renders freshly loaded (or assigned) data and announces it with `load`. */
+  present(warnings, loaded) {
+    if (warnings.length > 0) {
+      this.reportInvalid(warnings);
+      if (this.hasAttribute("strict")) return;
     }
+    if (loaded) this.setPortfolioItems(loaded.items, loaded.descriptionFormat);
     this.render();
+    this.ready = true;
+    this.emit("load", { items: this.items });
+    this.handleRouteChange();
+  }
+  showLoadError(err) {
+    const message = "Failed to load portfolio data.";
+    const notice = document.createElement("div");
+    notice.className = "fallback-notice";
+    notice.setAttribute("role", "alert");
+    notice.textContent = message;
+    const retry = document.createElement("button");
+    retry.className = "retry-btn";
+    retry.setAttribute("part", "button retry-button");
+    retry.textContent = "Try again";
+    retry.addEventListener("click", () => this.load());
+    notice.appendChild(retry);
+    this.container.innerHTML = "";
+    this.container.appendChild(notice);
+    console.error("[solar-portfolio]", err);
+    this.emit("error", { error: err, message });
+  }
+  get dataOptions() {
+    const timeout = Number(this.getAttribute("timeout"));
+    return {
+      persist: this.hasAttribute("persist"),
+      timeout: timeout > 0 ? timeout : DEFAULT_DATA_TIMEOUT
+    };
+  }
+  /** A `<script type="application/json">` child holding the portfolio data. */
+  get inlineDataScript() {
+    return this.querySelector(':scope > script[type="application/json"]');
+  }
+  /** A `<template slot="…">` child that replaces the built-in markup for `slot`. */
+  template(slot) {
+    return this.querySelector(`:scope > template[slot="${slot}"]`);
+  }
+  /** Loads a JS module and takes its default export (or `data` / `items`). */
+  async importData(url) {
+    const href = new URL(url, document.baseURI).href;
+    const mod = await import(
+      /* @vite-ignore */
+      href
+    );
+    return mod.default ?? mod.data ?? mod.items;
+  }
+  /**
+   * The one place items are swapped in, whatever their source. Keeps the open
+   * card on the same item if it is still present.
+   */
+  setPortfolioItems(items, descriptionFormat) {
+    const activeId = this.activeIndex !== null ? this.portfolioItems[this.activeIndex]?.id : void 0;
+    this.portfolioItems = items;
+    this.descriptionFormat = descriptionFormat;
+    if (activeId !== void 0) {
+      const index = items.findIndex((item) => item.id === activeId);
+      this.activeIndex = index >= 0 ? index : null;
+    }
+  }
+  /** Takes data assigned from script, bypassing markup and URL sources. */
+  assignData(data) {
+    this.itemsAssigned = true;
+    this.loadController?.abort();
+    const { items, descriptionFormat, warnings } = normalizePortfolioData(data);
+    this.assignedWarnings = warnings;
+    this.setPortfolioItems(items, descriptionFormat);
   }
+  /**
+   * Logs validation warnings and fires `invalid`. In strict mode the data is
+   * rejected instead: the problems are listed in place of the portfolio.
+   */
+  reportInvalid(warnings) {
+    console.warn(
+      `[solar-portfolio] ${warnings.length} problem(s) in portfolio data:`,
+      warnings
+    );
+    this.emit("invalid", { warnings });
+    if (!this.hasAttribute("strict")) return;
+    const message = "Portfolio data is invalid.";
+    const notice = document.createElement("div");
+    notice.className = "fallback-notice validation-errors";
+    notice.setAttribute("role", "alert");
+    notice.textContent = message;
+    const list = document.createElement("ul");
+    warnings.forEach((w) => {
+      const li = document.createElement("li");
+      li.textContent = w.message;
+      list.appendChild(li);
+    });
+    notice.appendChild(list);
+    this.container.innerHTML = "";
+    this.container.appendChild(notice);
+    this.emit("error", { error: warnings, message });
+  }
+  /**
+   * Picks up `items` / `data` set on the element before it was upgraded,
+   * which would otherwise shadow the accessors.
+   */
+  upgradeProperties() {
+    ["items", "data"].forEach((prop) => {
+      if (!Object.prototype.hasOwnProperty.call(this, prop)) return;
+      const value = Reflect.get(this, prop);
+      Reflect.deleteProperty(this, prop);
+      this.assignData(prop === "items" ? { items: value } : value);
+    });
+  }
+  // Inline on :host so it beats page CSS; without the attribute the token applies
   updateAccentColor() {
-    this.container.style.setProperty("--accent", this.accent);
-    this.shadow.host.style.setProperty("--accent", this.accent);
+    const host = this.shadow.host;
+    if (this.accent) host.style.setProperty("--accent", this.accent);
+    else host.style.removeProperty("--accent");
+  }
+  /** The scene's colors, from the design tokens currently applied to the host. */
+  readSceneColors() {
+    const style = getComputedStyle(this);
+    const token = (name, fallback) => style.getPropertyValue(name).trim() || fallback;
+    const accent = token("--accent", DEFAULT_ACCENT);
+    return {
+      accent,
+      star: token("--star", "#fff"),
+      edge: token("--edge", "#fff"),
+      placeholder: token("--placeholder", "#2a2a2a"),
+      fallback: token("--fallback-tint", accent),
+      background: token("--bg", "#0a0a0a")
+    };
   }
   render() {
     this.container.innerHTML = "";
-    const useGrid = this.variant === "grid" || prefersReducedMotion() || !isWebGLAvailable();
+    this.gridItems = [];
+    this.resultCount = null;
+    this.searchInput = null;
+    this.announcer = document.createElement("div");
+    this.announcer.className = "visually-hidden";
+    this.announcer.setAttribute("aria-live", "polite");
+    this.container.appendChild(this.announcer);
+    const useGrid = this.variant === "grid" || prefersReducedMotion() || !isWebGLAvailable() || SharedRenderer.contextLost;
+    if (!this.hasAttribute("filters")) this.activeTags.clear();
+    this.searchResults = this.query ? this.rankItems(this.query) : null;
+    if (this.hasAttribute("filters") || this.hasAttribute("search")) {
+      this.renderToolbar();
+    }
     if (useGrid) {
-      this.renderGrid(!isWebGLAvailable() && this.variant !== "grid");
+      this.renderGrid(
+        (!isWebGLAvailable() || SharedRenderer.contextLost) && this.variant !== "grid"
+      );
     } else {
       this.renderConstellation();
     }
+    this.applyFilter();
+  }
+  // ── Live Updates ───────────────────────────────────────────────────────────
+  /** Polls `data-json` every `refresh` seconds and listens to the `live` event stream. */
+  startLiveUpdates() {
+    this.stopLiveUpdates();
+    const seconds = Number(this.getAttribute("refresh"));
+    if (seconds > 0) {
+      this.refreshTimer = setInterval(this.poll, Math.max(seconds, MIN_REFRESH_SECONDS) * 1e3);
+    }
+    const live = this.getAttribute("live");
+    if (live && typeof EventSource !== "undefined") {
+      this.eventSource = new EventSource(live);
+      this.eventSource.addEventListener("message", this.handleLiveMessage);
+    }
+  }
+  stopLiveUpdates() {
+    clearInterval(this.refreshTimer);
+    this.refreshTimer = void 0;
+    this.eventSource?.close();
+    this.eventSource = null;
+  }
+  /**
+   * Swaps in a new item list without starting over: the grid and the scene
+   * animate additions, removals and moves, and an open card stays put unless
+   * its project changed or went away.
+   */
+  updateItems(loaded) {
+    this.loadController?.abort();
+    const { warnings } = loaded;
+    if (!this.ready || warnings.length > 0 && this.hasAttribute("strict")) {
+      this.carousel?.destroy();
+      this.carousel = null;
+      this.scene?.destroy();
+      this.scene = null;
+      this.ready = false;
+      this.present(warnings, loaded);
+      return;
+    }
+    if (warnings.length > 0) this.reportInvalid(warnings);
+    const previous = this.portfolioItems;
+    const openId = this.activeIndex !== null ? previous[this.activeIndex].id : null;
+    if (openId !== null && !loaded.items.some((item) => item.id === openId)) this.hideCard();
+    this.setPortfolioItems(loaded.items, loaded.descriptionFormat);
+    if (this.scene && !this.scene.setItems(this.portfolioItems)) {
+      this.rerender();
+    } else {
+      const animateGrid = this.scene ? null : this.updateGrid(previous);
+      if (this.hasAttribute("filters")) this.refreshFilterBar();
+      this.searchResults = this.query ? this.rankItems(this.query) : null;
+      this.applyFilter();
+      animateGrid?.();
+    }
+    this.emit("load", { items: this.items });
+  }
+  // ── URL Routing ────────────────────────────────────────────────────────────
+  /**
+   * Hash routing leaves a fragment that isn't `key=value` pairs (an in-page
+   * anchor like `#about`) alone and uses the query string meanwhile.
+   */
+  get routeInQuery() {
+    if (this.routing === "query") return true;
+    const hash = location.hash.slice(1);
+    return hash !== "" && !hash.split("&").every((pair) => pair.includes("="));
+  }
+  readRouteParams() {
+    return new URLSearchParams(this.routeInQuery ? location.search : location.hash.slice(1));
+  }
+  /**
+   * Mirrors the open card into the URL. Only this element's parameter is
+   * touched, so other instances (with their own namespace) keep theirs.
+   */
+  writeRoute(id, replace) {
+    if (!this.routing || this.routingFromUrl) return;
+    const params = this.readRouteParams();
+    if (params.get(this.routeParam) === id) return;
+    if (id) params.set(this.routeParam, id);
+    else params.delete(this.routeParam);
+    const url = new URL(location.href);
+    if (this.routeInQuery) url.search = params.toString();
+    else url.hash = params.toString();
+    if (replace) history.replaceState(history.state, "", url);
+    else history.pushState(history.state, "", url);
+  }
+  // ── Filtering & Search ─────────────────────────────────────────────────────
+  /**
+   * Runs a search as if typed into the search box: matching items are ranked,
+   * highlighted, and in constellation mode the camera turns to the best one.
+   * An empty query clears the search. Returns the visible items, best first.
+   */
+  search(query) {
+    this.runSearch(query);
+    if (this.searchInput) this.searchInput.value = query;
+    return this.visibleIndices.map((i) => this.portfolioItems[i]);
+  }
+  runSearch(query) {
+    this.query = query;
+    this.searchResults = query ? this.rankItems(query) : null;
+    this.filterChanged();
+    const best = this.visibleIndices[0];
+    if (this.searchResults && best !== void 0) this.scene?.focusItem(best);
+  }
+  /** Returns null when the query has nothing searchable in it. */
+  rankItems(query) {
+    return tokenize(query).length > 0 ? searchItems(this.portfolioItems, query) : null;
+  }
+  get allTags() {
+    const tags = /* @__PURE__ */ new Set();
+    this.portfolioItems.forEach((item) => item.tags.forEach((t) => tags.add(t)));
+    return [...tags].sort((a, b) => a.localeCompare(b));
+  }
+  /** An item matches when no tags are selected or it carries any selected tag. */
+  matchesFilter(item) {
+    return this.activeTags.size === 0 || item.tags.some((t) => this.activeTags.has(t));
+  }
+  /** Indices passing both the tag filter and the search, in display order. */
+  get visibleIndices() {
+    const order = this.searchResults ? this.searchResults.map((r) => r.index) : this.portfolioItems.map((_, i) => i);
+    return order.filter((i) => this.matchesFilter(this.portfolioItems[i]));
+  }
+  searchTerms(index) {
+    return this.searchResults?.find((r) => r.index === index)?.terms ?? null;
+  }
+  renderToolbar() {
+    const toolbar = document.createElement("div");
+    toolbar.className = "toolbar";
+    toolbar.setAttribute("part", "toolbar");
+    if (this.hasAttribute("search")) {
+      toolbar.appendChild(this.createSearchField());
+    }
+    if (this.hasAttribute("filters")) {
+      toolbar.appendChild(this.createFilterBar());
+    }
+    const count = document.createElement("span");
+    count.className = "result-count";
+    count.setAttribute("part", "result-count");
+    count.setAttribute("role", "status");
+    count.setAttribute("aria-live", "polite");
+    toolbar.appendChild(count);
+    this.resultCount = count;
+    this.container.appendChild(toolbar);
+  }
+  createSearchField() {
+    const input = document.createElement("input");
+    input.type = "search";
+    input.className = "search-input";
+    input.setAttribute("part", "search");
+    input.placeholder = "Search projects";
+    input.setAttribute("aria-label", "Search projects");
+    input.value = this.query;
+    input.addEventListener("input", () => this.runSearch(input.value));
+    this.searchInput = input;
+    return input;
+  }
+  /** Rebuilds the tag chips after live updates, if the set of tags changed. */
+  refreshFilterBar() {
+    const bar = this.shadow.querySelector(".filter-bar");
+    const shown = [...bar?.querySelectorAll(".filter-chip:not(.filter-clear)") ?? []].map(
+      (chip) => chip.textContent
+    );
+    if (!bar || JSON.stringify(shown) === JSON.stringify(this.allTags)) return;
+    bar.replaceWith(this.createFilterBar());
+  }
+  createFilterBar() {
+    const tags = this.allTags;
+    this.activeTags.forEach((t) => {
+      if (!tags.includes(t)) this.activeTags.delete(t);
+    });
+    const bar = document.createElement("div");
+    bar.className = "filter-bar";
+    bar.setAttribute("role", "group");
+    bar.setAttribute("aria-label", "Filter projects by tag");
+    const chips = [];
+    tags.forEach((tag) => {
+      const chip = document.createElement("button");
+      chip.className = "filter-chip";
+      chip.setAttribute("part", "button filter-chip");
+      chip.textContent = tag;
+      chip.setAttribute("aria-pressed", String(this.activeTags.has(tag)));
+      chip.addEventListener("click", () => {
+        if (this.activeTags.has(tag)) this.activeTags.delete(tag);
+        else this.activeTags.add(tag);
+        chip.setAttribute("aria-pressed", String(this.activeTags.has(tag)));
+        this.filterChanged();
+      });
+      chips.push(chip);
+      bar.appendChild(chip);
+    });
+    const clear = document.createElement("button");
+    clear.className = "filter-chip filter-clear";
+    clear.setAttribute("part", "button filter-chip filter-clear");
+    clear.textContent = "Clear";
+    clear.addEventListener("click", () => {
+      this.activeTags.clear();
+      chips.forEach((chip) => chip.setAttribute("aria-pressed", "false"));
+      this.filterChanged();
+    });
+    bar.appendChild(clear);
+    return bar;
+  }
+  filterChanged() {
+    this.applyFilter();
+    this.emit("filterchange", {
+      tags: [...this.activeTags],
+      query: this.query,
+      visible: this.visibleIndices.map((i) => this.portfolioItems[i])
+    });
+  }
+  applyFilter() {
+    const visible = this.visibleIndices;
+    const mask = this.portfolioItems.map(() => false);
+    visible.forEach((i) => mask[i] = true);
+    this.gridItems.forEach((el, i) => {
+      el.hidden = !mask[i];
+      el.style.order = this.searchResults && mask[i] ? String(visible.indexOf(i)) : "";
+      highlightTerms(el, this.searchTerms(i));
+    });
+    this.scene?.setVisibleItems(mask);
+    if (this.resultCount) {
+      this.resultCount.textContent = visible.length === this.portfolioItems.length ? `${visible.length} projects` : `Showing ${visible.length} of ${this.portfolioItems.length} projects`;
+    }
+    if (this.activeIndex !== null) {
+      if (!mask[this.activeIndex]) this.hideCard();
+      else if (this.cardState(this.activeIndex) !== this.shownCard) this.showCard(this.activeIndex);
+    }
   }
   // ── Grid Mode ──────────────────────────────────────────────────────────────
   renderGrid(showWebGLNotice = false) {
@@ -20296,7 +23717,7 @@ const _SolarPortfolio = class _SolarPortfolio extends HTMLElement {
     if (showWebGLNotice) {
       const notice = document.createElement("div");
       notice.className = "fallback-notice";
-      notice.textContent = "WebGL is unavailable — showing static grid view.";
+      notice.textContent = SharedRenderer.contextLost ? "The 3D view was interrupted — showing static grid view." : "WebGL is unavailable — showing static grid view.";
       wrap.appendChild(notice);
     }
     if (prefersReducedMotion() && this.variant !== "grid") {
@@ -20307,124 +23728,456 @@ const _SolarPortfolio = class _SolarPortfolio extends HTMLElement {
     }
     const grid = document.createElement("div");
     grid.className = "grid";
+    grid.setAttribute("part", "grid");
     grid.setAttribute("role", "list");
-    this.items.forEach((item, i) => {
-      const card = document.createElement("div");
-      card.className = "grid-item";
-      card.setAttribute("role", "listitem");
-      card.setAttribute("tabindex", "0");
-      card.setAttribute("aria-label", item.title);
-      card.addEventListener("click", () => this.showCard(i));
-      card.addEventListener("keydown", (e) => {
-        if (e.key === "Enter" || e.key === " ") {
-          e.preventDefault();
-          this.showCard(i);
-        }
-      });
-      card.innerHTML = `
+    this.portfolioItems.forEach((item) => {
+      const card = this.createGridItem(item);
+      grid.appendChild(card);
+      this.gridItems.push(card);
+    });
+    wrap.appendChild(grid);
+    wrap.appendChild(this.createOverlay());
+    this.container.appendChild(wrap);
+  }
+  createGridItem(item) {
+    const card = document.createElement("div");
+    card.className = "grid-item";
+    card.setAttribute("part", "grid-item");
+    card.setAttribute("role", "listitem");
+    card.setAttribute("tabindex", "0");
+    const index = () => this.gridItems.indexOf(card);
+    card.addEventListener("click", () => this.selectItem(index()));
+    card.addEventListener("keydown", (e) => {
+      if (e.key === "Enter" || e.key === " ") {
+        e.preventDefault();
+        this.selectItem(index());
+      }
+    });
+    this.fillGridItem(card, item);
+    return card;
+  }
+  fillGridItem(card, item) {
+    card.setAttribute("aria-label", item.title);
+    const template = this.template("grid-item");
+    if (template) {
+      card.replaceChildren(renderTemplate(template, item));
+      return;
+    }
+    setHtml(
+      card,
+      html`
         <img src="${item.image}" alt="${item.title}" loading="lazy" />
         <div class="grid-item-body">
-          <h3>${item.title}</h3>
+          <h3 part="title">${item.title}</h3>
           <div class="tags">
-            ${item.tags.map((t) => `<span class="tag">${t}</span>`).join("")}
+            ${item.tags.map((t) => html`<span class="tag" part="tag">${t}</span>`)}
           </div>
         </div>
-      `;
-      grid.appendChild(card);
+      `
+    );
+  }
+  /**
+   * Matches grid cards to new items by id, keeping the cards of projects that
+   * stayed. Cards of removed projects fade out where they were. Returns a
+   * function that animates the rest once filters have been applied.
+   */
+  updateGrid(previous) {
+    const grid = this.shadow.querySelector(".grid");
+    if (!grid) return () => {
+    };
+    const animate = !prefersReducedMotion() && typeof grid.animate === "function";
+    const gridRect = grid.getBoundingClientRect();
+    const before = new Map(this.gridItems.map((el) => [el, el.getBoundingClientRect()]));
+    const cards = new Map(previous.map((item, i) => [item.id, this.gridItems[i]]));
+    const oldItems = new Map(previous.map((item) => [item.id, item]));
+    const focused = this.gridItems.findIndex((el) => el === this.shadow.activeElement);
+    const entering = /* @__PURE__ */ new Set();
+    this.gridItems = this.portfolioItems.map((item) => {
+      const card = cards.get(item.id);
+      cards.delete(item.id);
+      if (!card) {
+        const el = this.createGridItem(item);
+        entering.add(el);
+        return el;
+      }
+      if (JSON.stringify(item) !== JSON.stringify(oldItems.get(item.id))) {
+        this.fillGridItem(card, item);
+      }
+      return card;
     });
-    wrap.appendChild(grid);
-    const overlay = document.createElement("div");
-    overlay.className = "overlay";
-    overlay.id = "card-overlay";
-    wrap.appendChild(overlay);
-    this.container.appendChild(wrap);
+    this.gridItems.forEach((el) => grid.appendChild(el));
+    cards.forEach((el) => {
+      const rect = before.get(el);
+      if (!animate || el.hidden) {
+        el.remove();
+        return;
+      }
+      Object.assign(el.style, {
+        position: "absolute",
+        left: `${rect.left - gridRect.left}px`,
+        top: `${rect.top - gridRect.top}px`,
+        width: `${rect.width}px`,
+        height: `${rect.height}px`,
+        pointerEvents: "none"
+      });
+      el.removeAttribute("tabindex");
+      el.setAttribute("aria-hidden", "true");
+      el.animate([{ opacity: 1 }, { opacity: 0, transform: "scale(0.9)" }], {
+        duration: 300,
+        easing: "ease"
+      }).onfinish = () => el.remove();
+    });
+    if (focused >= 0 && !this.gridItems.includes(this.shadow.activeElement)) {
+      this.gridItems[Math.min(focused, this.gridItems.length - 1)]?.focus();
+    }
+    return () => {
+      if (!animate) return;
+      this.gridItems.forEach((el) => {
+        if (el.hidden) return;
+        if (entering.has(el)) {
+          el.animate([{ opacity: 0, transform: "scale(0.9)" }, { opacity: 1, transform: "none" }], {
+            duration: 300,
+            easing: "ease-out"
+          });
+          return;
+        }
+        const from = before.get(el);
+        const to = el.getBoundingClientRect();
+        const dx = from.left - to.left;
+        const dy = from.top - to.top;
+        if (from.width === 0 || dx === 0 && dy === 0) return;
+        el.animate([{ transform: `translate(${dx}px, ${dy}px)` }, { transform: "none" }], {
+          duration: 400,
+          easing: "ease"
+        });
+      });
+    };
   }
   // ── Constellation Mode ─────────────────────────────────────────────────────
   renderConstellation() {
     const wrap = document.createElement("div");
     wrap.className = "constellation-wrap";
+    wrap.setAttribute("part", "constellation");
     const canvasContainer = document.createElement("div");
     canvasContainer.style.cssText = "position:absolute;inset:0;";
     wrap.appendChild(canvasContainer);
     const labelLayer = document.createElement("div");
     labelLayer.className = "label-layer";
+    labelLayer.setAttribute("role", "group");
+    labelLayer.setAttribute("aria-label", "Projects — use the arrow keys to move between them");
     wrap.appendChild(labelLayer);
+    const pointerHint = "Drag to explore · Click any thumbnail for details";
+    const keyboardHint = "Arrow keys move between projects · Enter opens · Tab leaves";
     const hint = document.createElement("div");
     hint.className = "hint";
-    hint.textContent = "Drag to explore · Click any thumbnail for details";
+    hint.setAttribute("part", "hint");
+    hint.textContent = pointerHint;
     wrap.appendChild(hint);
-    const overlay = document.createElement("div");
-    overlay.className = "overlay";
-    overlay.id = "card-overlay";
-    wrap.appendChild(overlay);
+    labelLayer.addEventListener("focusin", (e) => {
+      if (e.target.matches(":focus-visible")) hint.textContent = keyboardHint;
+    });
+    labelLayer.addEventListener("focusout", (e) => {
+      if (!labelLayer.contains(e.relatedTarget)) hint.textContent = pointerHint;
+    });
+    const loading = this.createSceneLoading();
+    wrap.appendChild(loading);
+    wrap.appendChild(this.createOverlay());
     this.container.appendChild(wrap);
+    const status = loading.querySelector(".loading");
+    const hideLoading = () => loading.classList.add("ready");
+    const timer = setTimeout(hideLoading, SCENE_READY_TIMEOUT);
+    if (this.portfolioItems.length === 0) hideLoading();
     this.scene = new ConstellationScene(
       canvasContainer,
       labelLayer,
-      this.items,
-      this.accent,
-      (index) => this.showCard(index)
+      this.portfolioItems,
+      {
+        colors: this.readSceneColors(),
+        layout: this.layout,
+        quality: this.quality,
+        fps: this.fps,
+        crossOrigin: this.crossOrigin
+      },
+      {
+        onItemClick: (index) => this.selectItem(index),
+        // Live updates change the count, so it is read from each report
+        onProgress: (detail) => {
+          const { total } = detail;
+          const settled = detail.loaded + detail.failed;
+          if (status) status.textContent = `Loading images ${settled} / ${total}`;
+          if (settled >= Math.min(total, SCENE_READY_COUNT)) {
+            clearTimeout(timer);
+            hideLoading();
+          }
+          this.emit("progress", detail);
+        }
+      }
     );
   }
+  /** The poster, or a spinner counting loaded images, shown while the scene fills in. */
+  createSceneLoading() {
+    const loading = document.createElement("div");
+    loading.className = "scene-loading";
+    if (this.posterUrl) {
+      setHtml(loading, html`<img class="poster" src="${this.posterUrl}" alt="" />`);
+    }
+    const status = document.createElement("div");
+    status.className = "loading";
+    status.textContent = "Loading images";
+    loading.appendChild(status);
+    return loading;
+  }
+  /**
+   * Renders the view again without reloading data. An open card stays open on
+   * the same item, without firing `open` again.
+   */
+  rerender() {
+    this.carousel?.destroy();
+    this.carousel = null;
+    this.scene?.destroy();
+    this.scene = null;
+    this.render();
+  }
   // ── Card Overlay ───────────────────────────────────────────────────────────
+  /** A visitor picked an item in the grid or scene. */
+  selectItem(index) {
+    const item = this.portfolioItems[index];
+    if (!item) return;
+    this.emit("select", { item, index });
+    this.showCard(index);
+  }
+  /**
+   * The visible item `step` places away from the open card. With no card
+   * open, stepping forward starts at the first item and back at the last.
+   */
+  neighbor(step) {
+    const visible = this.visibleIndices;
+    if (this.activeIndex === null) {
+      return (step > 0 ? visible[0] : visible[visible.length - 1]) ?? null;
+    }
+    const pos = visible.indexOf(this.activeIndex);
+    if (pos < 0) return null;
+    return visible[pos + step] ?? null;
+  }
+  /** Everything the open card's content depends on, to tell when it needs redrawing. */
+  cardState(index) {
+    return JSON.stringify([
+      index,
+      this.neighbor(-1),
+      this.neighbor(1),
+      this.portfolioItems[index],
+      this.descriptionFormat,
+      [...this.searchTerms(index) ?? []]
+    ]);
+  }
+  createOverlay() {
+    this.shownCard = null;
+    const overlay = document.createElement("div");
+    overlay.className = "overlay";
+    overlay.setAttribute("part", "overlay");
+    overlay.id = "card-overlay";
+    overlay.setAttribute("role", "dialog");
+    overlay.setAttribute("aria-modal", "true");
+    overlay.setAttribute("aria-labelledby", "card-title");
+    overlay.addEventListener("click", (e) => {
+      if (e.target === overlay) this.hideCard();
+    });
+    overlay.addEventListener("keydown", this.handleOverlayKey);
+    return overlay;
+  }
+  trapFocus(e, overlay) {
+    const focusable = Array.from(
+      overlay.querySelectorAll(
+        'a[href], button:not([disabled]), video[controls], [tabindex]:not([tabindex="-1"])'
+      )
+    ).filter((el) => !el.closest("[hidden]"));
+    if (focusable.length === 0) return;
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    const active = this.shadow.activeElement;
+    if (!active || !focusable.includes(active)) {
+      e.preventDefault();
+      first.focus();
+    } else if (e.shiftKey && active === first) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && active === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  }
+  /** The grid item or constellation label that opens this item's card. */
+  itemTrigger(index) {
+    const gridItem = this.gridItems[index];
+    if (gridItem && !gridItem.hidden) return gridItem;
+    const label = this.scene?.labelFor(index);
+    return label && !label.disabled ? label : null;
+  }
+  announce(message) {
+    if (this.announcer) this.announcer.textContent = message;
+  }
   showCard(index) {
-    this.activeIndex = index;
-    const item = this.items[index];
+    const item = this.portfolioItems[index];
     if (!item) return;
+    const changed = index !== this.activeIndex;
+    const wasOpen = this.activeIndex !== null;
+    if (!wasOpen) {
+      const active = this.shadow.activeElement ?? document.activeElement;
+      this.returnFocus = active instanceof HTMLElement && active !== document.body ? active : null;
+    }
+    this.writeRoute(item.id, this.activeIndex !== null);
+    this.activeIndex = index;
+    this.scene?.setSelectedIndex(index);
     const overlay = this.shadow.getElementById("card-overlay");
     if (!overlay) return;
-    const hasPrev = index > 0;
-    const hasNext = index < this.items.length - 1;
-    overlay.innerHTML = `
-      ${hasPrev ? `<button class="nav-btn nav-prev" aria-label="Previous project">${ICON_LEFT}</button>` : ""}
-      ${hasNext ? `<button class="nav-btn nav-next" aria-label="Next project">${ICON_RIGHT}</button>` : ""}
-      <div class="card">
-        <button class="close-btn" aria-label="Close">${ICON_CLOSE}</button>
-        <img src="${item.image}" alt="${item.title}" />
-        <div class="card-body">
-          <h3>${item.title}</h3>
-          <p>${item.description}</p>
-          <div class="tags">
-            ${item.tags.map((t) => `<span class="tag">${t}</span>`).join("")}
-          </div>
+    const prevIndex = this.neighbor(-1);
+    const nextIndex = this.neighbor(1);
+    const links = [
+      ...item.url ? [{ label: "View case study", href: item.url, kind: "case-study" }] : [],
+      ...item.links || []
+    ];
+    const hasPrev = prevIndex !== null;
+    const hasNext = nextIndex !== null;
+    const focused = this.shadow.activeElement;
+    const focusedControl = focused && overlay.contains(focused) ? ["nav-prev", "nav-next", "close-btn"].find((c) => focused.classList.contains(c)) : void 0;
+    const template = this.template("card");
+    this.carousel?.destroy();
+    this.shownCard = this.cardState(index);
+    setHtml(
+      overlay,
+      html`
+        ${hasPrev && html`<button class="nav-btn nav-prev" part="button nav-button" data-action="prev" aria-label="Previous project">${ICON_LEFT}</button>`}
+        ${hasNext && html`<button class="nav-btn nav-next" part="button nav-button" data-action="next" aria-label="Next project">${ICON_RIGHT}</button>`}
+        <div class="card" part="card">
+          <button class="close-btn" part="button close-button" data-action="close" aria-label="Close">${ICON_CLOSE}</button>
+          ${!template && html`
+            ${mediaGallery(item)}
+            <div class="card-body">
+              <h3 id="card-title" part="title">${item.title}</h3>
+              <div class="description" part="description"></div>
+              ${links.length > 0 && html`<div class="card-links">${links.map(linkButton)}</div>`}
+              <div class="tags">
+                ${item.tags.map((t) => html`<span class="tag" part="tag">${t}</span>`)}
+              </div>
+            </div>
+          `}
         </div>
-      </div>
-    `;
-    overlay.classList.add("active");
-    overlay.querySelector(".close-btn")?.addEventListener("click", () => this.hideCard());
-    overlay.querySelector(".nav-prev")?.addEventListener("click", (e) => {
-      e.stopPropagation();
-      this.showCard(index - 1);
-    });
-    overlay.querySelector(".nav-next")?.addEventListener("click", (e) => {
-      e.stopPropagation();
-      this.showCard(index + 1);
+      `
+    );
+    const card = overlay.querySelector(".card");
+    if (template) {
+      card.appendChild(this.renderCardTemplate(template, item, links));
+    } else {
+      card.querySelector(".description")?.appendChild(renderDescription(item.description, this.descriptionFormat));
+    }
+    if (overlay.querySelector("#card-title")) overlay.removeAttribute("aria-label");
+    else overlay.setAttribute("aria-label", item.title);
+    const media = overlay.querySelector(".media");
+    this.carousel = media ? new MediaCarousel(media) : null;
+    overlay.querySelectorAll("a[data-link]").forEach((a) => {
+      const link = links[Number(a.dataset.link)];
+      a.addEventListener("click", (e) => {
+        if (!this.emit("linkclick", { item, index, link }, true)) e.preventDefault();
+      });
     });
-    overlay.addEventListener("click", (e) => {
-      if (e.target === overlay) this.hideCard();
+    const terms = this.searchTerms(index);
+    const body = template ? card : overlay.querySelector(".card-body");
+    if (terms && body) highlightTerms(body, terms);
+    const actions = (action) => overlay.querySelectorAll(`[data-action="${action}"]`);
+    actions("close").forEach((el) => el.addEventListener("click", () => this.hideCard()));
+    [["prev", prevIndex], ["next", nextIndex]].forEach(([action, target]) => {
+      actions(action).forEach((el) => {
+        el.hidden = target === null;
+        el.addEventListener("click", (e) => {
+          e.stopPropagation();
+          if (target !== null) this.showCard(target);
+        });
+      });
     });
-    const keyHandler = (e) => {
-      if (e.key === "Escape") this.hideCard();
-      if (e.key === "ArrowLeft" && hasPrev) this.showCard(index - 1);
-      if (e.key === "ArrowRight" && hasNext) this.showCard(index + 1);
+    const reveal = () => {
+      if (this.activeIndex !== index) return;
+      overlay.classList.add("active");
+      this.scene?.setCovered(true);
+      const focusTarget = focusedControl && overlay.querySelector(`.${focusedControl}`) || overlay.querySelector(".close-btn");
+      focusTarget?.focus({ preventScroll: true });
+      if (changed && wasOpen) {
+        const visible = this.visibleIndices;
+        this.announce(`Project ${visible.indexOf(index) + 1} of ${visible.length}: ${item.title}`);
+      }
+      if (changed) this.emit("open", { item, index });
     };
-    document.addEventListener("keydown", keyHandler);
-    overlay.dataset.keyHandler = "true";
-    overlay._keyHandler = keyHandler;
+    const flight = changed ? this.scene?.flyTo(index) : void 0;
+    if (flight && !wasOpen) flight.then(reveal);
+    else reveal();
+  }
+  /**
+   * Binds the card template to `item` and fills its placeholders: the media
+   * gallery into `[data-media]`, the formatted description into
+   * `[data-description]` and the link buttons into `[data-links]`.
+   */
+  renderCardTemplate(template, item, links) {
+    const fragment2 = renderTemplate(template, item);
+    fragment2.querySelectorAll("[data-media]").forEach((el) => {
+      const gallery = document.createElement("div");
+      setHtml(gallery, mediaGallery(item));
+      el.replaceWith(...gallery.childNodes);
+    });
+    fragment2.querySelectorAll("[data-description]").forEach((el) => {
+      el.appendChild(renderDescription(item.description, this.descriptionFormat));
+    });
+    fragment2.querySelectorAll("[data-links]").forEach((el) => {
+      setHtml(el, html`${links.map(linkButton)}`);
+    });
+    return fragment2;
   }
   hideCard() {
+    const index = this.activeIndex;
     this.activeIndex = null;
+    this.scene?.setSelectedIndex(null);
+    this.scene?.setCovered(false);
+    this.scene?.flyHome();
+    if (index !== null) {
+      this.writeRoute(null, false);
+      this.emit("close", { item: this.portfolioItems[index], index });
+    }
+    const opener = this.returnFocus;
+    this.returnFocus = null;
     const overlay = this.shadow.getElementById("card-overlay");
     if (!overlay) return;
+    const active = document.activeElement;
+    const hadFocus = overlay.contains(this.shadow.activeElement) || !active || active === document.body;
+    this.carousel?.destroy();
+    this.carousel = null;
+    this.shownCard = null;
     overlay.classList.remove("active");
     overlay.innerHTML = "";
-    if (overlay._keyHandler) {
-      document.removeEventListener("keydown", overlay._keyHandler);
-      delete overlay._keyHandler;
-    }
+    if (!hadFocus || index === null) return;
+    const outside = opener && opener.isConnected && !this.shadow.contains(opener);
+    const target = outside ? opener : this.itemTrigger(index) ?? opener;
+    if (target?.isConnected) target.focus();
   }
 };
-_SolarPortfolio.observedAttributes = ["data-json", "variant", "poster", "accent"];
+_SolarPortfolio.observedAttributes = [
+  "data-json",
+  "data-src",
+  "variant",
+  "poster",
+  "accent",
+  "layout",
+  "filters",
+  "search",
+  "routing",
+  "namespace",
+  "strict",
+  "quality",
+  "fps",
+  "crossorigin",
+  "persist",
+  "timeout",
+  "refresh",
+  "live",
+  "theme"
+];
 let SolarPortfolio = _SolarPortfolio;
 if (!customElements.get("solar-portfolio")) {
   customElements.define("solar-portfolio", SolarPortfolio);
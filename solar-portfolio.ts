@@ -5,11 +5,36 @@
  *   - An interactive 3D constellation (Three.js, WebGL)
  *   - A static accessible CSS grid (fallback)
  *
+ * Data sources (first one present wins):
+ *   - `items` / `data` properties assigned from script
+ *   - a child <script type="application/json"> block
+ *   - data-src  – URL to a JS module exporting the data (default export)
+ *   - data-json – URL to JSON file with portfolio items
+ *
+ * Custom markup (see README → Templates):
+ *   <template slot="card">      – replaces the card's content
+ *   <template slot="grid-item"> – replaces each grid item's content
+ *
  * Attributes:
  *   data-json  – URL to JSON file with portfolio items
+ *   data-src   – URL to a JS module whose default export is the data
  *   variant    – "constellation" (default) | "grid"
- *   poster     – URL to a static placeholder image
- *   accent     – Hex color string for accent highlights
+ *   poster     – URL to a static placeholder image, shown until the first thumbnails load
+ *   accent     – Hex color string for accent highlights (overrides the --accent token)
+ *   theme      – "dark" (default) | "light" | "auto" (follows prefers-color-scheme)
+ *   layout     – "clusters" (default) | "sphere" | "spiral"
+ *   filters    – Boolean; shows a tag filter bar above the view
+ *   search     – Boolean; shows a search box above the view
+ *   routing    – "hash" | "query"; keeps the open project in the URL
+ *   namespace  – Prefix for the URL parameter when several instances route
+ *   strict     – Boolean; reject data with validation problems instead of repairing it
+ *   quality    – "low" | "balanced" (default) | "high"; rendering cost vs. smoothness
+ *   fps        – Frame-rate cap while the constellation is idle
+ *   crossorigin – "anonymous" (default) | "use-credentials"; CORS mode for scene textures
+ *   persist    – Boolean; keep the last good data-json in the Cache API for offline use
+ *   timeout    – Milliseconds before a data-json request gives up (default 15000)
+ *   refresh    – Seconds between checks of data-json for changes (live updates)
+ *   live       – URL of a Server-Sent Events stream carrying new portfolio data
  */
 
 import * as THREE from "three";
@@ -17,32 +42,211 @@ import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
-interface PortfolioItem {
+export interface PortfolioItem {
   id: string;
   title: string;
   description: string;
   image: string;
+  /** Small version of `image` shown in the constellation until it's close up. */
+  thumb?: string;
   tags: string[];
+  /** Case-study page, shown as the card's main call to action. */
   url: string;
+  /** Further links (website, press, video, …) shown as buttons in the card. */
+  links?: PortfolioLink[];
+  /** Gallery for the card; defaults to just `image`. */
+  media?: PortfolioMedia[];
+  /** Featured projects keep their constellation label when labels crowd. */
+  featured?: boolean;
+  /** Any other fields from the JSON are kept as they are, for custom templates. */
+  [field: string]: unknown;
+}
+
+export interface PortfolioMedia {
+  /** Inferred from the file extension when omitted. */
+  type?: "image" | "video";
+  src: string;
+  /** Alt text for images, accessible name for videos. */
+  alt?: string;
+  caption?: string;
+  /** Poster frame for videos. */
+  poster?: string;
+}
+
+export interface PortfolioLink {
+  label: string;
+  href: string;
+  /** Free-form kind, e.g. "website", "press" or "video". */
+  kind?: string;
+}
+
+export interface PortfolioData {
+  /** Schema version; omitted means 1. */
+  version?: number;
+  /** How item descriptions are written; plain text unless set. */
+  descriptionFormat?: DescriptionFormat;
+  items: PortfolioItem[];
+}
+
+/** A problem found (and where possible repaired) while normalizing data. */
+export interface ValidationWarning {
+  code:
+    | "invalid-root"
+    | "unsupported-version"
+    | "invalid-item"
+    | "missing-field"
+    | "invalid-type"
+    | "invalid-url"
+    | "duplicate-id";
+  message: string;
+  /** Position of the offending item in the source `items` array. */
+  index?: number;
+  field?: string;
 }
 
-interface PortfolioData {
+// ─── Events ──────────────────────────────────────────────────────────────────
+
+export interface SolarPortfolioLoadDetail {
   items: PortfolioItem[];
 }
 
+export interface SolarPortfolioErrorDetail {
+  error: unknown;
+  message: string;
+}
+
+/** Detail for `select`, `open` and `close`. */
+export interface SolarPortfolioItemDetail {
+  item: PortfolioItem;
+  index: number;
+}
+
+export interface SolarPortfolioInvalidDetail {
+  warnings: ValidationWarning[];
+}
+
+export interface SolarPortfolioLinkDetail extends SolarPortfolioItemDetail {
+  link: PortfolioLink;
+}
+
+export interface SolarPortfolioFilterDetail {
+  tags: string[];
+  query: string;
+  visible: PortfolioItem[];
+}
+
+/** Constellation thumbnails settled so far; `failed` ones gave up after retrying. */
+export interface SolarPortfolioProgressDetail {
+  loaded: number;
+  failed: number;
+  total: number;
+}
+
+/** What recent constellation frames cost, from `frameStats`. */
+export interface SolarPortfolioFrameStats {
+  /** Milliseconds spent updating and drawing each recent frame, oldest first. */
+  durations: number[];
+  /** Frames drawn in the last second. */
+  fps: number;
+}
+
+/**
+ * Events dispatched by `<solar-portfolio>`. All of them bubble and are
+ * composed, so they can be observed from outside any enclosing shadow root.
+ */
+export interface SolarPortfolioEventMap {
+  /** Items were loaded and rendered. */
+  load: CustomEvent<SolarPortfolioLoadDetail>;
+  /** Loading the portfolio data failed. */
+  error: CustomEvent<SolarPortfolioErrorDetail>;
+  /** The data had problems; they were repaired unless `strict` is set. */
+  invalid: CustomEvent<SolarPortfolioInvalidDetail>;
+  /** A visitor clicked or activated an item in the grid or the scene. */
+  select: CustomEvent<SolarPortfolioItemDetail>;
+  /** A card was opened, or the open card switched to another item. */
+  open: CustomEvent<SolarPortfolioItemDetail>;
+  /** The open card was closed. */
+  close: CustomEvent<SolarPortfolioItemDetail>;
+  /** A constellation thumbnail finished loading or gave up. */
+  progress: CustomEvent<SolarPortfolioProgressDetail>;
+  /** The tag selection or search query changed. */
+  filterchange: CustomEvent<SolarPortfolioFilterDetail>;
+  /**
+   * A link in the card was clicked. Cancelable: call `preventDefault()` to
+   * stop the navigation and route the link yourself.
+   */
+  linkclick: CustomEvent<SolarPortfolioLinkDetail>;
+}
+
 // ─── Styles (inlined in Shadow DOM) ──────────────────────────────────────────
 
-const COMPONENT_STYLES = `
-  :host {
-    display: block;
-    position: relative;
-    font-family: 'Georgia', 'Times New Roman', serif;
-    --accent: #8C52FF;
+const DEFAULT_ACCENT = "#8C52FF";
+
+/**
+ * Design tokens. Every color, radius and font in the component reads one of
+ * these, so a page can restyle it by setting them on the element; the
+ * constellation scene reads the color tokens too (see `readSceneColors`).
+ */
+const DARK_TOKENS = `--accent: ${DEFAULT_ACCENT};
+    --on-accent: #fff;
     --bg: #0a0a0a;
     --fg: #f2f2f2;
     --muted: #888;
     --card-bg: #1a1a1a;
     --border: #333;
+    --surface: rgba(0,0,0,0.6);
+    --surface-hover: rgba(0,0,0,0.9);
+    --overlay: rgba(0,0,0,0.8);
+    --shadow: 0 20px 60px rgba(0,0,0,0.5);
+    --media-bg: #000;
+    --caption-fg: #fff;
+    --caption-bg: rgba(0,0,0,0.75);
+    --star: #fff;
+    --edge: #fff;
+    --placeholder: #2a2a2a;
+    --fallback-tint: var(--accent);
+    --radius: 12px;
+    --radius-card: 16px;
+    --radius-pill: 999px;
+    --font: 'Georgia', 'Times New Roman', serif;
+    --font-ui: system-ui, sans-serif;`;
+
+/** Overrides applied by `theme="light"` (and `theme="auto"` in light mode). */
+const LIGHT_TOKENS = `--bg: #f7f7f5;
+    --fg: #1a1a1a;
+    --muted: #666;
+    --card-bg: #fff;
+    --border: #ddd;
+    --surface: rgba(255,255,255,0.75);
+    --surface-hover: rgba(255,255,255,0.95);
+    --overlay: rgba(247,247,245,0.8);
+    --shadow: 0 20px 60px rgba(0,0,0,0.15);
+    --media-bg: #e5e5e5;
+    --caption-fg: #1a1a1a;
+    --caption-bg: rgba(255,255,255,0.85);
+    --star: #1a1a1a;
+    --edge: #1a1a1a;
+    --placeholder: #e0e0e0;`;
+
+const COMPONENT_STYLES = `
+  :host {
+    display: block;
+    position: relative;
+    font-family: var(--font);
+    color-scheme: dark;
+    ${DARK_TOKENS}
+  }
+
+  :host([theme="light"]) {
+    color-scheme: light;
+    ${LIGHT_TOKENS}
+  }
+
+  @media (prefers-color-scheme: light) {
+    :host([theme="auto"]) {
+      color-scheme: light;
+      ${LIGHT_TOKENS}
+    }
   }
 
   .container {
@@ -55,7 +259,7 @@ const COMPONENT_STYLES = `
     width: 100%;
     aspect-ratio: 16/9;
     object-fit: cover;
-    border-radius: 12px;
+    border-radius: var(--radius);
   }
 
   .loading {
@@ -88,7 +292,7 @@ const COMPONENT_STYLES = `
     width: 100%;
     aspect-ratio: 16/9;
     min-height: 400px;
-    border-radius: 12px;
+    border-radius: var(--radius);
     overflow: hidden;
     background: var(--bg);
   }
@@ -99,6 +303,33 @@ const COMPONENT_STYLES = `
     height: 100% !important;
   }
 
+  /* Poster or spinner kept over the scene until its first thumbnails arrive */
+  .scene-loading {
+    position: absolute;
+    inset: 0;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    background: var(--bg);
+    transition: opacity 0.4s ease;
+  }
+
+  .scene-loading .poster {
+    height: 100%;
+    border-radius: 0;
+  }
+
+  .scene-loading .loading {
+    position: absolute;
+    min-height: 0;
+    bottom: 12px;
+  }
+
+  .scene-loading.ready {
+    opacity: 0;
+    pointer-events: none;
+  }
+
   .hint {
     position: absolute;
     bottom: 12px;
@@ -106,10 +337,10 @@ const COMPONENT_STYLES = `
     transform: translateX(-50%);
     font-size: 0.7rem;
     color: var(--muted);
-    background: rgba(0,0,0,0.6);
+    background: var(--surface);
     backdrop-filter: blur(8px);
     padding: 6px 16px;
-    border-radius: 999px;
+    border-radius: var(--radius-pill);
     white-space: nowrap;
     pointer-events: none;
   }
@@ -124,11 +355,17 @@ const COMPONENT_STYLES = `
 
   .label {
     position: absolute;
+    left: 0;
+    top: 0;
     font-size: 10px;
     color: var(--fg);
     opacity: 0.7;
     white-space: nowrap;
+    max-width: 14em;
+    overflow: hidden;
+    text-overflow: ellipsis;
     transform: translate(-50%, -50%);
+    will-change: transform;
     transition: opacity 0.2s;
     pointer-events: auto;
     cursor: pointer;
@@ -143,8 +380,117 @@ const COMPONENT_STYLES = `
     color: var(--accent);
   }
 
+  .label.filtered-out {
+    pointer-events: none;
+  }
+
+  .label.selected {
+    color: var(--accent);
+  }
+
+  .label.hovered {
+    opacity: 1 !important;
+    filter: none !important;
+    color: var(--accent);
+  }
+
+  .label.crowded {
+    opacity: 0 !important;
+    pointer-events: none;
+  }
+
+  .label.hovered,
+  .label:focus-visible {
+    max-width: none;
+    z-index: 1;
+  }
+
+  .label:focus-visible {
+    opacity: 1 !important;
+    filter: none !important;
+    color: var(--accent);
+    outline: 1px solid var(--accent);
+    border-radius: 4px;
+  }
+
+  /* ── Toolbar: search + filter bar ── */
+  .toolbar {
+    display: flex;
+    flex-wrap: wrap;
+    align-items: center;
+    gap: 12px;
+    padding: 0 0 12px;
+  }
+
+  .search-input {
+    flex: 0 1 240px;
+    min-width: 160px;
+    font-size: 0.8rem;
+    padding: 6px 12px;
+    border-radius: var(--radius-pill);
+    border: 1px solid var(--border);
+    background: var(--card-bg);
+    color: var(--fg);
+    font-family: var(--font-ui);
+  }
+
+  .search-input:focus-visible {
+    border-color: var(--accent);
+    outline: none;
+  }
+
+  mark.search-hit {
+    background: none;
+    color: var(--accent);
+    text-decoration: underline;
+    text-underline-offset: 2px;
+  }
+
+  .filter-bar {
+    display: flex;
+    flex-wrap: wrap;
+    align-items: center;
+    gap: 6px;
+  }
+
+  .filter-chip {
+    font-size: 0.7rem;
+    padding: 4px 10px;
+    border-radius: var(--radius-pill);
+    border: 1px solid var(--border);
+    color: var(--fg);
+    background: transparent;
+    font-family: var(--font-ui);
+    cursor: pointer;
+    transition: border-color 0.15s, background 0.15s;
+  }
+
+  .filter-chip:hover, .filter-chip:focus-visible {
+    border-color: var(--accent);
+    outline: none;
+  }
+
+  .filter-chip[aria-pressed="true"] {
+    background: var(--accent);
+    border-color: var(--accent);
+    color: var(--on-accent);
+  }
+
+  .filter-clear {
+    border-style: dashed;
+    color: var(--muted);
+  }
+
+  .result-count {
+    font-size: 0.7rem;
+    color: var(--muted);
+    margin-left: auto;
+    font-family: var(--font-ui);
+  }
+
   /* ── Static Grid ── */
   .grid {
+    position: relative;
     display: grid;
     grid-template-columns: repeat(auto-fill, minmax(280px, 1fr));
     gap: 20px;
@@ -154,7 +500,7 @@ const COMPONENT_STYLES = `
   .grid-item {
     background: var(--card-bg);
     border: 1px solid var(--border);
-    border-radius: 12px;
+    border-radius: var(--radius);
     overflow: hidden;
     cursor: pointer;
     transition: transform 0.2s, border-color 0.2s;
@@ -192,11 +538,11 @@ const COMPONENT_STYLES = `
   .tag {
     font-size: 0.65rem;
     padding: 2px 8px;
-    border-radius: 999px;
+    border-radius: var(--radius-pill);
     border: 1px solid var(--accent);
     color: var(--accent);
     background: transparent;
-    font-family: system-ui, sans-serif;
+    font-family: var(--font-ui);
   }
 
   /* ── Overlay Card ── */
@@ -207,29 +553,31 @@ const COMPONENT_STYLES = `
     display: flex;
     align-items: center;
     justify-content: center;
-    background: rgba(0,0,0,0.8);
+    background: var(--overlay);
     backdrop-filter: blur(6px);
     padding: 24px;
     opacity: 0;
+    visibility: hidden;
     pointer-events: none;
-    transition: opacity 0.25s;
+    transition: opacity 0.25s, visibility 0.25s;
   }
 
   .overlay.active {
     opacity: 1;
+    visibility: visible;
     pointer-events: auto;
   }
 
   .card {
     background: var(--card-bg);
     border: 1px solid var(--border);
-    border-radius: 16px;
+    border-radius: var(--radius-card);
     max-width: 720px;
     width: 100%;
     display: flex;
     flex-direction: row;
     overflow: hidden;
-    box-shadow: 0 20px 60px rgba(0,0,0,0.5);
+    box-shadow: var(--shadow);
     position: relative;
   }
 
@@ -237,14 +585,98 @@ const COMPONENT_STYLES = `
     .card { flex-direction: column; }
   }
 
-  .card img {
+  /* ── Media carousel ── */
+  .media {
+    position: relative;
     width: 50%;
+    flex-shrink: 0;
+    overflow: hidden;
+    touch-action: pan-y;
+  }
+
+  @media (max-width: 640px) {
+    .media { width: 100%; aspect-ratio: 16/10; }
+  }
+
+  .media:focus-visible {
+    outline: 2px solid var(--accent);
+    outline-offset: -2px;
+  }
+
+  .slide {
+    position: absolute;
+    inset: 0;
+    margin: 0;
+  }
+
+  .slide[hidden] {
+    display: none;
+  }
+
+  .slide img, .slide video {
+    width: 100%;
+    height: 100%;
     object-fit: cover;
     display: block;
+    background: var(--media-bg);
   }
 
-  @media (max-width: 640px) {
-    .card img { width: 100%; aspect-ratio: 16/10; }
+  .slide figcaption {
+    position: absolute;
+    left: 0;
+    right: 0;
+    bottom: 0;
+    padding: 24px 12px 10px;
+    font-size: 0.7rem;
+    color: var(--caption-fg);
+    background: linear-gradient(transparent, var(--caption-bg));
+    font-family: var(--font-ui);
+    pointer-events: none;
+  }
+
+  .media-nav {
+    position: absolute;
+    top: 50%;
+    transform: translateY(-50%);
+    width: 28px;
+    height: 28px;
+    border-radius: 50%;
+    border: 1px solid var(--border);
+    background: var(--surface);
+    color: var(--fg);
+    cursor: pointer;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    z-index: 2;
+  }
+
+  .media-prev { left: 8px; }
+  .media-next { right: 8px; }
+
+  .media-dots {
+    position: absolute;
+    top: 10px;
+    left: 50%;
+    transform: translateX(-50%);
+    display: flex;
+    gap: 6px;
+    z-index: 2;
+  }
+
+  .media-dot {
+    width: 8px;
+    height: 8px;
+    padding: 0;
+    border-radius: 50%;
+    border: 1px solid var(--fg);
+    background: transparent;
+    cursor: pointer;
+  }
+
+  .media-dot[aria-current="true"] {
+    background: var(--accent);
+    border-color: var(--accent);
   }
 
   .card-body {
@@ -261,13 +693,68 @@ const COMPONENT_STYLES = `
     padding-right: 32px;
   }
 
-  .card-body p {
+  .card-body .description {
     font-size: 0.85rem;
     line-height: 1.6;
     color: var(--muted);
     margin: 0 0 16px;
   }
 
+  .description p, .description ul, .description ol, .description blockquote {
+    margin: 0 0 10px;
+  }
+
+  .description > :last-child {
+    margin-bottom: 0;
+  }
+
+  .description ul, .description ol {
+    padding-left: 20px;
+  }
+
+  .description a {
+    color: var(--accent);
+  }
+
+  .description strong, .description b {
+    color: var(--fg);
+  }
+
+  .card-links {
+    display: flex;
+    flex-wrap: wrap;
+    gap: 8px;
+    margin: 0 0 16px;
+  }
+
+  .link-btn {
+    display: inline-flex;
+    align-items: center;
+    font-size: 0.75rem;
+    padding: 6px 14px;
+    border-radius: var(--radius-pill);
+    border: 1px solid var(--accent);
+    color: var(--accent);
+    text-decoration: none;
+    font-family: var(--font-ui);
+    transition: background 0.15s, color 0.15s;
+  }
+
+  .link-btn.primary, .link-btn:hover, .link-btn:focus-visible {
+    background: var(--accent);
+    color: var(--on-accent);
+    outline: none;
+  }
+
+  .visually-hidden {
+    position: absolute;
+    width: 1px;
+    height: 1px;
+    overflow: hidden;
+    clip: rect(0 0 0 0);
+    white-space: nowrap;
+  }
+
   .card-body .tags {
     display: flex;
     flex-wrap: wrap;
@@ -279,7 +766,7 @@ const COMPONENT_STYLES = `
 
   .close-btn, .nav-btn {
     position: absolute;
-    background: rgba(0,0,0,0.6);
+    background: var(--surface);
     border: 1px solid var(--border);
     color: var(--fg);
     cursor: pointer;
@@ -295,7 +782,7 @@ const COMPONENT_STYLES = `
   }
 
   .close-btn:hover, .nav-btn:hover {
-    background: rgba(0,0,0,0.9);
+    background: var(--surface-hover);
   }
 
   .close-btn { top: 12px; right: 12px; }
@@ -316,405 +803,4115 @@ const COMPONENT_STYLES = `
     color: var(--muted);
   }
 
+  .retry-btn {
+    display: block;
+    margin: 8px auto 0;
+    font-size: 0.7rem;
+    padding: 4px 12px;
+    border-radius: var(--radius-pill);
+    border: 1px solid var(--border);
+    color: var(--fg);
+    background: transparent;
+    font-family: var(--font-ui);
+    cursor: pointer;
+  }
+
+  .retry-btn:hover, .retry-btn:focus-visible {
+    border-color: var(--accent);
+    outline: none;
+  }
+
+  .validation-errors ul {
+    display: inline-block;
+    text-align: left;
+    margin: 8px 0 0;
+    padding-left: 18px;
+  }
+
   /* ── Reduced-motion grid wrapper ── */
   .grid-wrap {
     position: relative;
   }
 `;
 
+// ─── Safe Templating ─────────────────────────────────────────────────────────
+
+/** Markup that is known to be safe and is inserted verbatim by `html`. */
+class SafeHtml {
+  constructor(readonly value: string) {}
+  toString() {
+    return this.value;
+  }
+}
+
+function trustedHtml(markup: string): SafeHtml {
+  return new SafeHtml(markup);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Template tag that HTML-escapes every interpolated value, except nested
+ * `html` results and `trustedHtml` constants. Arrays are joined, so
+ * `${tags.map((t) => html`<li>${t}</li>`)}` works as expected.
+ */
+function html(strings: TemplateStringsArray, ...values: unknown[]): SafeHtml {
+  const part = (value: unknown): string => {
+    if (value instanceof SafeHtml) return value.value;
+    if (Array.isArray(value)) return value.map(part).join("");
+    if (value === null || value === undefined || value === false) return "";
+    return escapeHtml(String(value));
+  };
+  let out = strings[0];
+  values.forEach((value, i) => {
+    out += part(value) + strings[i + 1];
+  });
+  return new SafeHtml(out);
+}
+
+function setHtml(el: Element, content: SafeHtml) {
+  el.innerHTML = content.value;
+}
+
+/** Card call-to-action; `index` lets click handlers find the link again. */
+function linkButton(link: PortfolioLink, index: number): SafeHtml {
+  const primary = link.kind === "case-study" ? " primary" : "";
+  const part = `button link-button${primary}`;
+  if (!opensInNewTab(link.href)) {
+    return html`<a class="link-btn${primary}" part="${part}" href="${link.href}" data-link="${index}">${link.label}</a>`;
+  }
+  return html`<a class="link-btn${primary}" part="${part}" href="${link.href}" data-link="${index}" target="_blank" rel="noopener noreferrer">${link.label}<span class="visually-hidden"> (opens in a new tab)</span></a>`;
+}
+
+/** Links leaving the page's origin open in a new tab; mailto: stays put. */
+function opensInNewTab(href: string): boolean {
+  try {
+    const url = new URL(href, document.baseURI);
+    return /^https?:$/.test(url.protocol) && url.origin !== location.origin;
+  } catch {
+    return false;
+  }
+}
+
 // ─── SVG Icons (inline, no dependencies) ─────────────────────────────────────
 
-const ICON_CLOSE = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>`;
-const ICON_LEFT = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><polyline points="15 18 9 12 15 6"/></svg>`;
-const ICON_RIGHT = `<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><polyline points="9 6 15 12 9 18"/></svg>`;
+const ICON_CLOSE = trustedHtml(`<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>`);
+const ICON_LEFT = trustedHtml(`<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><polyline points="15 18 9 12 15 6"/></svg>`);
+const ICON_RIGHT = trustedHtml(`<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><polyline points="9 6 15 12 9 18"/></svg>`);
 
 // ─── Utilities ───────────────────────────────────────────────────────────────
 
+let webGLAvailable: boolean | null = null;
+
+/** Probed once per page; each probe would otherwise cost a WebGL context. */
 function isWebGLAvailable(): boolean {
+  if (webGLAvailable !== null) return webGLAvailable;
   try {
     const canvas = document.createElement("canvas");
-    return !!(
-      window.WebGLRenderingContext &&
-      (canvas.getContext("webgl") || canvas.getContext("experimental-webgl"))
-    );
+    const gl = window.WebGLRenderingContext
+      ? ((canvas.getContext("webgl") || canvas.getContext("experimental-webgl")) as WebGLRenderingContext | null)
+      : null;
+    webGLAvailable = !!gl;
+    // Hand the probe's context back rather than waiting for garbage collection
+    gl?.getExtension("WEBGL_lose_context")?.loseContext();
   } catch {
-    return false;
+    webGLAvailable = false;
   }
+  return webGLAvailable;
 }
 
 function prefersReducedMotion(): boolean {
   return window.matchMedia("(prefers-reduced-motion: reduce)").matches;
 }
 
-// ─── Constellation Scene (Vanilla Three.js) ──────────────────────────────────
+/** FNV-1a string hash, used to seed deterministic per-item randomness. */
+function hashString(str: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
 
-class ConstellationScene {
-  private renderer: THREE.WebGLRenderer;
-  private scene: THREE.Scene;
-  private camera: THREE.PerspectiveCamera;
-  private controls: OrbitControls;
-  private raycaster = new THREE.Raycaster();
+/** Small seeded PRNG (mulberry32) returning floats in [0, 1). */
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// ─── Rich-Text Descriptions ──────────────────────────────────────────────────
+
+export type DescriptionFormat = "text" | "markdown" | "html";
+
+const DESCRIPTION_FORMATS: DescriptionFormat[] = ["text", "markdown", "html"];
+
+// Elements kept by the HTML sanitizer; anything else is unwrapped to its text
+const ALLOWED_TAGS = new Set([
+  "p", "br", "strong", "b", "em", "i", "u", "code", "ul", "ol", "li", "a", "blockquote",
+]);
+
+// Elements dropped together with their content
+const DROPPED_TAGS = new Set([
+  "script", "style", "template", "iframe", "object", "embed", "svg", "math", "noscript",
+]);
+
+const LINK_PROTOCOLS = ["http:", "https:", "mailto:"];
+
+function createLink(href: string): HTMLAnchorElement | null {
+  try {
+    const url = new URL(href, document.baseURI);
+    if (!LINK_PROTOCOLS.includes(url.protocol)) return null;
+    const a = document.createElement("a");
+    a.href = url.href;
+    a.target = "_blank";
+    a.rel = "noopener noreferrer";
+    return a;
+  } catch {
+    return null;
+  }
+}
+
+/** Appends inline Markdown (**strong**, *em* / _em_, `code`, [links](url)). */
+function appendInlineMarkdown(parent: Node, text: string) {
+  // Link URLs may hold one level of balanced parentheses, as Wikipedia's do
+  const pattern =
+    /\*\*(.+?)\*\*|\*(.+?)\*|\b_(.+?)_\b|`(.+?)`|\[([^\]]+)\]\(((?:[^()\s]|\([^()\s]*\))+)\)/g;
+  let last = 0;
+  for (const m of text.matchAll(pattern)) {
+    const start = m.index ?? 0;
+    parent.appendChild(document.createTextNode(text.slice(last, start)));
+    last = start + m[0].length;
+
+    if (m[1] !== undefined || m[2] !== undefined || m[3] !== undefined) {
+      const el = document.createElement(m[1] !== undefined ? "strong" : "em");
+      appendInlineMarkdown(el, m[1] ?? m[2] ?? m[3]);
+      parent.appendChild(el);
+    } else if (m[4] !== undefined) {
+      const code = document.createElement("code");
+      code.textContent = m[4];
+      parent.appendChild(code);
+    } else {
+      const a = createLink(m[6]);
+      if (a) {
+        appendInlineMarkdown(a, m[5]);
+        parent.appendChild(a);
+      } else {
+        appendInlineMarkdown(parent, m[5]);
+      }
+    }
+  }
+  parent.appendChild(document.createTextNode(text.slice(last)));
+}
+
+/**
+ * A deliberately small Markdown subset: paragraphs, line breaks, bullet and
+ * numbered lists, and the inline forms above. Output is built as DOM nodes,
+ * never as markup, so nothing in the source can inject HTML.
+ */
+function renderMarkdown(src: string): DocumentFragment {
+  const frag = document.createDocumentFragment();
+  src
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .forEach((block) => {
+      const lines = block.split("\n");
+      const bullet = /^\s*[-*+]\s+/;
+      const numbered = /^\s*\d+[.)]\s+/;
+      const listType = lines.every((l) => bullet.test(l))
+        ? "ul"
+        : lines.every((l) => numbered.test(l))
+          ? "ol"
+          : null;
+
+      if (listType) {
+        const list = document.createElement(listType);
+        lines.forEach((line) => {
+          const li = document.createElement("li");
+          appendInlineMarkdown(li, line.replace(listType === "ul" ? bullet : numbered, ""));
+          list.appendChild(li);
+        });
+        frag.appendChild(list);
+        return;
+      }
+
+      const p = document.createElement("p");
+      lines.forEach((line, i) => {
+        if (i > 0) p.appendChild(document.createElement("br"));
+        appendInlineMarkdown(p, line.trim());
+      });
+      frag.appendChild(p);
+    });
+  return frag;
+}
+
+/**
+ * Copies an allowlisted subset of HTML into fresh elements. Attributes are
+ * never copied, except a vetted `href` on links.
+ */
+function sanitizeHtml(src: string): DocumentFragment {
+  // DOMParser documents are inert: no scripts run and no resources load
+  const doc = new DOMParser().parseFromString(src, "text/html");
+  const frag = document.createDocumentFragment();
+
+  const copy = (from: Node, to: Node) => {
+    from.childNodes.forEach((node) => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        to.appendChild(document.createTextNode(node.textContent || ""));
+        return;
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE) return;
+      const source = node as Element;
+      const tag = source.localName;
+      if (DROPPED_TAGS.has(tag)) return;
+      if (!ALLOWED_TAGS.has(tag)) {
+        copy(source, to);
+        return;
+      }
+      const el =
+        tag === "a"
+          ? createLink(source.getAttribute("href") || "") ?? document.createElement("span")
+          : document.createElement(tag);
+      copy(source, el);
+      to.appendChild(el);
+    });
+  };
+
+  copy(doc.body, frag);
+  return frag;
+}
+
+/** Renders a description in the given format as safe DOM nodes. */
+function renderDescription(text: string, format: DescriptionFormat): DocumentFragment {
+  if (format === "markdown") return renderMarkdown(text);
+  if (format === "html") return sanitizeHtml(text);
+  const frag = document.createDocumentFragment();
+  const p = document.createElement("p");
+  p.textContent = text;
+  frag.appendChild(p);
+  return frag;
+}
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+const SCHEMA_VERSION = 1;
+
+const IMAGE_PROTOCOLS = ["http:", "https:", "data:", "blob:"];
+
+function isSafeUrl(value: string, protocols: string[]): boolean {
+  try {
+    return protocols.includes(new URL(value, document.baseURI).protocol);
+  } catch {
+    return false;
+  }
+}
+
+// Fields the schema defines; everything else on an item is passed through
+const ITEM_FIELDS = new Set([
+  "id", "title", "description", "image", "thumb", "tags", "url", "links", "media", "featured",
+]);
+
+const LINK_LABELS: Record<string, string> = {
+  website: "Visit website",
+  press: "Read press coverage",
+  video: "Watch video",
+};
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+interface NormalizedData {
+  items: PortfolioItem[];
+  descriptionFormat: DescriptionFormat;
+  warnings: ValidationWarning[];
+}
+
+/**
+ * Turns untrusted input (either `portfolio.json` shape or a bare array of
+ * items) into clean items: strings trimmed, missing fields defaulted, unsafe
+ * URLs dropped and duplicate ids removed. Everything repaired is reported.
+ */
+function normalizePortfolioData(data: unknown): NormalizedData {
+  const warnings: ValidationWarning[] = [];
+  let rawItems: unknown = data;
+  let descriptionFormat: DescriptionFormat = "text";
+
+  if (!Array.isArray(data)) {
+    if (!data || typeof data !== "object") {
+      warnings.push({ code: "invalid-root", message: "Data is not an object or array." });
+      return { items: [], descriptionFormat, warnings };
+    }
+    const { version, items, descriptionFormat: format } = data as Partial<PortfolioData>;
+    if (version !== undefined && (typeof version !== "number" || version > SCHEMA_VERSION)) {
+      warnings.push({
+        code: "unsupported-version",
+        message: `Schema version ${String(version)} is not supported; reading it as version ${SCHEMA_VERSION}.`,
+      });
+    }
+    if (format !== undefined) {
+      if (DESCRIPTION_FORMATS.includes(format)) {
+        descriptionFormat = format;
+      } else {
+        warnings.push({
+          code: "invalid-type",
+          message: `Unknown descriptionFormat "${String(format)}"; using plain text.`,
+          field: "descriptionFormat",
+        });
+      }
+    }
+    if (!Array.isArray(items)) {
+      warnings.push({ code: "invalid-root", message: "Data has no `items` array." });
+      return { items: [], descriptionFormat, warnings };
+    }
+    rawItems = items;
+  }
+
+  const seen = new Set<string>();
+  const items: PortfolioItem[] = [];
+
+  (rawItems as unknown[]).forEach((raw, index) => {
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      warnings.push({ code: "invalid-item", message: `Item ${index} is not an object; skipped.`, index });
+      return;
+    }
+    const source = raw as Record<string, unknown>;
+
+    const text = (field: string): string => {
+      const value = source[field];
+      if (value === undefined || value === null) return "";
+      if (typeof value === "string") return value.trim();
+      if (typeof value === "number") return String(value);
+      warnings.push({
+        code: "invalid-type",
+        message: `Item ${index}: \`${field}\` should be a string.`,
+        index,
+        field,
+      });
+      return "";
+    };
+
+    const url = (field: "image" | "thumb" | "url", protocols: string[]): string => {
+      const value = text(field);
+      if (!value || isSafeUrl(value, protocols)) return value;
+      warnings.push({
+        code: "invalid-url",
+        message: `Item ${index}: \`${field}\` is not an allowed URL; ignored.`,
+        index,
+        field,
+      });
+      return "";
+    };
+
+    let title = text("title");
+    let id = text("id");
+    if (!title) {
+      warnings.push({ code: "missing-field", message: `Item ${index} has no title.`, index, field: "title" });
+      title = id || "Untitled project";
+    }
+    if (!id) {
+      id = slugify(title) || `item-${index}`;
+      warnings.push({
+        code: "missing-field",
+        message: `Item ${index} has no id; using "${id}".`,
+        index,
+        field: "id",
+      });
+    }
+    if (seen.has(id)) {
+      warnings.push({
+        code: "duplicate-id",
+        message: `Item ${index} repeats id "${id}"; skipped.`,
+        index,
+        field: "id",
+      });
+      return;
+    }
+    seen.add(id);
+
+    let tags: string[] = [];
+    if (Array.isArray(source.tags)) {
+      tags = source.tags
+        .filter((t): t is string => typeof t === "string")
+        .map((t) => t.trim())
+        .filter((t, i, all) => t && all.indexOf(t) === i);
+    } else if (source.tags !== undefined) {
+      warnings.push({
+        code: "invalid-type",
+        message: `Item ${index}: \`tags\` should be an array of strings.`,
+        index,
+        field: "tags",
+      });
+    }
+
+    const links: PortfolioLink[] = [];
+    if (Array.isArray(source.links)) {
+      source.links.forEach((raw, k) => {
+        const link = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+        const href = typeof link.href === "string" ? link.href.trim() : "";
+        if (!href || !isSafeUrl(href, LINK_PROTOCOLS)) {
+          warnings.push({
+            code: "invalid-url",
+            message: `Item ${index}: link ${k} has no allowed \`href\`; ignored.`,
+            index,
+            field: "links",
+          });
+          return;
+        }
+        const kind = typeof link.kind === "string" ? link.kind.trim() : "";
+        const label = typeof link.label === "string" ? link.label.trim() : "";
+        links.push({
+          label: label || LINK_LABELS[kind] || "Open link",
+          href,
+          ...(kind && { kind }),
+        });
+      });
+    } else if (source.links !== undefined) {
+      warnings.push({
+        code: "invalid-type",
+        message: `Item ${index}: \`links\` should be an array.`,
+        index,
+        field: "links",
+      });
+    }
+
+    const media: PortfolioMedia[] = [];
+    if (Array.isArray(source.media)) {
+      source.media.forEach((raw, k) => {
+        const entry = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+        const str = (key: string) => (typeof entry[key] === "string" ? (entry[key] as string).trim() : "");
+        const src = str("src");
+        if (!src || !isSafeUrl(src, IMAGE_PROTOCOLS)) {
+          warnings.push({
+            code: "invalid-url",
+            message: `Item ${index}: media ${k} has no allowed \`src\`; ignored.`,
+            index,
+            field: "media",
+          });
+          return;
+        }
+        const type =
+          entry.type === "video" || entry.type === "image"
+            ? entry.type
+            : /\.(mp4|webm|ogv|mov)(\?|#|$)/i.test(src)
+              ? "video"
+              : "image";
+        const poster = str("poster");
+        media.push({
+          type,
+          src,
+          alt: str("alt"),
+          caption: str("caption"),
+          poster: poster && isSafeUrl(poster, IMAGE_PROTOCOLS) ? poster : "",
+        });
+      });
+    } else if (source.media !== undefined) {
+      warnings.push({
+        code: "invalid-type",
+        message: `Item ${index}: \`media\` should be an array.`,
+        index,
+        field: "media",
+      });
+    }
+
+    if (source.featured !== undefined && typeof source.featured !== "boolean") {
+      warnings.push({
+        code: "invalid-type",
+        message: `Item ${index}: \`featured\` should be true or false.`,
+        index,
+        field: "featured",
+      });
+    }
+
+    const thumb = url("thumb", IMAGE_PROTOCOLS);
+    const custom = Object.fromEntries(
+      Object.entries(source).filter(([key]) => !ITEM_FIELDS.has(key))
+    );
+
+    items.push({
+      ...custom,
+      id,
+      title,
+      description: text("description"),
+      image: url("image", IMAGE_PROTOCOLS),
+      ...(thumb && { thumb }),
+      tags,
+      url: url("url", LINK_PROTOCOLS),
+      links,
+      media,
+      ...(source.featured === true && { featured: true }),
+    });
+  });
+
+  return { items, descriptionFormat, warnings };
+}
+
+// ─── Data Cache ──────────────────────────────────────────────────────────────
+
+/** Parsed `data-json` plus the validators needed to revalidate it. */
+interface CachedData {
+  data: unknown;
+  etag: string | null;
+  lastModified: string | null;
+}
+
+interface DataOptions {
+  /** Keep the last good copy in the Cache API for returning visitors. */
+  persist: boolean;
+  /** Milliseconds before a request is abandoned. */
+  timeout: number;
+}
+
+const DATA_CACHE_NAME = "solar-portfolio-data";
+const DEFAULT_DATA_TIMEOUT = 15000;
+
+// Shortest polling interval `refresh` accepts
+const MIN_REFRESH_SECONDS = 5;
+
+// One entry per absolute URL, shared by every instance on the page. Failed
+// requests are not kept, so retrying fetches again.
+const dataCache = new Map<string, Promise<CachedData>>();
+const dataListeners = new Map<string, Set<(data: unknown) => void>>();
+
+function dataKey(url: string): string {
+  return new URL(url, document.baseURI).href;
+}
+
+async function fetchData(
+  url: string,
+  timeout: number,
+  previous: CachedData | null = null
+): Promise<CachedData | null> {
+  const headers: Record<string, string> = {};
+  if (previous?.etag) headers["If-None-Match"] = previous.etag;
+  if (previous?.lastModified) headers["If-Modified-Since"] = previous.lastModified;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+  try {
+    const resp = await fetch(url, { headers, signal: controller.signal });
+    // Not modified: the previous copy is still current
+    if (resp.status === 304 && previous) return null;
+    if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+    return {
+      data: await resp.json(),
+      etag: resp.headers.get("ETag"),
+      lastModified: resp.headers.get("Last-Modified"),
+    };
+  } catch (err) {
+    if (controller.signal.aborted) throw new Error(`Timed out after ${timeout} ms`);
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** The last good copy from the Cache API, if persistence is available. */
+async function readPersisted(key: string): Promise<CachedData | null> {
+  if (typeof caches === "undefined") return null;
+  try {
+    const resp = await (await caches.open(DATA_CACHE_NAME)).match(key);
+    if (!resp) return null;
+    return {
+      data: await resp.json(),
+      etag: resp.headers.get("ETag"),
+      lastModified: resp.headers.get("Last-Modified"),
+    };
+  } catch (err) {
+    console.warn("[solar-portfolio] Could not read cached data:", err);
+    return null;
+  }
+}
+
+async function writePersisted(key: string, entry: CachedData) {
+  if (typeof caches === "undefined") return;
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (entry.etag) headers.ETag = entry.etag;
+  if (entry.lastModified) headers["Last-Modified"] = entry.lastModified;
+  try {
+    const cache = await caches.open(DATA_CACHE_NAME);
+    await cache.put(key, new Response(JSON.stringify(entry.data), { headers }));
+  } catch (err) {
+    console.warn("[solar-portfolio] Could not cache data:", err);
+  }
+}
+
+/**
+ * Asks the server whether a cached copy is still current. A newer copy
+ * replaces it and is handed to every instance showing that URL.
+ */
+async function revalidateData(key: string, previous: CachedData, options: DataOptions) {
+  const fresh = await fetchData(key, options.timeout, previous);
+  if (!fresh) return;
+  dataCache.set(key, Promise.resolve(fresh));
+  if (options.persist) await writePersisted(key, fresh);
+  if (JSON.stringify(fresh.data) === JSON.stringify(previous.data)) return;
+  dataListeners.get(key)?.forEach((listener) => listener(fresh.data));
+}
+
+function warnRevalidate(err: unknown) {
+  console.warn("[solar-portfolio] Could not revalidate cached data:", err);
+}
+
+/**
+ * Loads `data-json` once per page. With `persist`, a copy saved by an earlier
+ * visit is returned straight away and revalidated in the background.
+ * `revalidate` checks an in-memory copy with the server first. The request is
+ * keyed by URL alone, so whichever caller starts it picks `persist` and
+ * `timeout` for everyone sharing it.
+ */
+async function loadData(url: string, options: DataOptions, revalidate = false): Promise<unknown> {
+  const key = dataKey(url);
+  let entry = dataCache.get(key);
+  if (entry && revalidate) {
+    const previous = await entry.catch(() => null);
+    if (previous) {
+      await revalidateData(key, previous, options).catch(warnRevalidate);
+    }
+    entry = dataCache.get(key);
+  }
+  if (!entry) {
+    entry = (options.persist ? readPersisted(key) : Promise.resolve(null)).then(async (stored) => {
+      if (stored) {
+        revalidateData(key, stored, options).catch(warnRevalidate);
+        return stored;
+      }
+      const fresh = (await fetchData(key, options.timeout))!;
+      if (options.persist) await writePersisted(key, fresh);
+      return fresh;
+    });
+    dataCache.set(key, entry);
+    entry.catch(() => {
+      if (dataCache.get(key) === entry) dataCache.delete(key);
+    });
+  }
+  return (await entry).data;
+}
+
+/** Calls `listener` with newer data for a URL found by revalidation. */
+function onDataChange(url: string, listener: (data: unknown) => void): () => void {
+  const key = dataKey(url);
+  let listeners = dataListeners.get(key);
+  if (!listeners) dataListeners.set(key, (listeners = new Set()));
+  listeners.add(listener);
+  return () => listeners!.delete(listener);
+}
+
+// ─── Layout ──────────────────────────────────────────────────────────────────
+
+type LayoutMode = "clusters" | "sphere" | "spiral";
+
+const LAYOUT_MODES: LayoutMode[] = ["clusters", "sphere", "spiral"];
+
+// Half-extents of the volume the original hand-placed layout occupied
+const LAYOUT_EXTENT = new THREE.Vector3(2.0, 1.0, 1.5);
+const MIN_ITEM_DISTANCE = 0.9;
+const MAX_EDGES_PER_ITEM = 4;
+
+/**
+ * Computes a base position for every item. Output depends only on the items
+ * (ids, tags, order), so the same portfolio always produces the same scene.
+ */
+function computeLayout(items: PortfolioItem[], mode: LayoutMode): THREE.Vector3[] {
+  if (items.length === 0) return [];
+  const scale = layoutScale(items.length);
+  switch (mode) {
+    case "sphere":
+      return sphereLayout(items, scale);
+    case "spiral":
+      return spiralLayout(items, scale);
+    default:
+      return clusterLayout(items, scale);
+  }
+}
+
+/** Grows the layout volume gently so large portfolios don't pile up. */
+function layoutScale(count: number): number {
+  return 1 + 0.25 * Math.log2(Math.max(1, count / 10));
+}
+
+/**
+ * Groups item indices by their most widely shared tag. Items whose tags are
+ * unique to them end up in singleton groups. Groups are returned largest first.
+ */
+function groupByTags(items: PortfolioItem[]): number[][] {
+  const freq = new Map<string, number>();
+  items.forEach((item) => {
+    new Set(item.tags).forEach((t) => freq.set(t, (freq.get(t) || 0) + 1));
+  });
+
+  const groups = new Map<string, number[]>();
+  items.forEach((item, i) => {
+    let key = `#${item.id}`;
+    let best = 1;
+    [...item.tags].sort().forEach((t) => {
+      const f = freq.get(t) || 0;
+      if (f > best) {
+        best = f;
+        key = t;
+      }
+    });
+    const group = groups.get(key);
+    if (group) group.push(i);
+    else groups.set(key, [i]);
+  });
+
+  return [...groups.values()].sort((a, b) => b.length - a.length || a[0] - b[0]);
+}
+
+/** Evenly distributed points on a unit sphere (golden-angle spiral). */
+function fibonacciSphere(count: number): THREE.Vector3[] {
+  const points: THREE.Vector3[] = [];
+  const golden = Math.PI * (3 - Math.sqrt(5));
+  if (count === 1) return [new THREE.Vector3()];
+  for (let i = 0; i < count; i++) {
+    const y = 1 - (i / (count - 1)) * 2;
+    const r = Math.sqrt(1 - y * y);
+    const theta = golden * i;
+    points.push(new THREE.Vector3(Math.cos(theta) * r, y, Math.sin(theta) * r));
+  }
+  return points;
+}
+
+function clusterLayout(items: PortfolioItem[], scale: number): THREE.Vector3[] {
+  const groups = groupByTags(items);
+  const centers = fibonacciSphere(groups.length).map((p) =>
+    p.multiply(LAYOUT_EXTENT).multiplyScalar(0.8 * scale)
+  );
+  const positions: THREE.Vector3[] = new Array(items.length);
+
+  groups.forEach((members, g) => {
+    const radius = members.length === 1 ? 0 : 0.3 + 0.12 * Math.sqrt(members.length);
+    const offsets = fibonacciSphere(members.length);
+    members.forEach((idx, k) => {
+      positions[idx] = centers[g].clone().addScaledVector(offsets[k], radius);
+    });
+  });
+
+  relaxLayout(positions, items, scale);
+  return positions;
+}
+
+function sphereLayout(items: PortfolioItem[], scale: number): THREE.Vector3[] {
+  const order = groupByTags(items).flat();
+  const points = fibonacciSphere(items.length);
+  const positions: THREE.Vector3[] = new Array(items.length);
+  order.forEach((idx, k) => {
+    positions[idx] = points[k].multiply(LAYOUT_EXTENT).multiplyScalar(scale);
+  });
+  return positions;
+}
+
+function spiralLayout(items: PortfolioItem[], scale: number): THREE.Vector3[] {
+  const order = groupByTags(items).flat();
+  const turns = 1.5 + items.length / 20;
+  const positions: THREE.Vector3[] = new Array(items.length);
+  order.forEach((idx, k) => {
+    const t = items.length === 1 ? 0 : k / (items.length - 1);
+    const angle = t * turns * Math.PI * 2;
+    const r = 0.35 + t * 0.75;
+    const rand = seededRandom(hashString(items[idx].id));
+    positions[idx] = new THREE.Vector3(
+      Math.cos(angle) * r * LAYOUT_EXTENT.x,
+      (rand() - 0.5) * LAYOUT_EXTENT.y * 0.8,
+      Math.sin(angle) * r * LAYOUT_EXTENT.z
+    ).multiplyScalar(scale);
+  });
+  return positions;
+}
+
+/**
+ * A short, fixed-iteration force pass: items sharing tags attract, everything
+ * repels below MIN_ITEM_DISTANCE, and positions are clamped to the volume.
+ */
+function relaxLayout(positions: THREE.Vector3[], items: PortfolioItem[], scale: number) {
+  const n = positions.length;
+  const tagSets = items.map((item) => new Set(item.tags));
+  const bounds = LAYOUT_EXTENT.clone().multiplyScalar(scale);
+  const delta = new THREE.Vector3();
+
+  // Shared tag counts per pair, computed once rather than every iteration
+  const sharedTags = new Uint8Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      let shared = 0;
+      tagSets[i].forEach((t) => {
+        if (tagSets[j].has(t)) shared++;
+      });
+      sharedTags[i * n + j] = Math.min(shared, 255);
+    }
+  }
+  // The pass is quadratic, so large portfolios get fewer iterations
+  const iterations = Math.max(20, Math.min(80, Math.round(16000 / Math.max(1, n))));
+
+  // Nudge coincident points apart deterministically before the force pass
+  positions.forEach((p, i) => {
+    const rand = seededRandom(hashString(items[i].id));
+    p.x += (rand() - 0.5) * 0.05;
+    p.y += (rand() - 0.5) * 0.05;
+    p.z += (rand() - 0.5) * 0.05;
+  });
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const cooling = 1 - iter / iterations;
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        delta.subVectors(positions[j], positions[i]);
+        const dist = Math.max(delta.length(), 1e-3);
+        let force = 0;
+        if (dist < MIN_ITEM_DISTANCE) {
+          force -= (MIN_ITEM_DISTANCE - dist) * 0.5;
+        }
+        const shared = sharedTags[i * n + j];
+        if (shared > 0 && dist > MIN_ITEM_DISTANCE * 1.2) {
+          force += (dist - MIN_ITEM_DISTANCE * 1.2) * 0.02 * shared;
+        }
+        if (force === 0) continue;
+        delta.multiplyScalar((force * cooling) / dist);
+        positions[i].add(delta);
+        positions[j].sub(delta);
+      }
+    }
+    positions.forEach((p) => p.clamp(bounds.clone().negate(), bounds));
+  }
+}
+
+// ─── Search ──────────────────────────────────────────────────────────────────
+
+interface SearchResult {
+  index: number;
+  score: number;
+  /** Normalized item words that matched, used for highlighting. */
+  terms: Set<string>;
+}
+
+const SEARCH_FIELD_WEIGHTS = { title: 3, tags: 2, description: 1 } as const;
+
+/** Lowercases, strips diacritics and removes punctuation for matching. */
+function normalizeWord(word: string): string {
+  return word.toLowerCase().normalize("NFKD").replace(/[\u0300-\u036f]/g, "");
+}
+
+function tokenize(text: string): string[] {
+  return normalizeWord(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/** Levenshtein distance, giving up early once `max` is exceeded. */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+      rowMin = Math.min(rowMin, cur[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+/** How well a query token matches a word: 1 exact, less for prefix or typos. */
+function matchQuality(queryToken: string, word: string): number {
+  if (word === queryToken) return 1;
+  if (queryToken.length >= 2 && word.startsWith(queryToken)) return 0.8;
+  const maxTypos = queryToken.length >= 8 ? 2 : queryToken.length >= 4 ? 1 : 0;
+  if (maxTypos === 0) return 0;
+  const d = editDistance(queryToken, word, maxTypos);
+  return d <= maxTypos ? 0.6 - 0.15 * (d - 1) : 0;
+}
+
+/**
+ * Ranks items against a free-text query. Every query token has to match
+ * somewhere in the item; title hits outweigh tag hits, which outweigh
+ * description hits. Results are sorted best first.
+ */
+function searchItems(items: PortfolioItem[], query: string): SearchResult[] {
+  const queryTokens = [...new Set(tokenize(query))];
+  if (queryTokens.length === 0) return [];
+
+  const results: SearchResult[] = [];
+  items.forEach((item, index) => {
+    const fields: [string[], number][] = [
+      [tokenize(item.title), SEARCH_FIELD_WEIGHTS.title],
+      [tokenize(item.tags.join(" ")), SEARCH_FIELD_WEIGHTS.tags],
+      [tokenize(item.description), SEARCH_FIELD_WEIGHTS.description],
+    ];
+    const terms = new Set<string>();
+    let score = 0;
+
+    for (const qt of queryTokens) {
+      let best = 0;
+      for (const [words, weight] of fields) {
+        for (const word of words) {
+          const q = matchQuality(qt, word);
+          if (q === 0) continue;
+          terms.add(word);
+          best = Math.max(best, q * weight);
+        }
+      }
+      if (best === 0) return;
+      score += best;
+    }
+    results.push({ index, score, terms });
+  });
+
+  return results.sort((a, b) => b.score - a.score || a.index - b.index);
+}
+
+/**
+ * Wraps words whose normalized form is in `terms` with <mark> elements.
+ * Marks from a previous call are removed first.
+ */
+function highlightTerms(root: Element, terms: Set<string> | null) {
+  root.querySelectorAll("mark.search-hit").forEach((mark) => {
+    mark.replaceWith(document.createTextNode(mark.textContent || ""));
+  });
+  root.normalize();
+  if (!terms || terms.size === 0) return;
+
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const textNodes: Text[] = [];
+  while (walker.nextNode()) {
+    // Custom templates may hold script or style text, which is never highlighted
+    const node = walker.currentNode as Text;
+    if (!node.parentElement?.closest("script, style")) textNodes.push(node);
+  }
+
+  textNodes.forEach((node) => {
+    const text = node.data;
+    const wordPattern = /[\p{L}\p{N}]+/gu;
+    const frag = document.createDocumentFragment();
+    let last = 0;
+    let found = false;
+    for (const m of text.matchAll(wordPattern)) {
+      if (!terms.has(normalizeWord(m[0]))) continue;
+      found = true;
+      const start = m.index ?? 0;
+      frag.appendChild(document.createTextNode(text.slice(last, start)));
+      const mark = document.createElement("mark");
+      mark.className = "search-hit";
+      mark.textContent = m[0];
+      frag.appendChild(mark);
+      last = start + m[0].length;
+    }
+    if (!found) return;
+    frag.appendChild(document.createTextNode(text.slice(last)));
+    node.replaceWith(frag);
+  });
+}
+
+// ─── Media Carousel ──────────────────────────────────────────────────────────
+
+function mediaSlide(media: PortfolioMedia, index: number, title: string): SafeHtml {
+  const label = media.alt || title;
+  const content =
+    media.type === "video"
+      ? html`<video src="${media.src}" poster="${media.poster}" aria-label="${label}" controls playsinline muted loop preload="metadata"></video>`
+      : html`<img src="${media.src}" alt="${label}" />`;
+  return html`<figure class="slide" data-slide="${index}">${content}${
+    media.caption && html`<figcaption>${media.caption}</figcaption>`
+  }</figure>`;
+}
+
+/** The card's gallery markup; items without `media` show just their image. */
+function mediaGallery(item: PortfolioItem): SafeHtml {
+  const media = item.media?.length ? item.media : [{ src: item.image }];
+  if (media.length === 1) {
+    return html`<div class="media" part="media">${mediaSlide(media[0], 0, item.title)}</div>`;
+  }
+  return html`
+    <div class="media" part="media" role="region" aria-roledescription="carousel" aria-label="${item.title} media" tabindex="0">
+      ${media.map((m, i) => mediaSlide(m, i, item.title))}
+      <button class="media-nav media-prev" part="button media-nav" aria-label="Previous media">${ICON_LEFT}</button>
+      <button class="media-nav media-next" part="button media-nav" aria-label="Next media">${ICON_RIGHT}</button>
+      <div class="media-dots">
+        ${media.map((_, i) => html`<button class="media-dot" part="media-dot" data-dot="${i}" aria-label="Show media ${i + 1} of ${media.length}"></button>`)}
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Drives the slides rendered by `mediaGallery`: buttons, dots, arrow keys
+ * and horizontal swipes. Only the current slide is shown; a video starts when
+ * its slide is shown (unless motion is reduced) and pauses when left.
+ */
+class MediaCarousel {
+  private slides: HTMLElement[];
+  private dots: HTMLButtonElement[];
+  private root: HTMLElement;
+  private current = 0;
+  private pointerStartX: number | null = null;
+
+  constructor(root: HTMLElement) {
+    this.root = root;
+    this.slides = Array.from(root.querySelectorAll<HTMLElement>(".slide"));
+    this.dots = Array.from(root.querySelectorAll<HTMLButtonElement>(".media-dot"));
+
+    root.querySelector(".media-prev")?.addEventListener("click", () => this.go(this.current - 1));
+    root.querySelector(".media-next")?.addEventListener("click", () => this.go(this.current + 1));
+    this.dots.forEach((dot, i) => dot.addEventListener("click", () => this.go(i)));
+    if (this.slides.length > 1) {
+      root.addEventListener("keydown", this.handleKey);
+      root.addEventListener("pointerdown", this.handlePointerDown);
+      root.addEventListener("pointerup", this.handlePointerUp);
+    }
+    this.go(0);
+  }
+
+  go(index: number) {
+    const count = this.slides.length;
+    this.current = ((index % count) + count) % count;
+    this.slides.forEach((slide, i) => {
+      const active = i === this.current;
+      slide.hidden = !active;
+      slide.setAttribute("aria-label", `${i + 1} of ${count}`);
+      const video = slide.querySelector("video");
+      if (!video) return;
+      if (active && !prefersReducedMotion()) video.play().catch(() => {});
+      else video.pause();
+    });
+    this.dots.forEach((dot, i) => dot.setAttribute("aria-current", String(i === this.current)));
+  }
+
+  private handleKey = (e: KeyboardEvent) => {
+    if (e.key !== "ArrowLeft" && e.key !== "ArrowRight") return;
+    // Keep the card's own prev/next project navigation from firing too
+    e.stopPropagation();
+    e.preventDefault();
+    this.go(this.current + (e.key === "ArrowRight" ? 1 : -1));
+  };
+
+  private handlePointerDown = (e: PointerEvent) => {
+    this.pointerStartX = e.clientX;
+  };
+
+  private handlePointerUp = (e: PointerEvent) => {
+    if (this.pointerStartX === null) return;
+    const dx = e.clientX - this.pointerStartX;
+    this.pointerStartX = null;
+    if (Math.abs(dx) > 40) this.go(this.current + (dx < 0 ? 1 : -1));
+  };
+
+  destroy() {
+    this.root.removeEventListener("keydown", this.handleKey);
+    this.root.removeEventListener("pointerdown", this.handlePointerDown);
+    this.root.removeEventListener("pointerup", this.handlePointerUp);
+    this.slides.forEach((slide) => slide.querySelector("video")?.pause());
+  }
+}
+
+// ─── Custom Templates ────────────────────────────────────────────────────────
+
+/** Slots of the `<template slot="…">` children that replace built-in markup. */
+type TemplateSlot = "card" | "grid-item";
+
+// {{ title }}, {{ client.name }}, and inside data-each {{ . }} or {{ .label }}
+const BINDING_PATTERN = /\{\{\s*([\w$.-]*)\s*\}\}/g;
+
+// Attributes whose bound values must pass the same URL checks as the data
+const URL_ATTRIBUTES: Record<string, string[]> = {
+  href: LINK_PROTOCOLS,
+  "xlink:href": LINK_PROTOCOLS,
+  action: LINK_PROTOCOLS,
+  formaction: LINK_PROTOCOLS,
+  data: LINK_PROTOCOLS,
+  src: IMAGE_PROTOCOLS,
+  poster: IMAGE_PROTOCOLS,
+};
+
+// Attributes that would turn bound data into markup or CSS, or let SVG
+// animation set any attribute to it; bindings in them are dropped
+const UNBOUND_ATTRIBUTES = new Set([
+  "srcdoc", "style", "attributename", "to", "from", "values", "by",
+]);
+
+// Elements whose content is script, CSS or inert markup: nothing in them is bound
+const UNBOUND_ELEMENTS = new Set(["script", "style", "template"]);
+
+/** Every candidate URL in a bound `srcset` must be an allowed image URL. */
+function isSafeSrcset(value: string): boolean {
+  const candidates = value.split(",").map((c) => c.trim().split(/\s+/)[0]);
+  return candidates.every((src) => src && isSafeUrl(src, IMAGE_PROTOCOLS));
+}
+
+/** Resolves a binding path against the item, or against the entry for ".…". */
+function lookup(path: string, item: PortfolioItem, scope: unknown): unknown {
+  const local = path.startsWith(".");
+  const keys = (local ? path.slice(1) : path).split(".").filter(Boolean);
+  return keys.reduce<unknown>(
+    (value, key) =>
+      value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined,
+    local ? scope : item
+  );
+}
+
+function bindingText(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  if (Array.isArray(value)) return value.map(bindingText).filter(Boolean).join(", ");
+  return "";
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function bindTemplateNode(node: Node, item: PortfolioItem, scope: unknown) {
+  [...node.childNodes].forEach((child) => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      const text = child.textContent ?? "";
+      if (text.includes("{{")) {
+        child.textContent = text.replace(BINDING_PATTERN, (_, path) =>
+          bindingText(lookup(path, item, scope))
+        );
+      }
+    } else if (child.nodeType === Node.ELEMENT_NODE) {
+      bindTemplateElement(child as Element, item, scope);
+    }
+  });
+}
+
+/**
+ * Fills one template element: repeats it for `data-each`, drops it when
+ * `data-if` is empty, then binds its attributes and children. Values are
+ * only ever set as text or attribute values, never parsed as markup.
+ */
+function bindTemplateElement(el: Element, item: PortfolioItem, scope: unknown) {
+  const each = el.getAttribute("data-each");
+  if (each !== null) {
+    el.removeAttribute("data-each");
+    const list = lookup(each, item, scope);
+    (Array.isArray(list) ? list : []).forEach((entry) => {
+      const copy = el.cloneNode(true) as Element;
+      el.before(copy);
+      bindTemplateElement(copy, item, entry);
+    });
+    el.remove();
+    return;
+  }
+
+  const condition = el.getAttribute("data-if");
+  if (condition !== null) {
+    el.removeAttribute("data-if");
+    const negate = condition.startsWith("!");
+    if (isTruthy(lookup(condition.replace(/^!/, ""), item, scope)) === negate) {
+      el.remove();
+      return;
+    }
+  }
+
+  const unbound = UNBOUND_ELEMENTS.has(el.localName);
+  [...el.attributes].forEach(({ name, value }) => {
+    if (!value.includes("{{")) return;
+    // Data never ends up in scripts, inline event handlers, srcdoc documents or styles
+    const lower = name.toLowerCase();
+    if (unbound || lower.startsWith("on") || UNBOUND_ATTRIBUTES.has(lower)) {
+      el.removeAttribute(name);
+      return;
+    }
+    const bound = value.replace(BINDING_PATTERN, (_, path) => bindingText(lookup(path, item, scope)));
+    const protocols = URL_ATTRIBUTES[lower];
+    const safe =
+      lower === "srcset" || lower === "imagesrcset"
+        ? isSafeSrcset(bound)
+        : !protocols || (bound !== "" && isSafeUrl(bound, protocols));
+    if (safe) el.setAttribute(name, bound);
+    else el.removeAttribute(name);
+  });
+
+  if (!unbound) bindTemplateNode(el, item, scope);
+}
+
+/** A copy of the template's content with `item` bound into it. */
+function renderTemplate(template: HTMLTemplateElement, item: PortfolioItem): DocumentFragment {
+  const fragment = document.importNode(template.content, true);
+  bindTemplateNode(fragment, item, item);
+  return fragment;
+}
+
+// ─── Constellation Scene (Vanilla Three.js) ──────────────────────────────────
+
+type RenderQuality = "low" | "balanced" | "high";
+
+const RENDER_QUALITIES: RenderQuality[] = ["low", "balanced", "high"];
+
+/**
+ * `high` renders every frame; `balanced` caps the frame rate while nobody is
+ * interacting; `low` also drops drift and auto-rotation, so frames are only
+ * drawn when something changes.
+ */
+const QUALITY_PRESETS: Record<
+  RenderQuality,
+  { pixelRatio: number; idleFps: number; motion: boolean }
+> = {
+  low: { pixelRatio: 1, idleFps: 30, motion: false },
+  balanced: { pixelRatio: 2, idleFps: 30, motion: true },
+  high: { pixelRatio: 2, idleFps: Infinity, motion: true },
+};
+
+/** CORS mode for constellation textures, as on `<img crossorigin>`. */
+type CrossOrigin = "anonymous" | "use-credentials";
+
+/** Scene colors, read from the element's design tokens. */
+interface SceneColors {
+  accent: string;
+  star: string;
+  edge: string;
+  placeholder: string;
+  fallback: string;
+  /** The backdrop behind the canvas; light ones switch line blending. */
+  background: string;
+}
+
+interface SceneSettings {
+  colors: SceneColors;
+  layout: LayoutMode;
+  quality: RenderQuality;
+  /** Overrides the preset's idle frame-rate cap. */
+  fps: number | null;
+  crossOrigin: CrossOrigin;
+}
+
+interface SceneHandlers {
+  onItemClick: (index: number) => void;
+  /** Reports thumbnails settled so far, loaded or given up on. */
+  onProgress: (detail: SolarPortfolioProgressDetail) => void;
+}
+
+// Camera distances from the orbit target, and how long a fly-to takes (ms)
+const ORBIT_DISTANCE = 5;
+const CLOSE_UP_DISTANCE = 1.6;
+const FLIGHT_DURATION = 900;
+
+interface CameraFlight {
+  fromPosition: THREE.Vector3;
+  fromTarget: THREE.Vector3;
+  toPosition: THREE.Vector3;
+  toTarget: THREE.Vector3;
+  start: number;
+  done: () => void;
+}
+
+function easeInOutCubic(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
+// Thumbnail plane size in world units
+const THUMB_WIDTH = 0.8;
+const THUMB_HEIGHT = 0.53;
+
+// Largest atlas edge in pixels; tiles shrink as the item count grows
+const ATLAS_SIZE = 2048;
+
+// Spare atlas tiles for items added by live updates (at least this many, or a
+// quarter of the item count); beyond that the scene is rebuilt
+const ATLAS_HEADROOM = 16;
+
+// How long items added, moved or removed by a live update take to settle (ms)
+const UPDATE_DURATION = 1200;
+
+// Labels kept in the DOM at once, besides focused, hovered and selected ones
+const LABEL_LIMIT = 48;
+
+// Thumbnails drawn from their own full-size texture when large on screen
+const DETAIL_LIMIT = 8;
+const DETAIL_CACHE_SIZE = 24;
+
+// Items further than this (times the layout scale) beyond the orbit target are
+// not drawn: the back corners of the layout, small and behind everything else
+const CULL_DEPTH = 1.5;
+
+// Added to the load priority (camera distance) of filtered-out thumbnails
+const HIDDEN_PRIORITY = 100;
+
+// How many recent frames `frameStats` reports on
+const FRAME_STATS_SIZE = 120;
+
+const Y_AXIS = new THREE.Vector3(0, 1, 0);
+
+interface LabelPlacement {
+  btn: HTMLButtonElement;
+  /** Label centre in canvas pixels */
+  x: number;
+  y: number;
+  scale: number;
+  blur: number;
+  opacity: number;
+  /** Hidden because a higher-priority label took its space */
+  crowded: boolean;
+}
+
+// Images load a few at a time, retrying failures with exponential backoff
+const IMAGE_CONCURRENCY = 6;
+const IMAGE_RETRIES = 3;
+const IMAGE_RETRY_DELAY = 1000;
+
+// Thumbnails cross-fade from their placeholder over this long (ms)
+const TEXTURE_FADE = 400;
+
+// The loading poster lifts once this many thumbnails have settled, or after
+// the timeout (ms) regardless
+const SCENE_READY_COUNT = 12;
+const SCENE_READY_TIMEOUT = 6000;
+
+// Unlit thumbnail shader. Instanced thumbnails read their atlas tile, opacity,
+// glow and reveal from per-instance attributes; full-size ones from uniforms,
+// cross-fading from the atlas tile to their own texture.
+const THUMB_VERTEX_SHADER = `
+  #ifdef USE_INSTANCING
+    attribute vec4 atlasRect;
+    attribute float thumbOpacity;
+    attribute float thumbGlow;
+    attribute float thumbReveal;
+  #else
+    uniform vec4 atlasRect;
+    uniform float thumbOpacity;
+    uniform float thumbGlow;
+    uniform float thumbReveal;
+  #endif
+  varying vec2 vUv;
+  varying vec2 vAtlasUv;
+  varying float vOpacity;
+  varying float vGlow;
+  varying float vReveal;
+
+  void main() {
+    vUv = uv;
+    vAtlasUv = atlasRect.xy + uv * atlasRect.zw;
+    vOpacity = thumbOpacity;
+    vGlow = thumbGlow;
+    vReveal = thumbReveal;
+    vec4 local = vec4(position, 1.0);
+    #ifdef USE_INSTANCING
+      local = instanceMatrix * local;
+    #endif
+    gl_Position = projectionMatrix * modelViewMatrix * local;
+  }
+`;
+
+const THUMB_FRAGMENT_SHADER = `
+  uniform sampler2D map;
+  uniform vec3 accent;
+  uniform vec3 placeholder;
+  #ifndef USE_INSTANCING
+    uniform sampler2D detailMap;
+    uniform float detailMix;
+  #endif
+  varying vec2 vUv;
+  varying vec2 vAtlasUv;
+  varying float vOpacity;
+  varying float vGlow;
+  varying float vReveal;
+
+  void main() {
+    vec3 image = texture2D(map, vAtlasUv).rgb;
+    #ifndef USE_INSTANCING
+      image = mix(image, texture2D(detailMap, vUv).rgb, detailMix);
+    #endif
+    vec3 color = mix(placeholder, image, vReveal) * 0.9 + accent * 0.35 * vGlow;
+    gl_FragColor = vec4(color, vOpacity);
+    #include <colorspace_fragment>
+  }
+`;
+
+function createThumbMaterial(map: THREE.Texture, colors: SceneColors): THREE.ShaderMaterial {
+  return new THREE.ShaderMaterial({
+    uniforms: {
+      map: { value: map },
+      detailMap: { value: map },
+      detailMix: { value: 0 },
+      accent: { value: new THREE.Color(colors.accent) },
+      placeholder: { value: new THREE.Color(colors.placeholder) },
+      atlasRect: { value: new THREE.Vector4(0, 0, 1, 1) },
+      thumbOpacity: { value: 0.85 },
+      thumbGlow: { value: 0 },
+      thumbReveal: { value: 0 },
+    },
+    vertexShader: THUMB_VERTEX_SHADER,
+    fragmentShader: THUMB_FRAGMENT_SHADER,
+    transparent: true,
+    side: THREE.DoubleSide,
+  });
+}
+
+/** 0 → 1 over `TEXTURE_FADE` ms from the moment a texture became ready. */
+function revealAt(readyAt: number | undefined, now: number): number {
+  if (readyAt === undefined) return 0;
+  return Math.min(1, (now - readyAt) / TEXTURE_FADE);
+}
+
+interface ImageRequest {
+  url: string;
+  priority: () => number;
+  attempts: number;
+  resolve: (img: HTMLImageElement) => void;
+  reject: (err: unknown) => void;
+}
+
+/**
+ * Loads images a few at a time. Whenever a slot frees up, the pending request
+ * with the lowest priority value (e.g. nearest the camera) goes next. Failed
+ * loads are retried with exponential backoff before giving up.
+ */
+class ImageQueue {
+  private pending: ImageRequest[] = [];
+  private active = 0;
+  private loader = new THREE.ImageLoader();
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+  private disposed = false;
+
+  constructor(crossOrigin: string) {
+    this.loader.setCrossOrigin(crossOrigin);
+  }
+
+  load(url: string, priority: () => number): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ url, priority, attempts: 0, resolve, reject });
+      this.pump();
+    });
+  }
+
+  private pump() {
+    while (!this.disposed && this.active < IMAGE_CONCURRENCY && this.pending.length > 0) {
+      let best = 0;
+      let bestPriority = Infinity;
+      this.pending.forEach((req, k) => {
+        const p = req.priority();
+        if (p < bestPriority) {
+          bestPriority = p;
+          best = k;
+        }
+      });
+      const [req] = this.pending.splice(best, 1);
+      this.active++;
+      this.loader.load(
+        req.url,
+        (img) => {
+          this.active--;
+          if (!this.disposed) req.resolve(img);
+          this.pump();
+        },
+        undefined,
+        (err) => {
+          this.active--;
+          this.retry(req, err);
+          this.pump();
+        }
+      );
+    }
+  }
+
+  private retry(req: ImageRequest, err: unknown) {
+    if (this.disposed) return;
+    if (++req.attempts > IMAGE_RETRIES) {
+      req.reject(err);
+      return;
+    }
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      this.pending.push(req);
+      this.pump();
+    }, IMAGE_RETRY_DELAY * 2 ** (req.attempts - 1));
+    this.timers.add(timer);
+  }
+
+  dispose() {
+    this.disposed = true;
+    this.pending = [];
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+  }
+}
+
+type TileState = "loading" | "loaded" | "failed";
+
+/**
+ * One texture holding a small copy of every thumbnail, so the whole
+ * constellation draws in a single instanced call. Images are drawn in as they
+ * arrive; uploads to the GPU are batched. Tiles are claimed and released as
+ * items come and go, with some room to spare for items added later.
+ */
+class ThumbnailAtlas {
+  texture: THREE.CanvasTexture;
+  tileWidth: number;
+  capacity: number;
+  private tileHeight: number;
+  private cols: number;
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private queue: ImageQueue;
+  private onChange: () => void;
+  private fallbackColor: string;
+  // Per tile: what it holds, bumped on every claim so stale loads are dropped
+  private states: (TileState | null)[] = [];
+  private claims: number[] = [];
+  private free: number[] = [];
+  // Tiles drawn since the last upload, and when each tile reached the GPU
+  private drawn: number[] = [];
+  private readyAt: (number | undefined)[] = [];
+  private lastUpload = 0;
+  private disposed = false;
+
+  constructor(capacity: number, queue: ImageQueue, fallbackColor: string, onChange: () => void) {
+    const aspect = THUMB_HEIGHT / THUMB_WIDTH;
+    let tileWidth = 256;
+    while (
+      tileWidth > 32 &&
+      Math.floor(ATLAS_SIZE / tileWidth) * Math.floor(ATLAS_SIZE / (tileWidth * aspect)) <
+        capacity
+    ) {
+      tileWidth /= 2;
+    }
+    this.queue = queue;
+    this.onChange = onChange;
+    this.fallbackColor = fallbackColor;
+    this.tileWidth = tileWidth;
+    this.tileHeight = Math.round(tileWidth * aspect);
+    this.cols = Math.floor(ATLAS_SIZE / tileWidth);
+    this.capacity = Math.min(capacity, this.cols * Math.floor(ATLAS_SIZE / this.tileHeight));
+    for (let tile = this.capacity - 1; tile >= 0; tile--) this.free.push(tile);
+
+    this.canvas = document.createElement("canvas");
+    this.canvas.width = Math.max(1, Math.min(this.capacity, this.cols)) * this.tileWidth;
+    this.canvas.height = Math.max(1, Math.ceil(this.capacity / this.cols)) * this.tileHeight;
+    this.ctx = this.canvas.getContext("2d")!;
+
+    this.texture = new THREE.CanvasTexture(this.canvas);
+    this.texture.colorSpace = THREE.SRGBColorSpace;
+    this.texture.generateMipmaps = false;
+    this.texture.minFilter = THREE.LinearFilter;
+  }
+
+  /** Tiles still unclaimed. */
+  get available(): number {
+    return this.free.length;
+  }
+
+  /** Thumbnails settled so far among the claimed tiles. */
+  get progress(): SolarPortfolioProgressDetail {
+    const claimed = this.states.filter((state) => state !== null);
+    return {
+      loaded: claimed.filter((state) => state === "loaded").length,
+      failed: claimed.filter((state) => state === "failed").length,
+      total: claimed.length,
+    };
+  }
+
+  /** Claims a tile and queues `url` for it. Returns -1 when the atlas is full. */
+  add(url: string, priority: () => number): number {
+    const tile = this.free.pop();
+    if (tile === undefined) return -1;
+    const claim = (this.claims[tile] ?? 0) + 1;
+    this.claims[tile] = claim;
+    this.states[tile] = "loading";
+    this.readyAt[tile] = undefined;
+
+    const settle = (state: TileState) => {
+      this.states[tile] = state;
+      this.drawn.push(tile);
+      this.onChange();
+    };
+    this.queue.load(url, priority).then(
+      (img) => {
+        if (this.disposed || this.claims[tile] !== claim) return;
+        const [x, y] = this.tileOrigin(tile);
+        this.ctx.drawImage(img, x, y, this.tileWidth, this.tileHeight);
+        settle("loaded");
+      },
+      () => {
+        // gave up – tint the tile with accent color
+        if (this.disposed || this.claims[tile] !== claim) return;
+        this.fillTile(tile);
+        settle("failed");
+      }
+    );
+    return tile;
+  }
+
+  /** Frees a tile for reuse; a load still pending for it is ignored. */
+  release(tile: number) {
+    this.claims[tile]++;
+    this.states[tile] = null;
+    this.free.push(tile);
+  }
+
+  private fillTile(tile: number) {
+    const [x, y] = this.tileOrigin(tile);
+    this.ctx.fillStyle = this.fallbackColor;
+    this.ctx.fillRect(x, y, this.tileWidth, this.tileHeight);
+  }
+
+  /** Repaints the tiles of images that failed to load in a new color. */
+  setFallbackColor(color: string) {
+    this.fallbackColor = color;
+    let repainted = false;
+    this.states.forEach((state, tile) => {
+      if (state !== "failed") return;
+      this.fillTile(tile);
+      repainted = true;
+    });
+    if (repainted) this.texture.needsUpdate = true;
+  }
+
+  private tileOrigin(tile: number): [number, number] {
+    return [(tile % this.cols) * this.tileWidth, Math.floor(tile / this.cols) * this.tileHeight];
+  }
+
+  /** UV offset and size of a tile, inset half a texel against bleeding. */
+  rect(tile: number, out: THREE.Vector4): THREE.Vector4 {
+    // No tile (the atlas is full): the placeholder color shows instead
+    if (tile < 0) return out.set(0, 0, 0, 0);
+    const [x, y] = this.tileOrigin(tile);
+    const w = this.canvas.width;
+    const h = this.canvas.height;
+    // The texture is flipped, so v runs up from the bottom of the canvas
+    return out.set(
+      (x + 0.5) / w,
+      1 - (y + this.tileHeight - 0.5) / h,
+      (this.tileWidth - 1) / w,
+      (this.tileHeight - 1) / h
+    );
+  }
+
+  /** How far a tile has faded in from the placeholder. */
+  reveal(tile: number, now: number): number {
+    return revealAt(this.readyAt[tile], now);
+  }
+
+  /**
+   * Uploads new tiles at most a few times a second. Returns true while tiles
+   * are waiting to upload or still fading in.
+   */
+  flush(now: number): boolean {
+    if (this.drawn.length > 0 && now - this.lastUpload >= 200) {
+      this.texture.needsUpdate = true;
+      this.drawn.forEach((tile) => (this.readyAt[tile] = now));
+      this.drawn = [];
+      this.lastUpload = now;
+    }
+    return this.drawn.length > 0 || now - this.lastUpload < TEXTURE_FADE;
+  }
+
+  dispose() {
+    this.disposed = true;
+    this.texture.dispose();
+  }
+}
+
+/**
+ * Full-size textures for the few thumbnails shown large on screen, loaded on
+ * demand ahead of the atlas queue. The least recently used ones are released.
+ */
+class DetailTextures {
+  private cache = new Map<string, THREE.Texture | null>();
+  private loadedAt = new Map<string, number>();
+  private queue: ImageQueue;
+  private onLoad: () => void;
+
+  constructor(queue: ImageQueue, onLoad: () => void) {
+    this.queue = queue;
+    this.onLoad = onLoad;
+  }
+
+  /** The texture if it has loaded; otherwise starts loading it and returns null. */
+  get(url: string): THREE.Texture | null {
+    if (this.cache.has(url)) {
+      // Re-insert to mark as recently used
+      const tex = this.cache.get(url)!;
+      this.cache.delete(url);
+      this.cache.set(url, tex);
+      return tex;
+    }
+    this.cache.set(url, null);
+    this.queue.load(url, () => -1).then(
+      (img) => {
+        if (!this.cache.has(url)) return;
+        const tex = new THREE.Texture(img);
+        tex.colorSpace = THREE.SRGBColorSpace;
+        tex.needsUpdate = true;
+        this.cache.set(url, tex);
+        this.loadedAt.set(url, performance.now());
+        this.onLoad();
+      },
+      () => {
+        // Keep showing the atlas tile
+      }
+    );
+    for (const [key, tex] of this.cache) {
+      if (this.cache.size <= DETAIL_CACHE_SIZE) break;
+      tex?.dispose();
+      this.cache.delete(key);
+      this.loadedAt.delete(key);
+    }
+    return null;
+  }
+
+  /** How far a loaded texture has cross-faded in over the atlas tile. */
+  reveal(url: string, now: number): number {
+    return revealAt(this.loadedAt.get(url), now);
+  }
+
+  dispose() {
+    this.cache.forEach((tex) => tex?.dispose());
+    this.cache.clear();
+  }
+}
+
+/** A thumbnail removed by a live update, shrinking away. */
+interface DepartingItem {
+  mesh: THREE.Mesh;
+  tile: number;
+  position: THREE.Vector3;
+  rotation: number;
+  opacity: number;
+  start: number;
+}
+
+/**
+ * One WebGL renderer shared by every constellation on the page, since
+ * browsers only allow a handful of live contexts. Each scene renders into the
+ * corner of the shared (offscreen) canvas and copies the result onto its own
+ * 2D canvas. Released once the last scene is destroyed.
+ */
+class SharedRenderer {
+  private static instance: SharedRenderer | null = null;
+  private static listeners = new Set<(lost: boolean) => void>();
+
+  renderer: THREE.WebGLRenderer;
+  lost = false;
+  private users = 0;
+
+  static acquire(): SharedRenderer {
+    SharedRenderer.instance ??= new SharedRenderer();
+    SharedRenderer.instance.users++;
+    return SharedRenderer.instance;
+  }
+
+  static get contextLost(): boolean {
+    return SharedRenderer.instance?.lost ?? false;
+  }
+
+  /** Called with `true` when the context is lost and `false` once it is restored. */
+  static onContextChange(listener: (lost: boolean) => void): () => void {
+    SharedRenderer.listeners.add(listener);
+    return () => SharedRenderer.listeners.delete(listener);
+  }
+
+  private constructor() {
+    this.renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true });
+    this.renderer.outputColorSpace = THREE.SRGBColorSpace;
+    const canvas = this.renderer.domElement;
+    canvas.addEventListener("webglcontextlost", this.handleContextLost);
+    canvas.addEventListener("webglcontextrestored", this.handleContextRestored);
+  }
+
+  private handleContextLost = (e: Event) => {
+    e.preventDefault(); // lets the browser restore the context later
+    this.lost = true;
+    console.warn("[solar-portfolio]", "WebGL context lost; showing the grid until it is restored.");
+    SharedRenderer.listeners.forEach((listener) => listener(true));
+  };
+
+  private handleContextRestored = () => {
+    this.lost = false;
+    SharedRenderer.listeners.forEach((listener) => listener(false));
+  };
+
+  /** Renders at the target canvas's pixel size and copies the image across. */
+  render(scene: THREE.Scene, camera: THREE.Camera, target: CanvasRenderingContext2D) {
+    const { width, height } = target.canvas;
+    if (this.lost || width === 0 || height === 0) return;
+    const canvas = this.renderer.domElement;
+    // Grow only, so instances of different sizes don't reallocate every frame
+    if (canvas.width < width || canvas.height < height) {
+      this.renderer.setSize(Math.max(canvas.width, width), Math.max(canvas.height, height), false);
+    }
+    this.renderer.setViewport(0, 0, width, height);
+    this.renderer.setScissor(0, 0, width, height);
+    this.renderer.setScissorTest(true);
+    this.renderer.render(scene, camera);
+    // The viewport sits in the bottom-left corner of the shared canvas
+    target.clearRect(0, 0, width, height);
+    target.drawImage(canvas, 0, canvas.height - height, width, height, 0, 0, width, height);
+  }
+
+  release() {
+    this.users--;
+    // A lost context is kept so its restore event still arrives
+    if (this.users > 0 || this.lost) return;
+    const canvas = this.renderer.domElement;
+    canvas.removeEventListener("webglcontextlost", this.handleContextLost);
+    canvas.removeEventListener("webglcontextrestored", this.handleContextRestored);
+    this.renderer.dispose();
+    this.renderer.forceContextLoss();
+    SharedRenderer.instance = null;
+  }
+}
+
+class ConstellationScene {
+  private shared: SharedRenderer;
+  private canvas: HTMLCanvasElement;
+  private context2d: CanvasRenderingContext2D;
+  private pixelRatio: number;
+  private scene: THREE.Scene;
+  private camera: THREE.PerspectiveCamera;
+  private controls: OrbitControls;
+  private raycaster = new THREE.Raycaster();
   private mouse = new THREE.Vector2();
-  private thumbnailMeshes: THREE.Mesh[] = [];
-  private textures: (THREE.Texture | null)[] = [];
   private items: PortfolioItem[] = [];
   private animId = 0;
+  private colors: SceneColors;
+  private layout: LayoutMode;
+  private handlers: SceneHandlers;
+
+  // Frame scheduling: frames are drawn on demand and paused when nobody can see them
+  private motion: boolean;
+  private idleFps: number;
+  private lastFrame = 0;
+  // Start time and cost of recent frames (ms), for `frameStats`
+  private frameStarts: number[] = [];
+  private frameDurations: number[] = [];
+  private onScreen = true;
+  private covered = false;
+  private dragging = false;
+  private resizeObserver: ResizeObserver;
+  private intersectionObserver: IntersectionObserver;
+
+  // Procedural star field
+  private stars: THREE.Points | null = null;
+
+  // Constellation lines between items that share tags
+  private edges: { a: number; b: number; weight: number }[] = [];
+  private edgeLines: THREE.LineSegments | null = null;
+  private edgeColorsDirty = true;
+  private hoveredIndex: number | null = null;
+  private selectedIndex: number | null = null;
+
+  // Filter state: target visibility per item and the eased 0–1 fade value
+  private visibleMask: boolean[] = [];
+  private fade: number[] = [];
+
+  // Camera orbit goal when focusing an item (e.g. the best search match)
+  private flyGoal: THREE.Spherical | null = null;
+
+  // Fly-to for the open card: the camera eases in to an item and back out
+  private flight: CameraFlight | null = null;
+  private closeUp = false;
+
+  // Keyboard focus follows the same highlight as pointer hover
+  private focusedIndex: number | null = null;
+
+  // Hover/selection feedback: accent outlines and an eased 0–1 emphasis
+  private hoverOutline: THREE.LineLoop | null = null;
+  private selectedOutline: THREE.LineLoop | null = null;
+  private emphasis: number[] = [];
+  private pointerMoved = false;
+  private pointerInside = false;
+
+  // Orbit positions
+  private basePositions: THREE.Vector3[] = [];
+  private currentPositions: THREE.Vector3[] = [];
+  private rotations: number[] = [];
+  private scratchQuaternion = new THREE.Quaternion();
+  private scratchScale = new THREE.Vector3();
+
+  // Thumbnails: one instanced mesh textured from an atlas, compacted each
+  // frame to the items in view, plus a few full-size meshes for close ones
+  private thumbGeometry = new THREE.PlaneGeometry(THUMB_WIDTH, THUMB_HEIGHT);
+  private imageQueue: ImageQueue;
+  private atlas: ThumbnailAtlas | null = null;
+  private tiles: number[] = [];
+  private indexById = new Map<string, number>();
+  private instances: THREE.InstancedMesh | null = null;
+  private slotItems: number[] = [];
+  private detailTextures: DetailTextures | null = null;
+  private detailMeshes: THREE.Mesh[] = [];
+  private inView: number[] = [];
+
+  // Live updates: items ease from where they were (new ones from further out)
+  // to their new places, while removed ones shrink away
+  private moveFrom: THREE.Vector3[] = [];
+  private moveStart = 0;
+  private departing: DepartingItem[] = [];
+
+  // Labels: only the nearest few are in the DOM, recycled through a pool
   private labelLayer: HTMLDivElement;
-  private labelElements: HTMLButtonElement[] = [];
-  private accentColor: string;
-  private onItemClick: (index: number) => void;
+  private labels = new Map<number, HTMLButtonElement>();
+  private labelPool: HTMLButtonElement[] = [];
+  private labelStyles = new WeakMap<HTMLButtonElement, string>();
+  private labelSizes = new WeakMap<HTMLButtonElement, [number, number]>();
+  private lastLabelSync = -Infinity;
+  private tabStop = 0;
+  private visibleRank: number[] = [];
+  private visibleCount = 0;
+
+  constructor(
+    container: HTMLDivElement,
+    labelLayer: HTMLDivElement,
+    items: PortfolioItem[],
+    settings: SceneSettings,
+    handlers: SceneHandlers
+  ) {
+    const preset = QUALITY_PRESETS[settings.quality];
+    this.items = items;
+    this.colors = settings.colors;
+    this.layout = settings.layout;
+    this.motion = preset.motion;
+    this.idleFps = settings.fps ?? preset.idleFps;
+    this.visibleMask = items.map(() => true);
+    this.fade = items.map(() => 1);
+    this.emphasis = items.map(() => 0);
+    this.handlers = handlers;
+    this.labelLayer = labelLayer;
+    this.imageQueue = new ImageQueue(settings.crossOrigin);
+
+    // Renderer
+    this.shared = SharedRenderer.acquire();
+    this.pixelRatio = Math.min(window.devicePixelRatio, preset.pixelRatio);
+    this.canvas = document.createElement("canvas");
+    this.context2d = this.canvas.getContext("2d")!;
+    container.appendChild(this.canvas);
+
+    // Scene
+    this.scene = new THREE.Scene();
+
+    // Camera
+    this.camera = new THREE.PerspectiveCamera(50, 2, 0.1, 100);
+    this.camera.position.set(0, 0, ORBIT_DISTANCE);
+
+    // Controls
+    this.controls = new OrbitControls(this.camera, this.canvas);
+    this.controls.enableZoom = false;
+    this.controls.enablePan = false;
+    this.controls.autoRotate = this.motion;
+    this.controls.autoRotateSpeed = 0.3;
+    this.controls.enableDamping = true;
+    this.controls.dampingFactor = 0.05;
+    this.controls.minPolarAngle = Math.PI / 4;
+    this.controls.maxPolarAngle = (Math.PI * 3) / 4;
+    this.controls.addEventListener("start", this.handleControlsStart);
+    this.controls.addEventListener("end", this.handleControlsEnd);
+    this.controls.addEventListener("change", this.invalidate);
+
+    // Build scene
+    this.createStars();
+    this.createThumbnails();
+    this.createEdges();
+    this.updateVisibleRanks();
+    this.hoverOutline = this.createOutline(1);
+    this.selectedOutline = this.createOutline(0.55);
+
+    // Resize with the element, not just the window
+    this.resize();
+    this.resizeObserver = new ResizeObserver(this.resize);
+    this.resizeObserver.observe(container);
+
+    // Pause while scrolled out of view or in a background tab
+    this.intersectionObserver = new IntersectionObserver((entries) => {
+      this.onScreen = entries[entries.length - 1].isIntersecting;
+      this.invalidate();
+    });
+    this.intersectionObserver.observe(container);
+    document.addEventListener("visibilitychange", this.invalidate);
+
+    // Click and hover detection
+    this.canvas.addEventListener("click", this.handleCanvasClick);
+    this.canvas.addEventListener("pointermove", this.handlePointerMove);
+    this.canvas.addEventListener("pointerleave", this.handlePointerLeave);
+
+    // Start
+    this.invalidate();
+  }
+
+  /** Recolors stars, glows, outlines, placeholders, lines and failed thumbnails. */
+  setColors(colors: SceneColors) {
+    this.colors = colors;
+    const materials = [this.instances, ...this.detailMeshes].map(
+      (mesh) => mesh?.material as THREE.ShaderMaterial | undefined
+    );
+    materials.forEach((mat) => {
+      mat?.uniforms.accent.value.set(colors.accent);
+      mat?.uniforms.placeholder.value.set(colors.placeholder);
+    });
+    [this.hoverOutline, this.selectedOutline].forEach((outline) =>
+      (outline?.material as THREE.LineBasicMaterial | undefined)?.color.set(colors.accent)
+    );
+    (this.stars?.material as THREE.PointsMaterial | undefined)?.color.set(colors.star);
+    const edgeMaterial = this.edgeLines?.material as THREE.LineBasicMaterial | undefined;
+    if (edgeMaterial) {
+      edgeMaterial.blending = this.edgeBlending();
+      edgeMaterial.needsUpdate = true;
+    }
+    this.atlas?.setFallbackColor(colors.fallback);
+    this.edgeColorsDirty = true;
+    this.invalidate();
+  }
+
+  /** The open card hides the scene, so frames stop until it closes. */
+  setCovered(covered: boolean) {
+    this.covered = covered;
+    this.invalidate();
+  }
+
+  /** Swings the orbiting camera round until the item faces it. */
+  focusItem(index: number) {
+    const position = this.currentPositions[index];
+    if (!position) return;
+    const dir = position.clone().sub(this.controls.target);
+    if (dir.lengthSq() < 1e-6) return;
+
+    const radius = this.camera.position.distanceTo(this.controls.target);
+    const goal = new THREE.Spherical().setFromVector3(dir);
+    goal.radius = radius;
+    goal.phi = THREE.MathUtils.clamp(
+      goal.phi,
+      this.controls.minPolarAngle,
+      this.controls.maxPolarAngle
+    );
+
+    if (prefersReducedMotion()) {
+      this.camera.position.setFromSpherical(goal).add(this.controls.target);
+      this.invalidate();
+      return;
+    }
+    this.flyGoal = goal;
+    this.updateAutoRotate();
+    this.invalidate();
+  }
+
+  /**
+   * Eases the camera up close to an item, re-centring the orbit on it.
+   * Resolves on arrival, or straight away if the visitor grabs the controls.
+   */
+  flyTo(index: number): Promise<void> {
+    const position = this.currentPositions[index];
+    if (!position) return Promise.resolve();
+    const target = position.clone();
+    const view = new THREE.Spherical().setFromVector3(
+      this.camera.position.clone().sub(target)
+    );
+    view.radius = CLOSE_UP_DISTANCE;
+    view.phi = THREE.MathUtils.clamp(
+      view.phi,
+      this.controls.minPolarAngle,
+      this.controls.maxPolarAngle
+    );
+    this.closeUp = true;
+    return this.startFlight(new THREE.Vector3().setFromSpherical(view).add(target), target);
+  }
+
+  /** Eases back out to the orbit around the whole constellation. */
+  flyHome(): Promise<void> {
+    if (!this.closeUp) return Promise.resolve();
+    this.closeUp = false;
+    const position = this.camera.position.clone().normalize().multiplyScalar(ORBIT_DISTANCE);
+    return this.startFlight(position, new THREE.Vector3());
+  }
+
+  private startFlight(toPosition: THREE.Vector3, toTarget: THREE.Vector3): Promise<void> {
+    this.flight?.done();
+    this.flight = null;
+    this.flyGoal = null;
+
+    if (prefersReducedMotion()) {
+      this.camera.position.copy(toPosition);
+      this.controls.target.copy(toTarget);
+      this.updateAutoRotate();
+      this.invalidate();
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      this.flight = {
+        fromPosition: this.camera.position.clone(),
+        fromTarget: this.controls.target.clone(),
+        toPosition,
+        toTarget,
+        start: performance.now(),
+        done: resolve,
+      };
+      this.updateAutoRotate();
+      this.invalidate();
+    });
+  }
+
+  private updateFlight() {
+    const f = this.flight;
+    if (!f) return;
+    const t = Math.min(1, (performance.now() - f.start) / FLIGHT_DURATION);
+    const k = easeInOutCubic(t);
+    this.camera.position.lerpVectors(f.fromPosition, f.toPosition, k);
+    this.controls.target.lerpVectors(f.fromTarget, f.toTarget, k);
+    if (t < 1) return;
+    this.flight = null;
+    f.done();
+    this.updateAutoRotate();
+  }
+
+  private handleControlsStart = () => {
+    this.dragging = true;
+    this.cancelFly();
+  };
+
+  private handleControlsEnd = () => {
+    this.dragging = false;
+  };
+
+  private cancelFly() {
+    if (!this.flyGoal && !this.flight) return;
+    this.flyGoal = null;
+    this.flight?.done();
+    this.flight = null;
+    this.updateAutoRotate();
+  }
+
+  /**
+   * Auto-rotation pauses while the camera is flying, while it is close up to
+   * an open item, and while an item is hovered.
+   */
+  private updateAutoRotate() {
+    this.controls.autoRotate =
+      this.motion && !this.flyGoal && !this.flight && !this.closeUp && this.hoveredIndex === null;
+  }
+
+  private updateFly() {
+    if (!this.flyGoal) return;
+    const offset = this.camera.position.clone().sub(this.controls.target);
+    const cur = new THREE.Spherical().setFromVector3(offset);
+
+    // Shortest way round in azimuth
+    let dTheta = this.flyGoal.theta - cur.theta;
+    dTheta = Math.atan2(Math.sin(dTheta), Math.cos(dTheta));
+    const dPhi = this.flyGoal.phi - cur.phi;
+
+    if (Math.abs(dTheta) < 0.002 && Math.abs(dPhi) < 0.002) {
+      this.flyGoal = null;
+      this.updateAutoRotate();
+      return;
+    }
+    cur.theta += dTheta * 0.08;
+    cur.phi += dPhi * 0.08;
+    cur.radius += (this.flyGoal.radius - cur.radius) * 0.08;
+    this.camera.position.setFromSpherical(cur).add(this.controls.target);
+  }
+
+  private resize = () => {
+    const parent = this.canvas.parentElement;
+    if (!parent) return;
+    const w = parent.clientWidth;
+    const h = parent.clientHeight;
+    this.canvas.width = Math.round(w * this.pixelRatio);
+    this.canvas.height = Math.round(h * this.pixelRatio);
+    this.canvas.style.width = `${w}px`;
+    this.canvas.style.height = `${h}px`;
+    this.camera.aspect = w / h;
+    this.camera.updateProjectionMatrix();
+    this.invalidate();
+  };
+
+  private createStars() {
+    const count = 120;
+    const positions = new Float32Array(count * 3);
+    for (let i = 0; i < count; i++) {
+      const phi = (i / count) * Math.PI * 2 * 5.7;
+      const theta = (i / count) * Math.PI * 3.2;
+      const radius = 2.5 + (i % 7) * 0.4;
+      positions[i * 3] = Math.cos(phi) * Math.sin(theta) * radius;
+      positions[i * 3 + 1] = Math.sin(phi) * Math.sin(theta) * radius * 0.6;
+      positions[i * 3 + 2] = Math.cos(theta) * radius * 0.8;
+    }
+    const geom = new THREE.BufferGeometry();
+    geom.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+    const mat = new THREE.PointsMaterial({
+      color: this.colors.star,
+      size: 0.03,
+      transparent: true,
+      opacity: 0.4,
+      sizeAttenuation: true,
+    });
+    this.stars = new THREE.Points(geom, mat);
+    this.scene.add(this.stars);
+  }
+
+  private createThumbnails() {
+    const layout = computeLayout(this.items, this.layout);
+    layout.forEach((basePos) => {
+      this.basePositions.push(basePos.clone());
+      this.currentPositions.push(basePos.clone());
+      this.rotations.push(0);
+    });
+
+    const n = this.items.length;
+    const atlas = new ThumbnailAtlas(
+      n + Math.max(ATLAS_HEADROOM, Math.ceil(n / 4)),
+      this.imageQueue,
+      this.colors.fallback,
+      () => {
+        this.invalidate();
+        this.handlers.onProgress(atlas.progress);
+      }
+    );
+    this.atlas = atlas;
+    this.detailTextures = new DetailTextures(this.imageQueue, this.invalidate);
+    this.indexById = new Map(this.items.map((item, i) => [item.id, i]));
+    this.tiles = this.items.map((item) => this.claimTile(item));
+
+    const count = Math.max(1, atlas.capacity);
+    const geom = this.thumbGeometry.clone();
+    geom.setAttribute(
+      "atlasRect",
+      new THREE.InstancedBufferAttribute(new Float32Array(count * 4), 4).setUsage(
+        THREE.DynamicDrawUsage
+      )
+    );
+    ["thumbOpacity", "thumbGlow", "thumbReveal"].forEach((name) => {
+      geom.setAttribute(
+        name,
+        new THREE.InstancedBufferAttribute(new Float32Array(count), 1).setUsage(
+          THREE.DynamicDrawUsage
+        )
+      );
+    });
+    this.instances = new THREE.InstancedMesh(
+      geom,
+      createThumbMaterial(this.atlas.texture, this.colors),
+      count
+    );
+    this.instances.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    this.instances.count = 0;
+    // Instances move every frame, so culling is done per item instead
+    this.instances.frustumCulled = false;
+    this.scene.add(this.instances);
+
+    for (let k = 0; k < DETAIL_LIMIT; k++) {
+      const mesh = new THREE.Mesh(
+        this.thumbGeometry,
+        createThumbMaterial(this.atlas.texture, this.colors)
+      );
+      mesh.visible = false;
+      mesh.matrixAutoUpdate = false;
+      // Close thumbnails draw after the instanced far ones
+      mesh.renderOrder = 1;
+      this.scene.add(mesh);
+      this.detailMeshes.push(mesh);
+    }
+  }
+
+  /** Claims an atlas tile for an item and queues its thumbnail. */
+  private claimTile(item: PortfolioItem): number {
+    // Nearest first; filtered-out items wait behind everything in view
+    const priority = () => {
+      const i = this.indexById.get(item.id);
+      if (i === undefined) return Infinity;
+      return (
+        this.camera.position.distanceTo(this.currentPositions[i]) +
+        (this.visibleMask[i] ? 0 : HIDDEN_PRIORITY)
+      );
+    };
+    return this.atlas!.add(item.thumb ?? item.image, priority);
+  }
+
+  /** Writes an item's drift, rotation and hover scale into a matrix. */
+  private itemMatrix(index: number, out: THREE.Matrix4): THREE.Matrix4 {
+    const scale = 1 + 0.15 * this.emphasis[index];
+    return out.compose(
+      this.currentPositions[index],
+      this.scratchQuaternion.setFromAxisAngle(Y_AXIS, this.rotations[index]),
+      this.scratchScale.setScalar(scale)
+    );
+  }
+
+  /**
+   * Culls items outside the view or too far away, hands the largest on screen
+   * full-size textures, and packs the rest into the instanced mesh back to
+   * front so the translucent planes blend correctly. Returns true while a
+   * full-size texture is still fading in.
+   */
+  private updateThumbnails(now: number): boolean {
+    if (!this.instances || !this.atlas || !this.detailTextures) return false;
+    const frustum = new THREE.Frustum().setFromProjectionMatrix(
+      new THREE.Matrix4().multiplyMatrices(
+        this.camera.projectionMatrix,
+        this.camera.matrixWorldInverse
+      )
+    );
+    const sphere = new THREE.Sphere();
+    const cullDistance =
+      this.camera.position.distanceTo(this.controls.target) +
+      CULL_DEPTH * layoutScale(this.items.length);
+    const distances = new Map<number, number>();
+    const inView: number[] = [];
+    this.currentPositions.forEach((pos, i) => {
+      if (this.fade[i] === 0) return;
+      const dist = this.camera.position.distanceTo(pos);
+      if (dist > cullDistance) return;
+      sphere.set(pos, (THUMB_WIDTH / 2) * (1 + 0.15 * this.emphasis[i]));
+      if (!frustum.intersectsSphere(sphere)) return;
+      distances.set(i, dist);
+      inView.push(i);
+    });
+    inView.sort((a, b) => distances.get(a)! - distances.get(b)!);
+    this.inView = inView;
+
+    // Level of detail: thumbnails drawn wider than their atlas tile
+    const pixelsPerUnit =
+      (this.canvas.clientHeight * this.pixelRatio) /
+      (2 * Math.tan(THREE.MathUtils.degToRad(this.camera.fov / 2)));
+    const detail: [number, THREE.Texture][] = [];
+    for (const i of inView) {
+      if (detail.length >= DETAIL_LIMIT) break;
+      const width = (THUMB_WIDTH * pixelsPerUnit) / distances.get(i)!;
+      if (width < this.atlas.tileWidth * 1.25) break;
+      const tex = this.detailTextures.get(this.items[i].image);
+      if (tex) detail.push([i, tex]);
+    }
+    const detailed = new Set(detail.map(([i]) => i));
+
+    const geom = this.instances.geometry;
+    const rects = geom.getAttribute("atlasRect") as THREE.InstancedBufferAttribute;
+    const opacities = geom.getAttribute("thumbOpacity") as THREE.InstancedBufferAttribute;
+    const glows = geom.getAttribute("thumbGlow") as THREE.InstancedBufferAttribute;
+    const reveals = geom.getAttribute("thumbReveal") as THREE.InstancedBufferAttribute;
+    const matrix = new THREE.Matrix4();
+    const rect = new THREE.Vector4();
+    // Items the full atlas had no tile for show only their label (and full-size
+    // texture when close), which also keeps the count within the atlas capacity
+    // the instance buffers were sized to
+    let slot = 0;
+    for (let k = inView.length - 1; k >= 0; k--) {
+      const i = inView[k];
+      if (detailed.has(i) || this.tiles[i] < 0) continue;
+      this.instances.setMatrixAt(slot, this.itemMatrix(i, matrix));
+      this.atlas.rect(this.tiles[i], rect);
+      rects.setXYZW(slot, rect.x, rect.y, rect.z, rect.w);
+      opacities.setX(slot, 0.85 * this.fade[i]);
+      glows.setX(slot, this.emphasis[i]);
+      reveals.setX(slot, this.atlas.reveal(this.tiles[i], now));
+      this.slotItems[slot] = i;
+      slot++;
+    }
+    this.instances.count = slot;
+    this.instances.instanceMatrix.needsUpdate = true;
+    rects.needsUpdate = true;
+    opacities.needsUpdate = true;
+    glows.needsUpdate = true;
+    reveals.needsUpdate = true;
+    // Raycasting recomputes the bounds from the moved instances
+    this.instances.boundingSphere = null;
+
+    // Full-size textures cross-fade in over the item's atlas tile
+    let fading = false;
+    this.detailMeshes.forEach((mesh, k) => {
+      const entry = detail[k];
+      mesh.visible = !!entry;
+      if (!entry) return;
+      const [i, tex] = entry;
+      const uniforms = (mesh.material as THREE.ShaderMaterial).uniforms;
+      const mix = this.detailTextures!.reveal(this.items[i].image, now);
+      this.atlas!.rect(this.tiles[i], uniforms.atlasRect.value);
+      uniforms.detailMap.value = tex;
+      uniforms.detailMix.value = mix;
+      uniforms.thumbReveal.value = Math.max(mix, this.atlas!.reveal(this.tiles[i], now));
+      uniforms.thumbOpacity.value = 0.85 * this.fade[i];
+      uniforms.thumbGlow.value = this.emphasis[i];
+      this.itemMatrix(i, mesh.matrix);
+      mesh.userData.index = i;
+      if (mix < 1) fading = true;
+    });
+    return fading;
+  }
+
+  private createEdges() {
+    const tagSets = this.items.map((item) => new Set(item.tags));
+    const candidates: { a: number; b: number; weight: number }[][] = this.items.map(() => []);
+
+    for (let a = 0; a < this.items.length; a++) {
+      for (let b = a + 1; b < this.items.length; b++) {
+        let shared = 0;
+        tagSets[a].forEach((t) => {
+          if (tagSets[b].has(t)) shared++;
+        });
+        if (shared === 0) continue;
+        const union = tagSets[a].size + tagSets[b].size - shared;
+        const edge = { a, b, weight: shared / union };
+        candidates[a].push(edge);
+        candidates[b].push(edge);
+      }
+    }
+
+    // Keep each item's strongest links so dense tag overlap stays readable
+    const kept = new Set<{ a: number; b: number; weight: number }>();
+    candidates.forEach((list) => {
+      list
+        .sort((x, y) => y.weight - x.weight)
+        .slice(0, MAX_EDGES_PER_ITEM)
+        .forEach((e) => kept.add(e));
+    });
+    this.edges = [...kept].sort((x, y) => x.a - y.a || x.b - y.b);
+    if (this.edges.length === 0) return;
+
+    const geom = new THREE.BufferGeometry();
+    geom.setAttribute(
+      "position",
+      new THREE.BufferAttribute(new Float32Array(this.edges.length * 6), 3)
+    );
+    geom.setAttribute(
+      "color",
+      new THREE.BufferAttribute(new Float32Array(this.edges.length * 6), 3)
+    );
+    const mat = new THREE.LineBasicMaterial({
+      vertexColors: true,
+      transparent: true,
+      blending: this.edgeBlending(),
+      depthWrite: false,
+    });
+    this.edgeLines = new THREE.LineSegments(geom, mat);
+    this.scene.add(this.edgeLines);
+  }
+
+  // Additive lines vanish on a light backdrop, so those blend normally instead
+  private edgeBlending(): THREE.Blending {
+    const hsl = new THREE.Color(this.colors.background).getHSL({ h: 0, s: 0, l: 0 });
+    return hsl.l > 0.5 ? THREE.NormalBlending : THREE.AdditiveBlending;
+  }
+
+  /** Marks the item whose card is open so its lines stay highlighted. */
+  setSelectedIndex(index: number | null) {
+    if (this.selectedIndex === index) return;
+    this.labels.get(this.selectedIndex ?? -1)?.classList.remove("selected");
+    this.selectedIndex = index;
+    this.labels.get(index ?? -1)?.classList.add("selected");
+    this.edgeColorsDirty = true;
+    this.lastLabelSync = -Infinity;
+    this.invalidate();
+  }
+
+  private setHoveredIndex(index: number | null) {
+    if (this.hoveredIndex === index) return;
+    this.labels.get(this.hoveredIndex ?? -1)?.classList.remove("hovered");
+    this.hoveredIndex = index;
+    this.labels.get(index ?? -1)?.classList.add("hovered");
+    this.edgeColorsDirty = true;
+    this.lastLabelSync = -Infinity;
+    this.updateAutoRotate();
+    this.invalidate();
+  }
+
+  private updateEdges() {
+    if (!this.edgeLines) return;
+    const geom = this.edgeLines.geometry;
+    const pos = geom.getAttribute("position") as THREE.BufferAttribute;
+
+    this.edges.forEach((e, k) => {
+      const pa = this.currentPositions[e.a];
+      const pb = this.currentPositions[e.b];
+      pos.setXYZ(k * 2, pa.x, pa.y, pa.z);
+      pos.setXYZ(k * 2 + 1, pb.x, pb.y, pb.z);
+    });
+    pos.needsUpdate = true;
+
+    if (!this.edgeColorsDirty) return;
+    this.edgeColorsDirty = false;
+    const col = geom.getAttribute("color") as THREE.BufferAttribute;
+    const base = new THREE.Color(this.colors.edge);
+    const accent = new THREE.Color(this.colors.accent);
+    const additive = this.edgeBlending() === THREE.AdditiveBlending;
+    const background = new THREE.Color(additive ? 0x000000 : this.colors.background);
+    const target = new THREE.Color();
+    const c = new THREE.Color();
+    this.edges.forEach((e, k) => {
+      const lit = [this.hoveredIndex, this.selectedIndex].some(
+        (idx) => idx !== null && (idx === e.a || idx === e.b)
+      );
+      // Vertex colors closer to the backdrop read as fainter lines
+      const strength = lit ? 0.6 + 0.4 * e.weight : 0.08 + 0.3 * e.weight;
+      target.copy(lit ? accent : base);
+      c.copy(background).lerp(target, strength * Math.min(this.fade[e.a], this.fade[e.b]));
+      col.setXYZ(k * 2, c.r, c.g, c.b);
+      col.setXYZ(k * 2 + 1, c.r, c.g, c.b);
+    });
+    col.needsUpdate = true;
+  }
+
+  /** An accent rectangle drawn just outside a thumbnail's edges. */
+  private createOutline(opacity: number): THREE.LineLoop {
+    const w = 0.9 / 2;
+    const h = 0.63 / 2;
+    const geom = new THREE.BufferGeometry().setFromPoints([
+      new THREE.Vector3(-w, -h, 0),
+      new THREE.Vector3(w, -h, 0),
+      new THREE.Vector3(w, h, 0),
+      new THREE.Vector3(-w, h, 0),
+    ]);
+    const mat = new THREE.LineBasicMaterial({
+      color: this.colors.accent,
+      transparent: true,
+      opacity,
+      depthTest: false,
+    });
+    const outline = new THREE.LineLoop(geom, mat);
+    outline.matrixAutoUpdate = false;
+    outline.renderOrder = 10;
+    outline.visible = false;
+    this.scene.add(outline);
+    return outline;
+  }
+
+  private placeOutline(outline: THREE.LineLoop | null, index: number | null) {
+    if (!outline) return;
+    outline.visible = index !== null && this.fade[index] > 0;
+    if (index === null) return;
+    this.itemMatrix(index, outline.matrix);
+  }
+
+  /**
+   * Eases hovered/focused and selected thumbnails toward a larger, glowing
+   * state. Returns true while any of them is still changing.
+   */
+  private updateEmphasis(): boolean {
+    const active = this.hoveredIndex ?? this.focusedIndex;
+    let changed = false;
+    this.emphasis.forEach((value, i) => {
+      const target = i === active ? 1 : i === this.selectedIndex ? 0.5 : 0;
+      if (value === target) return;
+      changed = true;
+      const next = value + (target - value) * 0.2;
+      this.emphasis[i] = Math.abs(target - next) < 0.01 ? target : next;
+    });
+    this.placeOutline(this.hoverOutline, active);
+    this.placeOutline(this.selectedOutline, active === this.selectedIndex ? null : this.selectedIndex);
+    return changed;
+  }
+
+  /** The item's label, added to the DOM if it is not among the nearest. */
+  labelFor(index: number): HTMLButtonElement | undefined {
+    return this.items[index] ? this.mountLabel(index) : undefined;
+  }
+
+  /**
+   * Labels form a single tab stop (roving tabindex); arrow keys then move
+   * between thumbnails by where they appear on screen, not by DOM order.
+   * Buttons are recycled, so handlers read the item from `data-index`.
+   */
+  private createLabel(): HTMLButtonElement {
+    const btn = document.createElement("button");
+    btn.className = "label";
+    btn.setAttribute("part", "label");
+    const index = () => Number(btn.dataset.index);
+    btn.addEventListener("click", () => this.handlers.onItemClick(index()));
+    btn.addEventListener("keydown", (e) => this.handleLabelKey(e, index()));
+    btn.addEventListener("mouseenter", () => this.setHoveredIndex(index()));
+    btn.addEventListener("focus", () => {
+      this.setHoveredIndex(index());
+      this.setFocusedIndex(index());
+    });
+    btn.addEventListener("mouseleave", () => this.setHoveredIndex(null));
+    btn.addEventListener("blur", () => {
+      this.setHoveredIndex(null);
+      this.setFocusedIndex(null);
+    });
+    return btn;
+  }
+
+  private mountLabel(index: number): HTMLButtonElement {
+    let btn = this.labels.get(index);
+    if (btn) return btn;
+    btn = this.labelPool.pop() ?? this.createLabel();
+    btn.dataset.index = String(index);
+    btn.textContent = this.items[index].title;
+    this.labelStyles.delete(btn);
+    this.labelSizes.delete(btn);
+    this.labels.set(index, btn);
+    this.refreshLabel(index, btn);
+    this.labelLayer.appendChild(btn);
+    return btn;
+  }
+
+  private unmountLabel(index: number, btn: HTMLButtonElement) {
+    btn.remove();
+    btn.removeAttribute("style");
+    this.labels.delete(index);
+    this.labelPool.push(btn);
+  }
+
+  /** Applies filter, hover, selection and tab-stop state to a mounted label. */
+  private refreshLabel(index: number, btn: HTMLButtonElement) {
+    const visible = this.visibleMask[index];
+    btn.disabled = !visible;
+    btn.tabIndex = index === this.tabStop ? 0 : -1;
+    btn.classList.toggle("filtered-out", !visible);
+    btn.classList.toggle("hovered", index === this.hoveredIndex);
+    btn.classList.toggle("selected", index === this.selectedIndex);
+    if (visible) btn.removeAttribute("aria-hidden");
+    else btn.setAttribute("aria-hidden", "true");
+    btn.setAttribute("aria-label", this.describe(index));
+  }
+
+  /** e.g. "Living River Campaign, 2 of 10, tagged Advocacy, Digital Campaign". */
+  private describe(index: number): string {
+    const item = this.items[index];
+    const parts = [item.title];
+    const rank = this.visibleRank[index];
+    if (rank >= 0) parts.push(`${rank + 1} of ${this.visibleCount}`);
+    if (item.tags.length > 0) parts.push(`tagged ${item.tags.join(", ")}`);
+    return parts.join(", ");
+  }
+
+  private updateVisibleRanks() {
+    let rank = 0;
+    this.visibleRank = this.visibleMask.map((visible) => (visible ? rank++ : -1));
+    this.visibleCount = rank;
+  }
+
+  /**
+   * Keeps the labels of the nearest items in view in the DOM, along with any
+   * that are focused, hovered, selected or hold the tab stop.
+   */
+  private syncLabels() {
+    const candidates = this.inView.filter((i) => this.visibleMask[i]);
+    const wanted = new Set(
+      [
+        ...candidates.filter((i) => this.items[i].featured),
+        ...candidates.filter((i) => !this.items[i].featured),
+      ].slice(0, LABEL_LIMIT)
+    );
+    [this.focusedIndex, this.hoveredIndex, this.selectedIndex, this.tabStop].forEach((i) => {
+      if (i !== null && this.items[i]) wanted.add(i);
+    });
+    this.labels.forEach((btn, i) => {
+      if (!wanted.has(i) && !btn.matches(":focus")) this.unmountLabel(i, btn);
+    });
+    wanted.forEach((i) => this.mountLabel(i));
+  }
+
+  private setFocusedIndex(index: number | null) {
+    this.focusedIndex = index;
+    this.invalidate();
+    if (index === null) return;
+    const previous = this.tabStop;
+    this.tabStop = index;
+    [previous, index].forEach((i) => {
+      const btn = this.labels.get(i);
+      if (btn) btn.tabIndex = i === index ? 0 : -1;
+    });
+    this.keepInView(index);
+  }
+
+  /** Projects an item's position to normalized device coordinates. */
+  private screenPosition(index: number): THREE.Vector3 {
+    return this.currentPositions[index].clone().project(this.camera);
+  }
+
+  /** Turns the camera when a focused item sits near the edge or behind it. */
+  private keepInView(index: number) {
+    const p = this.screenPosition(index);
+    if (p.z > 1 || Math.abs(p.x) > 0.75 || Math.abs(p.y) > 0.75) this.focusItem(index);
+  }
+
+  private handleLabelKey(e: KeyboardEvent, index: number) {
+    const dirs: Record<string, [number, number]> = {
+      ArrowLeft: [-1, 0],
+      ArrowRight: [1, 0],
+      ArrowUp: [0, 1],
+      ArrowDown: [0, -1],
+    };
+    const visible = this.items.map((_, i) => i).filter((i) => this.visibleMask[i]);
+    let target: number | null = null;
+
+    if (e.key in dirs) {
+      target = this.nearestInDirection(index, dirs[e.key], visible);
+    } else if (e.key === "Home") {
+      target = visible[0] ?? null;
+    } else if (e.key === "End") {
+      target = visible[visible.length - 1] ?? null;
+    } else {
+      return;
+    }
+    e.preventDefault();
+    if (target !== null) this.mountLabel(target).focus();
+  }
+
+  /**
+   * Picks the closest item lying roughly in the given screen direction,
+   * penalising sideways offset so "right" means right, not diagonally up.
+   */
+  private nearestInDirection(
+    from: number,
+    [dx, dy]: [number, number],
+    candidates: number[]
+  ): number | null {
+    const origin = this.screenPosition(from);
+    let best: number | null = null;
+    let bestScore = Infinity;
+    candidates.forEach((i) => {
+      if (i === from) return;
+      const p = this.screenPosition(i);
+      if (p.z > 1) return; // behind the camera
+      const along = (p.x - origin.x) * dx + (p.y - origin.y) * dy;
+      if (along <= 0.01) return;
+      const across = Math.abs((p.x - origin.x) * dy - (p.y - origin.y) * dx);
+      const score = along + across * 2;
+      if (score < bestScore) {
+        bestScore = score;
+        best = i;
+      }
+    });
+    return best;
+  }
+
+  /**
+   * Swaps in a new item list, matched to the current one by id. Returns false
+   * when the atlas has no room for the added items; the scene should then be
+   * rebuilt instead.
+   */
+  setItems(items: PortfolioItem[]): boolean {
+    const atlas = this.atlas;
+    const previous = this.indexById;
+    const added = items.filter((item) => !previous.has(item.id)).length;
+    if (!atlas || added > atlas.available) return false;
+
+    const now = performance.now();
+    const indexById = new Map(items.map((item, k) => [item.id, k]));
+    this.items.forEach((item, i) => {
+      if (!indexById.has(item.id)) this.depart(i, now);
+    });
+
+    // Carry per-item state over to the new order
+    const from = items.map((item) => previous.get(item.id));
+    const carry = <T>(values: T[], fallback: T): T[] =>
+      from.map((i) => (i === undefined ? fallback : values[i]));
+    const remap = (i: number | null) =>
+      i === null ? null : indexById.get(this.items[i]?.id) ?? null;
+
+    this.basePositions = computeLayout(items, this.layout);
+    this.moveFrom = items.map((_, k) => {
+      const i = from[k];
+      if (i !== undefined) return this.currentPositions[i].clone();
+      const base = this.basePositions[k];
+      const out = base.lengthSq() > 1e-6 ? base.clone().normalize() : new THREE.Vector3(0, 0, -1);
+      return base.clone().addScaledVector(out, 3);
+    });
+    this.currentPositions = this.moveFrom.map((p) => p.clone());
+    this.moveStart = now;
+    this.rotations = carry(this.rotations, 0);
+    this.visibleMask = carry(this.visibleMask, true);
+    this.fade = carry(this.fade, 0);
+    this.emphasis = carry(this.emphasis, 0);
+    this.tiles = carry(this.tiles, -1);
+    this.hoveredIndex = remap(this.hoveredIndex);
+    this.selectedIndex = remap(this.selectedIndex);
+    this.focusedIndex = remap(this.focusedIndex);
+    this.tabStop = remap(this.tabStop) ?? 0;
+
+    // Re-key mounted labels; those of removed items go back to the pool
+    const labels = this.labels;
+    let hadFocus = false;
+    this.labels = new Map();
+    labels.forEach((btn, i) => {
+      const k = indexById.get(this.items[i].id);
+      if (k === undefined) {
+        hadFocus ||= btn.matches(":focus");
+        btn.remove();
+        btn.removeAttribute("style");
+        this.labelPool.push(btn);
+        return;
+      }
+      btn.dataset.index = String(k);
+      btn.textContent = items[k].title;
+      this.labelSizes.delete(btn);
+      this.labels.set(k, btn);
+    });
+
+    this.items = items;
+    this.indexById = indexById;
+    from.forEach((i, k) => {
+      if (i === undefined) this.tiles[k] = this.claimTile(items[k]);
+    });
+    this.inView = [];
+
+    if (this.edgeLines) {
+      this.scene.remove(this.edgeLines);
+      this.edgeLines.geometry.dispose();
+      (this.edgeLines.material as THREE.Material).dispose();
+      this.edgeLines = null;
+    }
+    this.createEdges();
+    this.edgeColorsDirty = true;
+
+    this.updateVisibleRanks();
+    this.labels.forEach((btn, i) => this.refreshLabel(i, btn));
+    this.lastLabelSync = -Infinity;
+    this.updateAutoRotate();
+    // Focus was on a removed label: hand it to the tab stop
+    if (hadFocus && this.items.length > 0) this.labelFor(this.tabStop)?.focus();
+    this.handlers.onProgress(atlas.progress);
+    this.invalidate();
+    return true;
+  }
+
+  /** Leaves a shrinking copy of a removed item behind; its tile is freed after. */
+  private depart(index: number, now: number) {
+    const atlas = this.atlas!;
+    const tile = this.tiles[index];
+    if (this.fade[index] === 0) {
+      if (tile >= 0) atlas.release(tile);
+      return;
+    }
+    const material = createThumbMaterial(atlas.texture, this.colors);
+    atlas.rect(tile, material.uniforms.atlasRect.value);
+    material.uniforms.thumbReveal.value = atlas.reveal(tile, now);
+    const mesh = new THREE.Mesh(this.thumbGeometry, material);
+    mesh.matrixAutoUpdate = false;
+    this.scene.add(mesh);
+    this.departing.push({
+      mesh,
+      tile,
+      position: this.currentPositions[index].clone(),
+      rotation: this.rotations[index],
+      opacity: 0.85 * this.fade[index],
+      start: now,
+    });
+  }
+
+  /** Eases items to their places after a live update. Returns true while moving. */
+  private updateMoves(now: number): boolean {
+    if (this.moveFrom.length === 0) return false;
+    const t = Math.min(1, (now - this.moveStart) / UPDATE_DURATION);
+    const k = easeInOutCubic(t);
+    this.moveFrom.forEach((from, i) => {
+      this.currentPositions[i].lerpVectors(from, this.basePositions[i], k);
+    });
+    if (t === 1) this.moveFrom = [];
+    return true;
+  }
+
+  /** Shrinks and fades removed items. Returns true while any remain. */
+  private updateDeparting(now: number): boolean {
+    this.departing = this.departing.filter((d) => {
+      const t = Math.min(1, (now - d.start) / UPDATE_DURATION);
+      const material = d.mesh.material as THREE.ShaderMaterial;
+      if (t < 1) {
+        material.uniforms.thumbOpacity.value = d.opacity * (1 - t);
+        d.mesh.matrix.compose(
+          d.position,
+          this.scratchQuaternion.setFromAxisAngle(Y_AXIS, d.rotation),
+          this.scratchScale.setScalar(1 - 0.6 * easeInOutCubic(t))
+        );
+        return true;
+      }
+      this.scene.remove(d.mesh);
+      material.dispose();
+      if (d.tile >= 0) this.atlas?.release(d.tile);
+      return false;
+    });
+    return this.departing.length > 0;
+  }
+
+  /**
+   * Fades filtered-out thumbnails, lines and labels instead of rebuilding the
+   * scene. Hidden items stop responding to clicks and leave the tab order.
+   */
+  setVisibleItems(mask: boolean[]) {
+    this.visibleMask = this.items.map((_, i) => mask[i] !== false);
+    if (this.hoveredIndex !== null && !this.visibleMask[this.hoveredIndex]) {
+      this.setHoveredIndex(null);
+    }
+    // Keep the roving tab stop on an item that can still be focused
+    if (!this.visibleMask[this.tabStop]) this.tabStop = Math.max(0, this.visibleMask.indexOf(true));
+    this.updateVisibleRanks();
+    this.labels.forEach((btn, i) => this.refreshLabel(i, btn));
+    this.lastLabelSync = -Infinity;
+    this.invalidate();
+  }
+
+  /** Returns true while any item is still fading. */
+  private updateFade(): boolean {
+    let changed = false;
+    this.fade.forEach((value, i) => {
+      const target = this.visibleMask[i] ? 1 : 0;
+      if (value === target) return;
+      changed = true;
+      const next = value + (target - value) * 0.12;
+      this.fade[i] = Math.abs(target - next) < 0.01 ? target : next;
+      this.edgeColorsDirty = true;
+    });
+    return changed;
+  }
+
+  private setPointer(e: MouseEvent) {
+    const rect = this.canvas.getBoundingClientRect();
+    this.mouse.x = ((e.clientX - rect.left) / rect.width) * 2 - 1;
+    this.mouse.y = -((e.clientY - rect.top) / rect.height) * 2 + 1;
+  }
+
+  /** Index of the visible thumbnail under the pointer, if any. */
+  private pick(): number | null {
+    if (!this.instances) return null;
+    this.raycaster.setFromCamera(this.mouse, this.camera);
+    const hits = this.raycaster.intersectObjects(
+      [this.instances, ...this.detailMeshes.filter((m) => m.visible)],
+      false
+    );
+    for (const hit of hits) {
+      const idx =
+        hit.object === this.instances && hit.instanceId !== undefined
+          ? this.slotItems[hit.instanceId]
+          : hit.object.userData.index;
+      if (typeof idx === "number" && this.visibleMask[idx]) return idx;
+    }
+    return null;
+  }
 
-  // Procedural star field
-  private stars: THREE.Points | null = null;
+  private handleCanvasClick = (e: MouseEvent) => {
+    this.setPointer(e);
+    const idx = this.pick();
+    if (idx !== null) this.handlers.onItemClick(idx);
+  };
 
-  // Orbit positions
-  private basePositions: THREE.Vector3[] = [];
-  private currentPositions: THREE.Vector3[] = [];
+  // Raycasting waits for the next frame, so a burst of moves costs one cast
+  private handlePointerMove = (e: PointerEvent) => {
+    if (e.pointerType === "touch") return;
+    this.setPointer(e);
+    this.pointerMoved = true;
+    this.pointerInside = true;
+    this.invalidate();
+  };
 
-  constructor(
-    container: HTMLDivElement,
-    labelLayer: HTMLDivElement,
-    items: PortfolioItem[],
-    accent: string,
-    onItemClick: (index: number) => void
+  private handlePointerLeave = () => {
+    this.pointerMoved = false;
+    if (!this.pointerInside) return;
+    this.pointerInside = false;
+    this.canvas.style.cursor = "";
+    this.setHoveredIndex(null);
+  };
+
+  private updateHover() {
+    if (!this.pointerMoved) return;
+    this.pointerMoved = false;
+    const idx = this.pick();
+    this.canvas.style.cursor = idx !== null ? "pointer" : "";
+    this.setHoveredIndex(idx);
+  }
+
+  /** Schedules a frame, unless one is already pending or the scene is paused. */
+  private invalidate = () => {
+    if (this.animId || this.paused) return;
+    this.animId = requestAnimationFrame(this.animate);
+  };
+
+  private get paused(): boolean {
+    // A fly-to still finishes behind the card (e.g. stepping to the next item)
+    return !this.onScreen || document.hidden || (this.covered && !this.flight);
+  }
+
+  // Keyboard focus also highlights its item as hovered, but only counts while
+  // the camera turns to it: a label left focused falls back to the idle cap
+  private get interacting(): boolean {
+    return (
+      this.dragging ||
+      !!this.flight ||
+      !!this.flyGoal ||
+      (this.hoveredIndex !== null && this.hoveredIndex !== this.focusedIndex)
+    );
+  }
+
+  private animate = (now: number) => {
+    this.animId = 0;
+    if (this.paused) return;
+
+    // Cap the frame rate while nobody is interacting
+    if (!this.interacting && now - this.lastFrame < 1000 / this.idleFps - 2) {
+      this.invalidate();
+      return;
+    }
+    this.lastFrame = now;
+    const started = performance.now();
+    if (this.motion) this.drift(now * 0.001);
+    let changed = this.updateMoves(now);
+
+    this.updateFly();
+    this.updateFlight();
+    changed = this.controls.update() || changed;
+    this.camera.updateMatrixWorld();
+
+    this.updateHover();
+    changed = this.updateFade() || changed;
+    changed = this.updateEmphasis() || changed;
+    this.updateEdges();
+    changed = this.updateThumbnails(now) || changed;
+    changed = this.updateDeparting(now) || changed;
+    changed = this.updateLabels(now) || changed;
+    changed = (this.atlas?.flush(now) ?? false) || changed;
+    this.shared.render(this.scene, this.camera, this.context2d);
+    this.recordFrame(now, started);
+
+    // Without drift or auto-rotation, frames stop once everything settles
+    if (this.motion || changed) this.invalidate();
+  };
+
+  private recordFrame(now: number, started: number) {
+    this.frameStarts.push(now);
+    this.frameDurations.push(performance.now() - started);
+    if (this.frameStarts.length > FRAME_STATS_SIZE) {
+      this.frameStarts.shift();
+      this.frameDurations.shift();
+    }
+  }
+
+  get frameStats(): SolarPortfolioFrameStats {
+    const since = performance.now() - 1000;
+    return {
+      durations: this.frameDurations.slice(),
+      fps: this.frameStarts.filter((t) => t >= since).length,
+    };
+  }
+
+  /** Orbital movement */
+  private drift(time: number) {
+    this.currentPositions.forEach((cur, i) => {
+      const base = this.basePositions[i];
+      const speed = 0.08 + i * 0.01;
+      const offset = (i * Math.PI * 2) / this.items.length;
+      const angle = time * speed + offset;
+      const r = 0.4;
+
+      const tx = base.x + Math.cos(angle) * r * 0.45;
+      const ty = base.y + Math.sin(angle * 0.7) * r * 0.3;
+      const tz = base.z + Math.sin(angle * 0.5) * r * 0.25;
+
+      cur.x += (tx - cur.x) * 0.02;
+      cur.y += (ty - cur.y) * 0.02;
+      cur.z += (tz - cur.z) * 0.02;
+
+      this.rotations[i] = Math.sin(time * 0.3 + offset) * 0.05;
+    });
+  }
+
+  /**
+   * Places labels next to their thumbnails. Which labels are mounted is
+   * re-evaluated a few times a second; style writes are batched after all
+   * reads and skipped when nothing changed. Returns true while a re-evaluation
+   * is still due.
+   */
+  private updateLabels(now: number): boolean {
+    const syncDue = now - this.lastLabelSync >= 200;
+    if (syncDue) {
+      this.syncLabels();
+      this.lastLabelSync = now;
+    }
+
+    // Measure newly mounted labels in one pass, before any style writes
+    this.labels.forEach((btn) => {
+      if (!this.labelSizes.has(btn)) this.labelSizes.set(btn, [btn.offsetWidth, btn.offsetHeight]);
+    });
+
+    const placements = this.placeLabels();
+    const writes: [HTMLButtonElement, LabelPlacement][] = [];
+    placements.forEach((placement) => {
+      const { btn, x, y, scale, blur, opacity, crowded } = placement;
+      const key = `${x.toFixed(1)}|${y.toFixed(1)}|${scale.toFixed(2)}|${blur}|${opacity.toFixed(2)}|${crowded}`;
+      if (this.labelStyles.get(btn) === key) return;
+      this.labelStyles.set(btn, key);
+      writes.push([btn, placement]);
+    });
+    writes.forEach(([btn, { x, y, scale, blur, opacity, crowded }]) => {
+      btn.style.transform = `translate3d(${x.toFixed(1)}px, ${y.toFixed(1)}px, 0) translate(-50%, -50%) scale(${scale.toFixed(2)})`;
+      btn.style.filter = `blur(${blur}px)`;
+      btn.style.opacity = opacity.toFixed(2);
+      btn.classList.toggle("crowded", crowded);
+    });
+    return !syncDue;
+  }
+
+  /**
+   * Collision pass over the mounted labels. Focused, hovered and selected
+   * labels are placed first, then featured items, then nearer ones. Each
+   * label tries below its thumbnail, then above, then nudged sideways; labels
+   * with nowhere free are hidden until there is room. All stay inside the canvas.
+   */
+  private placeLabels(): LabelPlacement[] {
+    const w = this.canvas.clientWidth;
+    const h = this.canvas.clientHeight;
+    const toScreen = (p: THREE.Vector3) => ({
+      x: (p.x * 0.5 + 0.5) * w,
+      y: (-p.y * 0.5 + 0.5) * h,
+      behind: p.z > 1,
+    });
+    const pinned = new Set([this.focusedIndex, this.hoveredIndex, this.selectedIndex]);
+
+    const entries = [...this.labels].map(([i, btn]) => {
+      const pos = this.currentPositions[i];
+      const below = toScreen(pos.clone().setY(pos.y - 0.38).project(this.camera));
+      const above = toScreen(pos.clone().setY(pos.y + 0.38).project(this.camera));
+      const dist = this.camera.position.distanceTo(pos);
+      // Depth cues: further labels are smaller, blurrier and fainter
+      const blur = Math.round(Math.max(0, Math.min(4, (dist - 4) * 1.2)) * 4) / 4;
+      const scale = THREE.MathUtils.clamp(5 / dist, 0.8, 1.15);
+      const opacity = below.behind ? 0 : Math.max(0.3, 1 - blur * 0.15) * this.fade[i];
+      const rank = pinned.has(i) ? 0 : this.items[i].featured ? 1 : 2;
+      return { i, btn, below, above, dist, blur, scale, opacity, rank };
+    });
+    entries.sort((a, b) => a.rank - b.rank || a.dist - b.dist);
+
+    const taken: { x: number; y: number; w: number; h: number }[] = [];
+    const overlaps = (r: { x: number; y: number; w: number; h: number }) =>
+      taken.some((t) => Math.abs(t.x - r.x) * 2 < t.w + r.w && Math.abs(t.y - r.y) * 2 < t.h + r.h);
+
+    return entries.map(({ i, btn, below, above, blur, scale, opacity, rank }) => {
+      const [bw, bh] = this.labelSizes.get(btn) ?? [0, 0];
+      const lw = bw * scale + 4;
+      const lh = bh * scale + 2;
+      const clamp = (x: number, y: number) => ({
+        x: THREE.MathUtils.clamp(x, lw / 2, Math.max(lw / 2, w - lw / 2)),
+        y: THREE.MathUtils.clamp(y, lh / 2, Math.max(lh / 2, h - lh / 2)),
+        w: lw,
+        h: lh,
+      });
+      const fallback = clamp(below.x, below.y);
+      if (opacity === 0) {
+        return { btn, x: fallback.x, y: fallback.y, scale, blur, opacity, crowded: false };
+      }
+      const candidates = [
+        fallback,
+        clamp(above.x, above.y),
+        clamp(below.x - lw / 2, below.y),
+        clamp(below.x + lw / 2, below.y),
+        clamp(below.x, below.y + lh),
+      ];
+      let spot = candidates.find((c) => !overlaps(c));
+      const crowded = !spot && rank > 0 && !this.labels.get(i)?.matches(":focus");
+      if (!spot) spot = fallback;
+      if (!crowded) taken.push(spot);
+      return { btn, x: spot.x, y: spot.y, scale, blur, opacity, crowded };
+    });
+  }
+
+  destroy() {
+    cancelAnimationFrame(this.animId);
+    this.flight?.done();
+    this.controls.removeEventListener("start", this.handleControlsStart);
+    this.controls.removeEventListener("end", this.handleControlsEnd);
+    this.controls.removeEventListener("change", this.invalidate);
+    this.controls.dispose();
+    this.resizeObserver.disconnect();
+    this.intersectionObserver.disconnect();
+    document.removeEventListener("visibilitychange", this.invalidate);
+    this.canvas.removeEventListener("click", this.handleCanvasClick);
+    this.canvas.removeEventListener("pointermove", this.handlePointerMove);
+    this.canvas.removeEventListener("pointerleave", this.handlePointerLeave);
+    this.thumbGeometry.dispose();
+    if (this.instances) {
+      this.instances.geometry.dispose();
+      (this.instances.material as THREE.Material).dispose();
+      this.instances.dispose();
+    }
+    this.detailMeshes.forEach((m) => (m.material as THREE.Material).dispose());
+    this.departing.forEach((d) => (d.mesh.material as THREE.Material).dispose());
+    this.imageQueue.dispose();
+    this.atlas?.dispose();
+    this.detailTextures?.dispose();
+    if (this.stars) {
+      this.stars.geometry.dispose();
+      (this.stars.material as THREE.Material).dispose();
+    }
+    if (this.edgeLines) {
+      this.edgeLines.geometry.dispose();
+      (this.edgeLines.material as THREE.Material).dispose();
+    }
+    [this.hoverOutline, this.selectedOutline].forEach((outline) => {
+      if (!outline) return;
+      outline.geometry.dispose();
+      (outline.material as THREE.Material).dispose();
+    });
+    this.shared.release();
+  }
+}
+
+// ─── Custom Element ──────────────────────────────────────────────────────────
+
+class SolarPortfolio extends HTMLElement {
+  static observedAttributes = [
+    "data-json",
+    "data-src",
+    "variant",
+    "poster",
+    "accent",
+    "layout",
+    "filters",
+    "search",
+    "routing",
+    "namespace",
+    "strict",
+    "quality",
+    "fps",
+    "crossorigin",
+    "persist",
+    "timeout",
+    "refresh",
+    "live",
+    "theme",
+  ];
+
+  private shadow: ShadowRoot;
+  private container: HTMLDivElement;
+  private portfolioItems: PortfolioItem[] = [];
+  private descriptionFormat: DescriptionFormat = "text";
+  private scene: ConstellationScene | null = null;
+  // Set while the grid stands in for a constellation whose WebGL context was lost
+  private sceneLost = false;
+  private unsubscribeContext: (() => void) | null = null;
+  private colorScheme = window.matchMedia("(prefers-color-scheme: light)");
+  private carousel: MediaCarousel | null = null;
+  private returnFocus: HTMLElement | null = null;
+  private announcer: HTMLElement | null = null;
+  private activeIndex: number | null = null;
+  // What the open card was last drawn with (see `cardState`)
+  private shownCard: string | null = null;
+  private activeTags = new Set<string>();
+  private gridItems: HTMLElement[] = [];
+  private resultCount: HTMLElement | null = null;
+  private query = "";
+  private searchResults: SearchResult[] | null = null;
+  private searchInput: HTMLInputElement | null = null;
+  private routingFromUrl = false;
+  private itemsAssigned = false;
+  private assignedWarnings: ValidationWarning[] = [];
+  private loadController: AbortController | null = null;
+  private unsubscribeData: (() => void) | null = null;
+  private refreshTimer: ReturnType<typeof setInterval> | undefined;
+  private eventSource: EventSource | null = null;
+  // Whether items are loaded and rendered, so view attributes can re-render them
+  private ready = false;
+
+  addEventListener<K extends keyof SolarPortfolioEventMap>(
+    type: K,
+    listener: (this: SolarPortfolio, ev: SolarPortfolioEventMap[K]) => any,
+    options?: boolean | AddEventListenerOptions
+  ): void;
+  addEventListener<K extends keyof HTMLElementEventMap>(
+    type: K,
+    listener: (this: SolarPortfolio, ev: HTMLElementEventMap[K]) => any,
+    options?: boolean | AddEventListenerOptions
+  ): void;
+  addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | AddEventListenerOptions
+  ): void;
+  addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | AddEventListenerOptions
   ) {
-    this.items = items;
-    this.accentColor = accent;
-    this.onItemClick = onItemClick;
-    this.labelLayer = labelLayer;
+    super.addEventListener(type, listener, options);
+  }
 
-    // Renderer
-    this.renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true });
-    this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
-    this.renderer.outputColorSpace = THREE.SRGBColorSpace;
-    container.appendChild(this.renderer.domElement);
+  removeEventListener<K extends keyof SolarPortfolioEventMap>(
+    type: K,
+    listener: (this: SolarPortfolio, ev: SolarPortfolioEventMap[K]) => any,
+    options?: boolean | EventListenerOptions
+  ): void;
+  removeEventListener<K extends keyof HTMLElementEventMap>(
+    type: K,
+    listener: (this: SolarPortfolio, ev: HTMLElementEventMap[K]) => any,
+    options?: boolean | EventListenerOptions
+  ): void;
+  removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | EventListenerOptions
+  ): void;
+  removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | EventListenerOptions
+  ) {
+    super.removeEventListener(type, listener, options);
+  }
 
-    // Scene
-    this.scene = new THREE.Scene();
+  constructor() {
+    super();
+    this.shadow = this.attachShadow({ mode: "open" });
 
-    // Camera
-    this.camera = new THREE.PerspectiveCamera(50, 2, 0.1, 100);
-    this.camera.position.set(0, 0, 5);
+    // Base styles
+    const style = document.createElement("style");
+    style.textContent = COMPONENT_STYLES;
+    this.shadow.appendChild(style);
 
-    // Controls
-    this.controls = new OrbitControls(this.camera, this.renderer.domElement);
-    this.controls.enableZoom = false;
-    this.controls.enablePan = false;
-    this.controls.autoRotate = true;
-    this.controls.autoRotateSpeed = 0.3;
-    this.controls.enableDamping = true;
-    this.controls.dampingFactor = 0.05;
-    this.controls.minPolarAngle = Math.PI / 4;
-    this.controls.maxPolarAngle = (Math.PI * 3) / 4;
+    this.container = document.createElement("div");
+    this.container.className = "container";
+    this.shadow.appendChild(this.container);
+  }
 
-    // Lights
-    this.scene.add(new THREE.AmbientLight(0xffffff, 0.6));
-    const point1 = new THREE.PointLight(0xffffff, 0.8);
-    point1.position.set(5, 5, 5);
-    this.scene.add(point1);
-    const point2 = new THREE.PointLight(0xf5c847, 0.4);
-    point2.position.set(-5, -5, 5);
-    this.scene.add(point2);
+  connectedCallback() {
+    window.addEventListener("popstate", this.handleRouteChange);
+    window.addEventListener("hashchange", this.handleRouteChange);
+    this.unsubscribeContext = SharedRenderer.onContextChange(this.handleContextChange);
+    this.colorScheme.addEventListener("change", this.handleThemeChange);
+    this.upgradeProperties();
+    this.load();
+    this.startLiveUpdates();
+  }
 
-    // Build scene
-    this.createStars();
-    this.createThumbnails();
-    this.createLabels();
+  disconnectedCallback() {
+    window.removeEventListener("popstate", this.handleRouteChange);
+    window.removeEventListener("hashchange", this.handleRouteChange);
+    this.unsubscribeContext?.();
+    this.unsubscribeContext = null;
+    this.colorScheme.removeEventListener("change", this.handleThemeChange);
+    this.loadController?.abort();
+    this.unsubscribeData?.();
+    this.unsubscribeData = null;
+    this.stopLiveUpdates();
+    this.scene?.destroy();
+    this.scene = null;
+  }
 
-    // Resize
-    this.resize();
-    window.addEventListener("resize", this.resize);
+  attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null) {
+    if (!this.isConnected || oldValue === newValue) return;
+    switch (name) {
+      case "accent":
+        this.updateAccentColor();
+        this.handleThemeChange();
+        break;
+      case "theme":
+        this.handleThemeChange();
+        break;
+      case "poster":
+      case "persist":
+      case "timeout":
+        // Only read while loading
+        break;
+      case "refresh":
+      case "live":
+        this.startLiveUpdates();
+        break;
+      case "routing":
+      case "namespace":
+        if (this.ready) this.handleRouteChange();
+        break;
+      case "variant":
+      case "layout":
+      case "filters":
+      case "search":
+      case "quality":
+      case "fps":
+      case "crossorigin":
+        // A load in progress renders with the new value anyway
+        if (this.ready) this.rerender();
+        break;
+      default:
+        // Data sources and `strict`
+        this.load();
+    }
+  }
 
-    // Click detection
-    this.renderer.domElement.addEventListener("click", this.handleCanvasClick);
+  // ── Public API ─────────────────────────────────────────────────────────────
 
-    // Start
-    this.animate();
+  /** A copy of the loaded items. */
+  get items(): PortfolioItem[] {
+    return this.portfolioItems.slice();
   }
 
-  private resize = () => {
-    const parent = this.renderer.domElement.parentElement;
-    if (!parent) return;
-    const w = parent.clientWidth;
-    const h = parent.clientHeight;
-    this.renderer.setSize(w, h);
-    this.camera.aspect = w / h;
-    this.camera.updateProjectionMatrix();
-  };
+  /** Replaces the items and re-renders without fetching anything. */
+  set items(items: PortfolioItem[]) {
+    this.assignData({ items });
+    if (this.isConnected) this.load();
+  }
 
-  private createStars() {
-    const count = 120;
-    const positions = new Float32Array(count * 3);
-    for (let i = 0; i < count; i++) {
-      const phi = (i / count) * Math.PI * 2 * 5.7;
-      const theta = (i / count) * Math.PI * 3.2;
-      const radius = 2.5 + (i % 7) * 0.4;
-      positions[i * 3] = Math.cos(phi) * Math.sin(theta) * radius;
-      positions[i * 3 + 1] = Math.sin(phi) * Math.sin(theta) * radius * 0.6;
-      positions[i * 3 + 2] = Math.cos(theta) * radius * 0.8;
+  /**
+   * Cost of the constellation's recent frames, measured inside its render
+   * loop; null while no constellation is shown.
+   */
+  get frameStats(): SolarPortfolioFrameStats | null {
+    return this.scene?.frameStats ?? null;
+  }
+
+  /** The loaded data in `portfolio.json` shape. */
+  get data(): PortfolioData {
+    return { descriptionFormat: this.descriptionFormat, items: this.items };
+  }
+
+  /** Same as setting `items`, for data already in `portfolio.json` shape. */
+  set data(data: PortfolioData) {
+    this.assignData(data);
+    if (this.isConnected) this.load();
+  }
+
+  /**
+   * Replaces the items like `items`, but animates the change. Projects are
+   * matched by `id`, and an open card stays open. Once something is shown,
+   * this is one more live update: `refresh`, `live` and `data-json`
+   * revalidation keep running and later updates replace these items.
+   */
+  setItems(items: PortfolioItem[]) {
+    if (!this.ready) {
+      this.items = items;
+      return;
     }
-    const geom = new THREE.BufferGeometry();
-    geom.setAttribute("position", new THREE.BufferAttribute(positions, 3));
-    const mat = new THREE.PointsMaterial({
-      color: 0xffffff,
-      size: 0.03,
-      transparent: true,
-      opacity: 0.4,
-      sizeAttenuation: true,
+    const loaded = normalizePortfolioData({ items });
+    if (this.itemsAssigned) this.assignedWarnings = loaded.warnings;
+    this.updateItems(loaded);
+  }
+
+  /** Opens the card for the item with this id. Returns false if there is none. */
+  open(id: string): boolean {
+    const index = this.portfolioItems.findIndex((item) => item.id === id);
+    if (index < 0) return false;
+    this.showCard(index);
+    return true;
+  }
+
+  close() {
+    this.hideCard();
+  }
+
+  /** Steps to the next visible item, or opens the first one if no card is open. */
+  next() {
+    const target = this.neighbor(1);
+    if (target !== null) this.showCard(target);
+  }
+
+  /** Steps to the previous visible item, or opens the last one if no card is open. */
+  prev() {
+    const target = this.neighbor(-1);
+    if (target !== null) this.showCard(target);
+  }
+
+  /**
+   * Reads the data source again and re-renders; a cached `data-json` is
+   * checked with the server first. Items assigned from script are simply
+   * re-rendered.
+   */
+  reload(): Promise<void> {
+    return this.load(true);
+  }
+
+  /** Returns false if a cancelable event had `preventDefault()` called on it. */
+  private emit<K extends keyof SolarPortfolioEventMap>(
+    type: K,
+    detail: SolarPortfolioEventMap[K]["detail"],
+    cancelable = false
+  ): boolean {
+    return this.dispatchEvent(
+      new CustomEvent(type, { detail, bubbles: true, composed: true, cancelable })
+    );
+  }
+
+  private get accent(): string | null {
+    return this.getAttribute("accent");
+  }
+
+  private get variant(): string {
+    return this.getAttribute("variant") || "constellation";
+  }
+
+  private get layout(): LayoutMode {
+    const value = this.getAttribute("layout") as LayoutMode | null;
+    return value && LAYOUT_MODES.includes(value) ? value : "clusters";
+  }
+
+  private get quality(): RenderQuality {
+    const value = this.getAttribute("quality") as RenderQuality | null;
+    return value && RENDER_QUALITIES.includes(value) ? value : "balanced";
+  }
+
+  private get fps(): number | null {
+    const value = Number(this.getAttribute("fps"));
+    return value > 0 ? Math.min(value, 120) : null;
+  }
+
+  private get crossOrigin(): CrossOrigin {
+    return this.getAttribute("crossorigin") === "use-credentials" ? "use-credentials" : "anonymous";
+  }
+
+  private get routing(): "hash" | "query" | null {
+    const value = this.getAttribute("routing");
+    return value === "hash" || value === "query" ? value : null;
+  }
+
+  /** URL parameter holding the open project id, e.g. `project` or `work.project`. */
+  private get routeParam(): string {
+    const ns = this.getAttribute("namespace");
+    return ns ? `${ns}.project` : "project";
+  }
+
+  private get posterUrl(): string | null {
+    return this.getAttribute("poster");
+  }
+
+  private async load(revalidate = false) {
+    // A newer load, or items assigned meanwhile, supersede this one
+    this.loadController?.abort();
+    this.unsubscribeData?.();
+    this.unsubscribeData = null;
+    const controller = new AbortController();
+    this.loadController = controller;
+    const { signal } = controller;
+    this.ready = false;
+    this.scene?.destroy();
+    this.scene = null;
+    this.container.innerHTML = "";
+    this.updateAccentColor();
+
+    // Items assigned from script win over any markup or URL source
+    let warnings = this.assignedWarnings;
+    let loaded: NormalizedData | null = null;
+    if (!this.itemsAssigned) {
+      const inline = this.inlineDataScript;
+      const moduleUrl = this.getAttribute("data-src");
+      const jsonUrl = this.getAttribute("data-json");
+      if (!inline && !moduleUrl && !jsonUrl) {
+        this.container.innerHTML = `<div class="fallback-notice">No portfolio data provided.</div>`;
+        return;
+      }
+
+      // Show poster or loading (inline data is available immediately)
+      if (!inline && this.posterUrl) {
+        setHtml(this.container, html`<img class="poster" src="${this.posterUrl}" alt="Portfolio loading…" />`);
+      } else if (!inline) {
+        this.container.innerHTML = `<div class="loading">Loading portfolio</div>`;
+      }
+
+      if (!inline && !moduleUrl) {
+        this.unsubscribeData = onDataChange(jsonUrl!, this.handleDataChange);
+      }
+
+      let data: unknown;
+      try {
+        if (inline) data = JSON.parse(inline.textContent || "");
+        else if (moduleUrl) data = await this.importData(moduleUrl);
+        else data = await loadData(jsonUrl!, this.dataOptions, revalidate);
+      } catch (err) {
+        if (signal.aborted) return;
+        this.showLoadError(err);
+        return;
+      }
+      if (signal.aborted) return;
+      loaded = normalizePortfolioData(data);
+      warnings = loaded.warnings;
+    }
+
+    this.present(warnings, loaded);
+  }
+
+  /** Renders freshly loaded (or assigned) data and announces it with `load`. */
+  private present(warnings: ValidationWarning[], loaded: NormalizedData | null) {
+    if (warnings.length > 0) {
+      this.reportInvalid(warnings);
+      if (this.hasAttribute("strict")) return;
+    }
+    if (loaded) this.setPortfolioItems(loaded.items, loaded.descriptionFormat);
+
+    this.render();
+    this.ready = true;
+    this.emit("load", { items: this.items });
+    this.handleRouteChange();
+  }
+
+  private showLoadError(err: unknown) {
+    const message = "Failed to load portfolio data.";
+    const notice = document.createElement("div");
+    notice.className = "fallback-notice";
+    notice.setAttribute("role", "alert");
+    notice.textContent = message;
+    const retry = document.createElement("button");
+    retry.className = "retry-btn";
+    retry.setAttribute("part", "button retry-button");
+    retry.textContent = "Try again";
+    retry.addEventListener("click", () => this.load());
+    notice.appendChild(retry);
+    this.container.innerHTML = "";
+    this.container.appendChild(notice);
+    console.error("[solar-portfolio]", err);
+    this.emit("error", { error: err, message });
+  }
+
+  private get dataOptions(): DataOptions {
+    const timeout = Number(this.getAttribute("timeout"));
+    return {
+      persist: this.hasAttribute("persist"),
+      timeout: timeout > 0 ? timeout : DEFAULT_DATA_TIMEOUT,
+    };
+  }
+
+  /** A `<script type="application/json">` child holding the portfolio data. */
+  private get inlineDataScript(): HTMLScriptElement | null {
+    return this.querySelector(':scope > script[type="application/json"]');
+  }
+
+  /** A `<template slot="…">` child that replaces the built-in markup for `slot`. */
+  private template(slot: TemplateSlot): HTMLTemplateElement | null {
+    return this.querySelector(`:scope > template[slot="${slot}"]`);
+  }
+
+  /** Loads a JS module and takes its default export (or `data` / `items`). */
+  private async importData(url: string): Promise<unknown> {
+    const href = new URL(url, document.baseURI).href;
+    const mod = await import(/* @vite-ignore */ href);
+    return mod.default ?? mod.data ?? mod.items;
+  }
+
+  /**
+   * The one place items are swapped in, whatever their source. Keeps the open
+   * card on the same item if it is still present.
+   */
+  private setPortfolioItems(items: PortfolioItem[], descriptionFormat: DescriptionFormat) {
+    const activeId =
+      this.activeIndex !== null ? this.portfolioItems[this.activeIndex]?.id : undefined;
+    this.portfolioItems = items;
+    this.descriptionFormat = descriptionFormat;
+    if (activeId !== undefined) {
+      const index = items.findIndex((item) => item.id === activeId);
+      this.activeIndex = index >= 0 ? index : null;
+    }
+  }
+
+  /** Takes data assigned from script, bypassing markup and URL sources. */
+  private assignData(data: unknown) {
+    this.itemsAssigned = true;
+    this.loadController?.abort();
+    const { items, descriptionFormat, warnings } = normalizePortfolioData(data);
+    this.assignedWarnings = warnings;
+    this.setPortfolioItems(items, descriptionFormat);
+  }
+
+  /**
+   * Logs validation warnings and fires `invalid`. In strict mode the data is
+   * rejected instead: the problems are listed in place of the portfolio.
+   */
+  private reportInvalid(warnings: ValidationWarning[]) {
+    console.warn(
+      `[solar-portfolio] ${warnings.length} problem(s) in portfolio data:`,
+      warnings
+    );
+    this.emit("invalid", { warnings });
+    if (!this.hasAttribute("strict")) return;
+
+    const message = "Portfolio data is invalid.";
+    const notice = document.createElement("div");
+    notice.className = "fallback-notice validation-errors";
+    notice.setAttribute("role", "alert");
+    notice.textContent = message;
+    const list = document.createElement("ul");
+    warnings.forEach((w) => {
+      const li = document.createElement("li");
+      li.textContent = w.message;
+      list.appendChild(li);
     });
-    this.stars = new THREE.Points(geom, mat);
-    this.scene.add(this.stars);
+    notice.appendChild(list);
+    this.container.innerHTML = "";
+    this.container.appendChild(notice);
+    this.emit("error", { error: warnings, message });
   }
 
-  private createThumbnails() {
-    const loader = new THREE.TextureLoader();
-    const spread = [
-      [-1.8, 0.8, -1.5],
-      [-0.5, 1.0, 0.8],
-      [0.8, 0.9, -0.8],
-      [1.9, 0.6, 1.2],
-      [-1.6, -0.2, 1.0],
-      [-0.4, 0.1, -1.2],
-      [0.6, -0.3, 1.5],
-      [1.7, -0.1, -0.5],
-      [-1.0, -0.9, -0.3],
-      [1.1, -0.8, 0.6],
-    ];
+  /**
+   * Picks up `items` / `data` set on the element before it was upgraded,
+   * which would otherwise shadow the accessors.
+   */
+  private upgradeProperties() {
+    (["items", "data"] as const).forEach((prop) => {
+      if (!Object.prototype.hasOwnProperty.call(this, prop)) return;
+      const value = Reflect.get(this, prop);
+      Reflect.deleteProperty(this, prop);
+      this.assignData(prop === "items" ? { items: value } : value);
+    });
+  }
+
+  // Inline on :host so it beats page CSS; without the attribute the token applies
+  private updateAccentColor() {
+    const host = this.shadow.host as HTMLElement;
+    if (this.accent) host.style.setProperty("--accent", this.accent);
+    else host.style.removeProperty("--accent");
+  }
+
+  /** The scene's colors, from the design tokens currently applied to the host. */
+  private readSceneColors(): SceneColors {
+    const style = getComputedStyle(this);
+    const token = (name: string, fallback: string) =>
+      style.getPropertyValue(name).trim() || fallback;
+    const accent = token("--accent", DEFAULT_ACCENT);
+    return {
+      accent,
+      star: token("--star", "#fff"),
+      edge: token("--edge", "#fff"),
+      placeholder: token("--placeholder", "#2a2a2a"),
+      fallback: token("--fallback-tint", accent),
+      background: token("--bg", "#0a0a0a"),
+    };
+  }
+
+  /** Tokens can change with `theme`, `accent` or the OS color scheme. */
+  private handleThemeChange = () => {
+    this.scene?.setColors(this.readSceneColors());
+  };
 
-    this.items.forEach((item, i) => {
-      const pos = spread[i % spread.length];
-      const basePos = new THREE.Vector3(pos[0], pos[1], pos[2]);
-      this.basePositions.push(basePos.clone());
-      this.currentPositions.push(basePos.clone());
+  private render() {
+    this.container.innerHTML = "";
+    this.gridItems = [];
+    this.resultCount = null;
+    this.searchInput = null;
+
+    this.announcer = document.createElement("div");
+    this.announcer.className = "visually-hidden";
+    this.announcer.setAttribute("aria-live", "polite");
+    this.container.appendChild(this.announcer);
+    const useGrid =
+      this.variant === "grid" ||
+      prefersReducedMotion() ||
+      !isWebGLAvailable() ||
+      SharedRenderer.contextLost;
 
-      const geom = new THREE.PlaneGeometry(0.8, 0.53);
-      const mat = new THREE.MeshStandardMaterial({
-        transparent: true,
-        opacity: 0.85,
-        side: THREE.DoubleSide,
-        color: 0xffffff,
-      });
+    if (!this.hasAttribute("filters")) this.activeTags.clear();
+    this.searchResults = this.query ? this.rankItems(this.query) : null;
+    if (this.hasAttribute("filters") || this.hasAttribute("search")) {
+      this.renderToolbar();
+    }
 
-      const mesh = new THREE.Mesh(geom, mat);
-      mesh.position.copy(basePos);
-      mesh.userData = { index: i };
-      this.scene.add(mesh);
-      this.thumbnailMeshes.push(mesh);
-
-      // Load texture
-      this.textures.push(null);
-      loader.load(
-        item.image,
-        (tex) => {
-          tex.colorSpace = THREE.SRGBColorSpace;
-          mat.map = tex;
-          mat.needsUpdate = true;
-          this.textures[i] = tex;
-        },
-        undefined,
-        () => {
-          // failed to load – tint the plane with accent color
-          mat.color.set(this.accentColor);
-        }
+    if (useGrid) {
+      this.renderGrid(
+        (!isWebGLAvailable() || SharedRenderer.contextLost) && this.variant !== "grid"
       );
-    });
+    } else {
+      this.renderConstellation();
+    }
+    this.applyFilter();
   }
 
-  private createLabels() {
-    this.items.forEach((item, i) => {
-      const btn = document.createElement("button");
-      btn.className = "label";
-      btn.textContent = item.title;
-      btn.setAttribute("aria-label", `View ${item.title}`);
-      btn.addEventListener("click", () => this.onItemClick(i));
-      this.labelLayer.appendChild(btn);
-      this.labelElements.push(btn);
-    });
-  }
+  // ── Live Updates ───────────────────────────────────────────────────────────
 
-  private handleCanvasClick = (e: MouseEvent) => {
-    const rect = this.renderer.domElement.getBoundingClientRect();
-    this.mouse.x = ((e.clientX - rect.left) / rect.width) * 2 - 1;
-    this.mouse.y = -((e.clientY - rect.top) / rect.height) * 2 + 1;
-    this.raycaster.setFromCamera(this.mouse, this.camera);
-    const hits = this.raycaster.intersectObjects(this.thumbnailMeshes);
-    if (hits.length > 0) {
-      const idx = hits[0].object.userData.index;
-      if (typeof idx === "number") this.onItemClick(idx);
+  /** Polls `data-json` every `refresh` seconds and listens to the `live` event stream. */
+  private startLiveUpdates() {
+    this.stopLiveUpdates();
+    const seconds = Number(this.getAttribute("refresh"));
+    if (seconds > 0) {
+      this.refreshTimer = setInterval(this.poll, Math.max(seconds, MIN_REFRESH_SECONDS) * 1000);
     }
-  };
+    const live = this.getAttribute("live");
+    if (live && typeof EventSource !== "undefined") {
+      this.eventSource = new EventSource(live);
+      this.eventSource.addEventListener("message", this.handleLiveMessage);
+    }
+  }
 
-  private animate = () => {
-    this.animId = requestAnimationFrame(this.animate);
-    const time = performance.now() * 0.001;
+  private stopLiveUpdates() {
+    clearInterval(this.refreshTimer);
+    this.refreshTimer = undefined;
+    this.eventSource?.close();
+    this.eventSource = null;
+  }
 
-    // Orbital movement
-    this.thumbnailMeshes.forEach((mesh, i) => {
-      const base = this.basePositions[i];
-      const cur = this.currentPositions[i];
-      const speed = 0.08 + i * 0.01;
-      const offset = (i * Math.PI * 2) / this.items.length;
-      const angle = time * speed + offset;
-      const r = 0.4;
+  /** Checks `data-json` with the server; a changed copy arrives through `handleDataChange`. */
+  private poll = () => {
+    const url = this.getAttribute("data-json");
+    if (!this.ready || this.itemsAssigned || !url || document.hidden) return;
+    // Only when `data-json` is the source in use
+    if (this.inlineDataScript || this.hasAttribute("data-src")) return;
+    loadData(url, this.dataOptions, true).catch(warnRevalidate);
+  };
 
-      const tx = base.x + Math.cos(angle) * r * 0.45;
-      const ty = base.y + Math.sin(angle * 0.7) * r * 0.3;
-      const tz = base.z + Math.sin(angle * 0.5) * r * 0.25;
+  /** Each message carries the whole portfolio, in `portfolio.json` shape. */
+  private handleLiveMessage = (e: MessageEvent) => {
+    let data: unknown;
+    try {
+      data = JSON.parse(e.data);
+    } catch (err) {
+      console.warn("[solar-portfolio] Ignoring a live update that is not JSON:", err);
+      return;
+    }
+    if (this.ready) this.updateItems(normalizePortfolioData(data));
+  };
 
-      cur.x += (tx - cur.x) * 0.02;
-      cur.y += (ty - cur.y) * 0.02;
-      cur.z += (tz - cur.z) * 0.02;
+  /** Swaps in a newer copy of `data-json` found while revalidating the cache. */
+  private handleDataChange = (data: unknown) => {
+    if (this.itemsAssigned) return;
+    this.updateItems(normalizePortfolioData(data));
+  };
 
-      mesh.position.copy(cur);
-      mesh.rotation.y = Math.sin(time * 0.3 + offset) * 0.05;
-    });
-
-    // Update label positions (project 3D → 2D)
-    const w = this.renderer.domElement.clientWidth;
-    const h = this.renderer.domElement.clientHeight;
-    this.thumbnailMeshes.forEach((mesh, i) => {
-      const pos = mesh.position.clone();
-      pos.y -= 0.38; // offset below thumbnail
-      pos.project(this.camera);
-      const x = (pos.x * 0.5 + 0.5) * w;
-      const y = (-pos.y * 0.5 + 0.5) * h;
-      const btn = this.labelElements[i];
-      if (btn) {
-        btn.style.left = `${x}px`;
-        btn.style.top = `${y}px`;
-
-        // Depth-based opacity
-        const dist = this.camera.position.distanceTo(mesh.position);
-        const blur = Math.max(0, Math.min(4, (dist - 4) * 1.2));
-        btn.style.filter = `blur(${blur}px)`;
-        btn.style.opacity = `${Math.max(0.3, 1 - blur * 0.15)}`;
-      }
-    });
+  /**
+   * Swaps in a new item list without starting over: the grid and the scene
+   * animate additions, removals and moves, and an open card stays put unless
+   * its project changed or went away.
+   */
+  private updateItems(loaded: NormalizedData) {
+    this.loadController?.abort();
+    const { warnings } = loaded;
+    if (!this.ready || (warnings.length > 0 && this.hasAttribute("strict"))) {
+      // Nothing on screen to animate, or the data is about to be rejected
+      this.carousel?.destroy();
+      this.carousel = null;
+      this.scene?.destroy();
+      this.scene = null;
+      this.ready = false;
+      this.present(warnings, loaded);
+      return;
+    }
+    if (warnings.length > 0) this.reportInvalid(warnings);
 
-    this.controls.update();
-    this.renderer.render(this.scene, this.camera);
-  };
+    const previous = this.portfolioItems;
+    const openId = this.activeIndex !== null ? previous[this.activeIndex].id : null;
+    if (openId !== null && !loaded.items.some((item) => item.id === openId)) this.hideCard();
+    this.setPortfolioItems(loaded.items, loaded.descriptionFormat);
 
-  destroy() {
-    cancelAnimationFrame(this.animId);
-    window.removeEventListener("resize", this.resize);
-    this.renderer.domElement.removeEventListener("click", this.handleCanvasClick);
-    this.renderer.dispose();
-    this.thumbnailMeshes.forEach((m) => {
-      m.geometry.dispose();
-      (m.material as THREE.Material).dispose();
-    });
-    this.textures.forEach((t) => t?.dispose());
-    if (this.stars) {
-      this.stars.geometry.dispose();
-      (this.stars.material as THREE.Material).dispose();
+    if (this.scene && !this.scene.setItems(this.portfolioItems)) {
+      // Too many new items for the scene's atlas
+      this.rerender();
+    } else {
+      const animateGrid = this.scene ? null : this.updateGrid(previous);
+      if (this.hasAttribute("filters")) this.refreshFilterBar();
+      this.searchResults = this.query ? this.rankItems(this.query) : null;
+      this.applyFilter();
+      animateGrid?.();
     }
+    this.emit("load", { items: this.items });
   }
-}
 
-// ─── Custom Element ──────────────────────────────────────────────────────────
+  // ── URL Routing ────────────────────────────────────────────────────────────
 
-class SolarPortfolio extends HTMLElement {
-  static observedAttributes = ["data-json", "variant", "poster", "accent"];
+  /**
+   * Hash routing leaves a fragment that isn't `key=value` pairs (an in-page
+   * anchor like `#about`) alone and uses the query string meanwhile.
+   */
+  private get routeInQuery(): boolean {
+    if (this.routing === "query") return true;
+    const hash = location.hash.slice(1);
+    return hash !== "" && !hash.split("&").every((pair) => pair.includes("="));
+  }
 
-  private shadow: ShadowRoot;
-  private container: HTMLDivElement;
-  private items: PortfolioItem[] = [];
-  private scene: ConstellationScene | null = null;
-  private activeIndex: number | null = null;
+  private readRouteParams(): URLSearchParams {
+    return new URLSearchParams(this.routeInQuery ? location.search : location.hash.slice(1));
+  }
 
-  constructor() {
-    super();
-    this.shadow = this.attachShadow({ mode: "open" });
+  /** Opens or closes the card to match the URL (initial load, back/forward). */
+  private handleRouteChange = () => {
+    if (!this.routing || this.portfolioItems.length === 0) return;
+    const id = this.readRouteParams().get(this.routeParam);
+    const index = id ? this.portfolioItems.findIndex((item) => item.id === id) : -1;
 
-    // Base styles
-    const style = document.createElement("style");
-    style.textContent = COMPONENT_STYLES;
-    this.shadow.appendChild(style);
+    this.routingFromUrl = true;
+    try {
+      if (index >= 0 && index !== this.activeIndex) this.showCard(index);
+      else if (index < 0 && this.activeIndex !== null) this.hideCard();
+    } finally {
+      this.routingFromUrl = false;
+    }
+  };
 
-    this.container = document.createElement("div");
-    this.container.className = "container";
-    this.shadow.appendChild(this.container);
+  /**
+   * Mirrors the open card into the URL. Only this element's parameter is
+   * touched, so other instances (with their own namespace) keep theirs.
+   */
+  private writeRoute(id: string | null, replace: boolean) {
+    if (!this.routing || this.routingFromUrl) return;
+    const params = this.readRouteParams();
+    if (params.get(this.routeParam) === id) return;
+    if (id) params.set(this.routeParam, id);
+    else params.delete(this.routeParam);
+
+    const url = new URL(location.href);
+    if (this.routeInQuery) url.search = params.toString();
+    else url.hash = params.toString();
+    if (replace) history.replaceState(history.state, "", url);
+    else history.pushState(history.state, "", url);
   }
 
-  connectedCallback() {
-    this.load();
+  // ── Filtering & Search ─────────────────────────────────────────────────────
+
+  /**
+   * Runs a search as if typed into the search box: matching items are ranked,
+   * highlighted, and in constellation mode the camera turns to the best one.
+   * An empty query clears the search. Returns the visible items, best first.
+   */
+  search(query: string): PortfolioItem[] {
+    this.runSearch(query);
+    if (this.searchInput) this.searchInput.value = query;
+    return this.visibleIndices.map((i) => this.portfolioItems[i]);
   }
 
-  disconnectedCallback() {
-    this.scene?.destroy();
-    this.scene = null;
+  private runSearch(query: string) {
+    this.query = query;
+    this.searchResults = query ? this.rankItems(query) : null;
+    this.filterChanged();
+    const best = this.visibleIndices[0];
+    if (this.searchResults && best !== undefined) this.scene?.focusItem(best);
   }
 
-  attributeChangedCallback() {
-    // Re-render when attributes change
-    if (this.isConnected) {
-      this.scene?.destroy();
-      this.scene = null;
-      this.load();
-    }
+  /** Returns null when the query has nothing searchable in it. */
+  private rankItems(query: string): SearchResult[] | null {
+    return tokenize(query).length > 0 ? searchItems(this.portfolioItems, query) : null;
   }
 
-  private get accent(): string {
-    return this.getAttribute("accent") || "#8C52FF";
+  private get allTags(): string[] {
+    const tags = new Set<string>();
+    this.portfolioItems.forEach((item) => item.tags.forEach((t) => tags.add(t)));
+    return [...tags].sort((a, b) => a.localeCompare(b));
   }
 
-  private get variant(): string {
-    return this.getAttribute("variant") || "constellation";
+  /** An item matches when no tags are selected or it carries any selected tag. */
+  private matchesFilter(item: PortfolioItem): boolean {
+    return this.activeTags.size === 0 || item.tags.some((t) => this.activeTags.has(t));
   }
 
-  private get posterUrl(): string | null {
-    return this.getAttribute("poster");
+  /** Indices passing both the tag filter and the search, in display order. */
+  private get visibleIndices(): number[] {
+    const order = this.searchResults
+      ? this.searchResults.map((r) => r.index)
+      : this.portfolioItems.map((_, i) => i);
+    return order.filter((i) => this.matchesFilter(this.portfolioItems[i]));
   }
 
-  private async load() {
-    this.container.innerHTML = "";
-    this.updateAccentColor();
+  private searchTerms(index: number): Set<string> | null {
+    return this.searchResults?.find((r) => r.index === index)?.terms ?? null;
+  }
 
-    const jsonUrl = this.getAttribute("data-json");
-    if (!jsonUrl) {
-      this.container.innerHTML = `<div class="fallback-notice">No data-json attribute provided.</div>`;
-      return;
-    }
+  private renderToolbar() {
+    const toolbar = document.createElement("div");
+    toolbar.className = "toolbar";
+    toolbar.setAttribute("part", "toolbar");
 
-    // Show poster or loading
-    if (this.posterUrl) {
-      this.container.innerHTML = `<img class="poster" src="${this.posterUrl}" alt="Portfolio loading…" />`;
-    } else {
-      this.container.innerHTML = `<div class="loading">Loading portfolio</div>`;
+    if (this.hasAttribute("search")) {
+      toolbar.appendChild(this.createSearchField());
     }
-
-    try {
-      const resp = await fetch(jsonUrl);
-      if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
-      const data: PortfolioData = await resp.json();
-      this.items = data.items || [];
-    } catch (err) {
-      this.container.innerHTML = `<div class="fallback-notice">Failed to load portfolio data.</div>`;
-      console.error("[solar-portfolio]", err);
-      return;
+    if (this.hasAttribute("filters")) {
+      toolbar.appendChild(this.createFilterBar());
     }
 
-    this.render();
+    const count = document.createElement("span");
+    count.className = "result-count";
+    count.setAttribute("part", "result-count");
+    count.setAttribute("role", "status");
+    count.setAttribute("aria-live", "polite");
+    toolbar.appendChild(count);
+    this.resultCount = count;
+
+    this.container.appendChild(toolbar);
   }
 
-  private updateAccentColor() {
-    this.container.style.setProperty("--accent", this.accent);
-    // Also set on :host via inline
-    (this.shadow.host as HTMLElement).style.setProperty("--accent", this.accent);
+  private createSearchField(): HTMLInputElement {
+    const input = document.createElement("input");
+    input.type = "search";
+    input.className = "search-input";
+    input.setAttribute("part", "search");
+    input.placeholder = "Search projects";
+    input.setAttribute("aria-label", "Search projects");
+    input.value = this.query;
+    input.addEventListener("input", () => this.runSearch(input.value));
+    this.searchInput = input;
+    return input;
   }
 
-  private render() {
-    this.container.innerHTML = "";
-    const useGrid =
-      this.variant === "grid" ||
-      prefersReducedMotion() ||
-      !isWebGLAvailable();
+  /** Rebuilds the tag chips after live updates, if the set of tags changed. */
+  private refreshFilterBar() {
+    const bar = this.shadow.querySelector(".filter-bar");
+    const shown = [...(bar?.querySelectorAll(".filter-chip:not(.filter-clear)") ?? [])].map(
+      (chip) => chip.textContent
+    );
+    if (!bar || JSON.stringify(shown) === JSON.stringify(this.allTags)) return;
+    bar.replaceWith(this.createFilterBar());
+  }
 
-    if (useGrid) {
-      this.renderGrid(!isWebGLAvailable() && this.variant !== "grid");
-    } else {
-      this.renderConstellation();
+  private createFilterBar(): HTMLDivElement {
+    const tags = this.allTags;
+    // Drop selections for tags that no longer exist after a reload
+    this.activeTags.forEach((t) => {
+      if (!tags.includes(t)) this.activeTags.delete(t);
+    });
+
+    const bar = document.createElement("div");
+    bar.className = "filter-bar";
+    bar.setAttribute("role", "group");
+    bar.setAttribute("aria-label", "Filter projects by tag");
+
+    const chips: HTMLButtonElement[] = [];
+    tags.forEach((tag) => {
+      const chip = document.createElement("button");
+      chip.className = "filter-chip";
+      chip.setAttribute("part", "button filter-chip");
+      chip.textContent = tag;
+      chip.setAttribute("aria-pressed", String(this.activeTags.has(tag)));
+      chip.addEventListener("click", () => {
+        if (this.activeTags.has(tag)) this.activeTags.delete(tag);
+        else this.activeTags.add(tag);
+        chip.setAttribute("aria-pressed", String(this.activeTags.has(tag)));
+        this.filterChanged();
+      });
+      chips.push(chip);
+      bar.appendChild(chip);
+    });
+
+    const clear = document.createElement("button");
+    clear.className = "filter-chip filter-clear";
+    clear.setAttribute("part", "button filter-chip filter-clear");
+    clear.textContent = "Clear";
+    clear.addEventListener("click", () => {
+      this.activeTags.clear();
+      chips.forEach((chip) => chip.setAttribute("aria-pressed", "false"));
+      this.filterChanged();
+    });
+    bar.appendChild(clear);
+
+    return bar;
+  }
+
+  private filterChanged() {
+    this.applyFilter();
+    this.emit("filterchange", {
+      tags: [...this.activeTags],
+      query: this.query,
+      visible: this.visibleIndices.map((i) => this.portfolioItems[i]),
+    });
+  }
+
+  private applyFilter() {
+    const visible = this.visibleIndices;
+    const mask = this.portfolioItems.map(() => false);
+    visible.forEach((i) => (mask[i] = true));
+
+    this.gridItems.forEach((el, i) => {
+      el.hidden = !mask[i];
+      // Search results are shown in rank order
+      el.style.order = this.searchResults && mask[i] ? String(visible.indexOf(i)) : "";
+      highlightTerms(el, this.searchTerms(i));
+    });
+    this.scene?.setVisibleItems(mask);
+
+    if (this.resultCount) {
+      this.resultCount.textContent =
+        visible.length === this.portfolioItems.length
+          ? `${visible.length} projects`
+          : `Showing ${visible.length} of ${this.portfolioItems.length} projects`;
+    }
+
+    // Refresh the open card only if what it shows changed (e.g. prev/next)
+    if (this.activeIndex !== null) {
+      if (!mask[this.activeIndex]) this.hideCard();
+      else if (this.cardState(this.activeIndex) !== this.shownCard) this.showCard(this.activeIndex);
     }
   }
 
@@ -727,7 +4924,9 @@ class SolarPortfolio extends HTMLElement {
     if (showWebGLNotice) {
       const notice = document.createElement("div");
       notice.className = "fallback-notice";
-      notice.textContent = "WebGL is unavailable — showing static grid view.";
+      notice.textContent = SharedRenderer.contextLost
+        ? "The 3D view was interrupted — showing static grid view."
+        : "WebGL is unavailable — showing static grid view.";
       wrap.appendChild(notice);
     }
 
@@ -740,43 +4939,143 @@ class SolarPortfolio extends HTMLElement {
 
     const grid = document.createElement("div");
     grid.className = "grid";
+    grid.setAttribute("part", "grid");
     grid.setAttribute("role", "list");
 
-    this.items.forEach((item, i) => {
-      const card = document.createElement("div");
-      card.className = "grid-item";
-      card.setAttribute("role", "listitem");
-      card.setAttribute("tabindex", "0");
-      card.setAttribute("aria-label", item.title);
-      card.addEventListener("click", () => this.showCard(i));
-      card.addEventListener("keydown", (e: KeyboardEvent) => {
-        if (e.key === "Enter" || e.key === " ") {
-          e.preventDefault();
-          this.showCard(i);
-        }
-      });
+    this.portfolioItems.forEach((item) => {
+      const card = this.createGridItem(item);
+      grid.appendChild(card);
+      this.gridItems.push(card);
+    });
+
+    wrap.appendChild(grid);
+
+    // Overlay container for card
+    wrap.appendChild(this.createOverlay());
+
+    this.container.appendChild(wrap);
+  }
 
-      card.innerHTML = `
+  private createGridItem(item: PortfolioItem): HTMLDivElement {
+    const card = document.createElement("div");
+    card.className = "grid-item";
+    card.setAttribute("part", "grid-item");
+    card.setAttribute("role", "listitem");
+    card.setAttribute("tabindex", "0");
+    // Live updates move cards around, so look the index up when it's needed
+    const index = () => this.gridItems.indexOf(card);
+    card.addEventListener("click", () => this.selectItem(index()));
+    card.addEventListener("keydown", (e: KeyboardEvent) => {
+      if (e.key === "Enter" || e.key === " ") {
+        e.preventDefault();
+        this.selectItem(index());
+      }
+    });
+    this.fillGridItem(card, item);
+    return card;
+  }
+
+  private fillGridItem(card: HTMLElement, item: PortfolioItem) {
+    card.setAttribute("aria-label", item.title);
+    const template = this.template("grid-item");
+    if (template) {
+      card.replaceChildren(renderTemplate(template, item));
+      return;
+    }
+    setHtml(
+      card,
+      html`
         <img src="${item.image}" alt="${item.title}" loading="lazy" />
         <div class="grid-item-body">
-          <h3>${item.title}</h3>
+          <h3 part="title">${item.title}</h3>
           <div class="tags">
-            ${item.tags.map((t) => `<span class="tag">${t}</span>`).join("")}
+            ${item.tags.map((t) => html`<span class="tag" part="tag">${t}</span>`)}
           </div>
         </div>
-      `;
-      grid.appendChild(card);
-    });
+      `
+    );
+  }
 
-    wrap.appendChild(grid);
+  /**
+   * Matches grid cards to new items by id, keeping the cards of projects that
+   * stayed. Cards of removed projects fade out where they were. Returns a
+   * function that animates the rest once filters have been applied.
+   */
+  private updateGrid(previous: PortfolioItem[]): () => void {
+    const grid = this.shadow.querySelector<HTMLElement>(".grid");
+    if (!grid) return () => {};
+    const animate = !prefersReducedMotion() && typeof grid.animate === "function";
+    const gridRect = grid.getBoundingClientRect();
+    const before = new Map(this.gridItems.map((el) => [el, el.getBoundingClientRect()]));
+    const cards = new Map(previous.map((item, i) => [item.id, this.gridItems[i]]));
+    const oldItems = new Map(previous.map((item) => [item.id, item]));
+    const focused = this.gridItems.findIndex((el) => el === this.shadow.activeElement);
+    const entering = new Set<HTMLElement>();
+
+    this.gridItems = this.portfolioItems.map((item) => {
+      const card = cards.get(item.id);
+      cards.delete(item.id);
+      if (!card) {
+        const el = this.createGridItem(item);
+        entering.add(el);
+        return el;
+      }
+      if (JSON.stringify(item) !== JSON.stringify(oldItems.get(item.id))) {
+        this.fillGridItem(card, item);
+      }
+      return card;
+    });
+    this.gridItems.forEach((el) => grid.appendChild(el));
 
-    // Overlay container for card
-    const overlay = document.createElement("div");
-    overlay.className = "overlay";
-    overlay.id = "card-overlay";
-    wrap.appendChild(overlay);
+    cards.forEach((el) => {
+      const rect = before.get(el)!;
+      if (!animate || el.hidden) {
+        el.remove();
+        return;
+      }
+      Object.assign(el.style, {
+        position: "absolute",
+        left: `${rect.left - gridRect.left}px`,
+        top: `${rect.top - gridRect.top}px`,
+        width: `${rect.width}px`,
+        height: `${rect.height}px`,
+        pointerEvents: "none",
+      });
+      el.removeAttribute("tabindex");
+      el.setAttribute("aria-hidden", "true");
+      el.animate([{ opacity: 1 }, { opacity: 0, transform: "scale(0.9)" }], {
+        duration: 300,
+        easing: "ease",
+      }).onfinish = () => el.remove();
+    });
+    // Focus was on a removed card: hand it to whichever took its place
+    if (focused >= 0 && !this.gridItems.includes(this.shadow.activeElement as HTMLElement)) {
+      this.gridItems[Math.min(focused, this.gridItems.length - 1)]?.focus();
+    }
 
-    this.container.appendChild(wrap);
+    return () => {
+      if (!animate) return;
+      this.gridItems.forEach((el) => {
+        if (el.hidden) return;
+        if (entering.has(el)) {
+          el.animate([{ opacity: 0, transform: "scale(0.9)" }, { opacity: 1, transform: "none" }], {
+            duration: 300,
+            easing: "ease-out",
+          });
+          return;
+        }
+        // Slide from the old spot to the new one
+        const from = before.get(el)!;
+        const to = el.getBoundingClientRect();
+        const dx = from.left - to.left;
+        const dy = from.top - to.top;
+        if (from.width === 0 || (dx === 0 && dy === 0)) return;
+        el.animate([{ transform: `translate(${dx}px, ${dy}px)` }, { transform: "none" }], {
+          duration: 400,
+          easing: "ease",
+        });
+      });
+    };
   }
 
   // ── Constellation Mode ─────────────────────────────────────────────────────
@@ -784,6 +5083,7 @@ class SolarPortfolio extends HTMLElement {
   private renderConstellation() {
     const wrap = document.createElement("div");
     wrap.className = "constellation-wrap";
+    wrap.setAttribute("part", "constellation");
 
     const canvasContainer = document.createElement("div");
     canvasContainer.style.cssText = "position:absolute;inset:0;";
@@ -791,99 +5091,389 @@ class SolarPortfolio extends HTMLElement {
 
     const labelLayer = document.createElement("div");
     labelLayer.className = "label-layer";
+    labelLayer.setAttribute("role", "group");
+    labelLayer.setAttribute("aria-label", "Projects — use the arrow keys to move between them");
     wrap.appendChild(labelLayer);
 
+    const pointerHint = "Drag to explore · Click any thumbnail for details";
+    const keyboardHint = "Arrow keys move between projects · Enter opens · Tab leaves";
     const hint = document.createElement("div");
     hint.className = "hint";
-    hint.textContent = "Drag to explore · Click any thumbnail for details";
+    hint.setAttribute("part", "hint");
+    hint.textContent = pointerHint;
     wrap.appendChild(hint);
 
+    // Describe the keyboard controls while a label has keyboard focus
+    labelLayer.addEventListener("focusin", (e) => {
+      if ((e.target as Element).matches(":focus-visible")) hint.textContent = keyboardHint;
+    });
+    labelLayer.addEventListener("focusout", (e) => {
+      if (!labelLayer.contains(e.relatedTarget as Node | null)) hint.textContent = pointerHint;
+    });
+
+    const loading = this.createSceneLoading();
+    wrap.appendChild(loading);
+
     // Overlay container
-    const overlay = document.createElement("div");
-    overlay.className = "overlay";
-    overlay.id = "card-overlay";
-    wrap.appendChild(overlay);
+    wrap.appendChild(this.createOverlay());
 
     this.container.appendChild(wrap);
 
     // Init Three.js scene
+    const status = loading.querySelector(".loading");
+    const hideLoading = () => loading.classList.add("ready");
+    const timer = setTimeout(hideLoading, SCENE_READY_TIMEOUT);
+    if (this.portfolioItems.length === 0) hideLoading();
     this.scene = new ConstellationScene(
       canvasContainer,
       labelLayer,
-      this.items,
-      this.accent,
-      (index) => this.showCard(index)
+      this.portfolioItems,
+      {
+        colors: this.readSceneColors(),
+        layout: this.layout,
+        quality: this.quality,
+        fps: this.fps,
+        crossOrigin: this.crossOrigin,
+      },
+      {
+        onItemClick: (index) => this.selectItem(index),
+        // Live updates change the count, so it is read from each report
+        onProgress: (detail) => {
+          const { total } = detail;
+          const settled = detail.loaded + detail.failed;
+          if (status) status.textContent = `Loading images ${settled} / ${total}`;
+          if (settled >= Math.min(total, SCENE_READY_COUNT)) {
+            clearTimeout(timer);
+            hideLoading();
+          }
+          this.emit("progress", detail);
+        },
+      }
     );
   }
 
+  /** The poster, or a spinner counting loaded images, shown while the scene fills in. */
+  private createSceneLoading(): HTMLDivElement {
+    const loading = document.createElement("div");
+    loading.className = "scene-loading";
+    if (this.posterUrl) {
+      setHtml(loading, html`<img class="poster" src="${this.posterUrl}" alt="" />`);
+    }
+    const status = document.createElement("div");
+    status.className = "loading";
+    status.textContent = "Loading images";
+    loading.appendChild(status);
+    return loading;
+  }
+
+  /**
+   * Falls back to the grid when the shared WebGL context is lost, and brings
+   * the constellation back once it is restored.
+   */
+  private handleContextChange = (lost: boolean) => {
+    if (lost && this.scene) {
+      this.sceneLost = true;
+      this.rerender();
+    } else if (!lost && this.sceneLost) {
+      this.sceneLost = false;
+      this.rerender();
+    }
+  };
+
+  /**
+   * Renders the view again without reloading data. An open card stays open on
+   * the same item, without firing `open` again.
+   */
+  private rerender() {
+    this.carousel?.destroy();
+    this.carousel = null;
+    this.scene?.destroy();
+    this.scene = null;
+    this.render();
+  }
+
   // ── Card Overlay ───────────────────────────────────────────────────────────
 
+  /** A visitor picked an item in the grid or scene. */
+  private selectItem(index: number) {
+    const item = this.portfolioItems[index];
+    if (!item) return;
+    this.emit("select", { item, index });
+    this.showCard(index);
+  }
+
+  /**
+   * The visible item `step` places away from the open card. With no card
+   * open, stepping forward starts at the first item and back at the last.
+   */
+  private neighbor(step: 1 | -1): number | null {
+    const visible = this.visibleIndices;
+    if (this.activeIndex === null) {
+      return (step > 0 ? visible[0] : visible[visible.length - 1]) ?? null;
+    }
+    const pos = visible.indexOf(this.activeIndex);
+    if (pos < 0) return null;
+    return visible[pos + step] ?? null;
+  }
+
+  /** Everything the open card's content depends on, to tell when it needs redrawing. */
+  private cardState(index: number): string {
+    return JSON.stringify([
+      index,
+      this.neighbor(-1),
+      this.neighbor(1),
+      this.portfolioItems[index],
+      this.descriptionFormat,
+      [...(this.searchTerms(index) ?? [])],
+    ]);
+  }
+
+  private createOverlay(): HTMLDivElement {
+    this.shownCard = null;
+    const overlay = document.createElement("div");
+    overlay.className = "overlay";
+    overlay.setAttribute("part", "overlay");
+    overlay.id = "card-overlay";
+    overlay.setAttribute("role", "dialog");
+    overlay.setAttribute("aria-modal", "true");
+    overlay.setAttribute("aria-labelledby", "card-title");
+    overlay.addEventListener("click", (e) => {
+      if (e.target === overlay) this.hideCard();
+    });
+    overlay.addEventListener("keydown", this.handleOverlayKey);
+    return overlay;
+  }
+
+  /** Keyboard handling is scoped to the dialog, which holds focus while open. */
+  private handleOverlayKey = (e: KeyboardEvent) => {
+    const overlay = e.currentTarget as HTMLElement;
+    if (e.key === "Escape") {
+      e.preventDefault();
+      this.hideCard();
+    } else if (e.key === "ArrowLeft" || e.key === "ArrowRight") {
+      const target = this.neighbor(e.key === "ArrowRight" ? 1 : -1);
+      if (this.activeIndex !== null && target !== null) this.showCard(target);
+    } else if (e.key === "Tab") {
+      this.trapFocus(e, overlay);
+    }
+  };
+
+  private trapFocus(e: KeyboardEvent, overlay: HTMLElement) {
+    const focusable = Array.from(
+      overlay.querySelectorAll<HTMLElement>(
+        'a[href], button:not([disabled]), video[controls], [tabindex]:not([tabindex="-1"])'
+      )
+    ).filter((el) => !el.closest("[hidden]"));
+    if (focusable.length === 0) return;
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    const active = this.shadow.activeElement as HTMLElement | null;
+
+    if (!active || !focusable.includes(active)) {
+      e.preventDefault();
+      first.focus();
+    } else if (e.shiftKey && active === first) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && active === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  }
+
+  /** The grid item or constellation label that opens this item's card. */
+  private itemTrigger(index: number): HTMLElement | null {
+    const gridItem = this.gridItems[index];
+    if (gridItem && !gridItem.hidden) return gridItem;
+    const label = this.scene?.labelFor(index);
+    return label && !label.disabled ? label : null;
+  }
+
+  private announce(message: string) {
+    if (this.announcer) this.announcer.textContent = message;
+  }
+
   private showCard(index: number) {
-    this.activeIndex = index;
-    const item = this.items[index];
+    const item = this.portfolioItems[index];
     if (!item) return;
+    const changed = index !== this.activeIndex;
+    const wasOpen = this.activeIndex !== null;
+    if (!wasOpen) {
+      const active = this.shadow.activeElement ?? document.activeElement;
+      this.returnFocus = active instanceof HTMLElement && active !== document.body ? active : null;
+    }
+    // Stepping between cards replaces the history entry rather than adding one
+    this.writeRoute(item.id, this.activeIndex !== null);
+    this.activeIndex = index;
+    this.scene?.setSelectedIndex(index);
 
     const overlay = this.shadow.getElementById("card-overlay") as HTMLDivElement;
     if (!overlay) return;
 
-    const hasPrev = index > 0;
-    const hasNext = index < this.items.length - 1;
-
-    overlay.innerHTML = `
-      ${hasPrev ? `<button class="nav-btn nav-prev" aria-label="Previous project">${ICON_LEFT}</button>` : ""}
-      ${hasNext ? `<button class="nav-btn nav-next" aria-label="Next project">${ICON_RIGHT}</button>` : ""}
-      <div class="card">
-        <button class="close-btn" aria-label="Close">${ICON_CLOSE}</button>
-        <img src="${item.image}" alt="${item.title}" />
-        <div class="card-body">
-          <h3>${item.title}</h3>
-          <p>${item.description}</p>
-          <div class="tags">
-            ${item.tags.map((t) => `<span class="tag">${t}</span>`).join("")}
-          </div>
+    // Prev/next step through the filtered set only
+    const prevIndex = this.neighbor(-1);
+    const nextIndex = this.neighbor(1);
+
+    const links: PortfolioLink[] = [
+      ...(item.url ? [{ label: "View case study", href: item.url, kind: "case-study" }] : []),
+      ...(item.links || []),
+    ];
+    const hasPrev = prevIndex !== null;
+    const hasNext = nextIndex !== null;
+
+    // Keep focus on the same control across re-renders (e.g. "next" held down)
+    const focused = this.shadow.activeElement;
+    const focusedControl =
+      focused && overlay.contains(focused)
+        ? ["nav-prev", "nav-next", "close-btn"].find((c) => focused.classList.contains(c))
+        : undefined;
+
+    // A custom card template replaces everything inside the card but the close button
+    const template = this.template("card");
+    this.carousel?.destroy();
+    this.shownCard = this.cardState(index);
+    setHtml(
+      overlay,
+      html`
+        ${hasPrev && html`<button class="nav-btn nav-prev" part="button nav-button" data-action="prev" aria-label="Previous project">${ICON_LEFT}</button>`}
+        ${hasNext && html`<button class="nav-btn nav-next" part="button nav-button" data-action="next" aria-label="Next project">${ICON_RIGHT}</button>`}
+        <div class="card" part="card">
+          <button class="close-btn" part="button close-button" data-action="close" aria-label="Close">${ICON_CLOSE}</button>
+          ${!template && html`
+            ${mediaGallery(item)}
+            <div class="card-body">
+              <h3 id="card-title" part="title">${item.title}</h3>
+              <div class="description" part="description"></div>
+              ${links.length > 0 && html`<div class="card-links">${links.map(linkButton)}</div>`}
+              <div class="tags">
+                ${item.tags.map((t) => html`<span class="tag" part="tag">${t}</span>`)}
+              </div>
+            </div>
+          `}
         </div>
-      </div>
-    `;
+      `
+    );
+    const card = overlay.querySelector(".card") as HTMLElement;
+    if (template) {
+      card.appendChild(this.renderCardTemplate(template, item, links));
+    } else {
+      card
+        .querySelector(".description")
+        ?.appendChild(renderDescription(item.description, this.descriptionFormat));
+    }
+    // Templates without a #card-title still give the dialog a name
+    if (overlay.querySelector("#card-title")) overlay.removeAttribute("aria-label");
+    else overlay.setAttribute("aria-label", item.title);
 
-    overlay.classList.add("active");
+    const media = overlay.querySelector<HTMLElement>(".media");
+    this.carousel = media ? new MediaCarousel(media) : null;
 
-    // Event listeners
-    overlay.querySelector(".close-btn")?.addEventListener("click", () => this.hideCard());
-    overlay.querySelector(".nav-prev")?.addEventListener("click", (e) => {
-      e.stopPropagation();
-      this.showCard(index - 1);
-    });
-    overlay.querySelector(".nav-next")?.addEventListener("click", (e) => {
-      e.stopPropagation();
-      this.showCard(index + 1);
+    overlay.querySelectorAll<HTMLAnchorElement>("a[data-link]").forEach((a) => {
+      const link = links[Number(a.dataset.link)];
+      a.addEventListener("click", (e) => {
+        if (!this.emit("linkclick", { item, index, link }, true)) e.preventDefault();
+      });
     });
-    overlay.addEventListener("click", (e) => {
-      if (e.target === overlay) this.hideCard();
+
+    const terms = this.searchTerms(index);
+    const body = template ? card : overlay.querySelector(".card-body");
+    if (terms && body) highlightTerms(body, terms);
+
+    // Event listeners, for the built-in controls and any data-action in a template
+    const actions = (action: string) =>
+      overlay.querySelectorAll<HTMLElement>(`[data-action="${action}"]`);
+    actions("close").forEach((el) => el.addEventListener("click", () => this.hideCard()));
+    ([["prev", prevIndex], ["next", nextIndex]] as const).forEach(([action, target]) => {
+      actions(action).forEach((el) => {
+        el.hidden = target === null;
+        el.addEventListener("click", (e) => {
+          e.stopPropagation();
+          if (target !== null) this.showCard(target);
+        });
+      });
     });
 
-    // Keyboard
-    const keyHandler = (e: KeyboardEvent) => {
-      if (e.key === "Escape") this.hideCard();
-      if (e.key === "ArrowLeft" && hasPrev) this.showCard(index - 1);
-      if (e.key === "ArrowRight" && hasNext) this.showCard(index + 1);
+    const reveal = () => {
+      // Closed, or moved on to another item, while the camera was flying
+      if (this.activeIndex !== index) return;
+      overlay.classList.add("active");
+      this.scene?.setCovered(true);
+
+      // Move focus into the dialog
+      const focusTarget =
+        (focusedControl && overlay.querySelector<HTMLElement>(`.${focusedControl}`)) ||
+        overlay.querySelector<HTMLElement>(".close-btn");
+      focusTarget?.focus({ preventScroll: true });
+
+      if (changed && wasOpen) {
+        const visible = this.visibleIndices;
+        this.announce(`Project ${visible.indexOf(index) + 1} of ${visible.length}: ${item.title}`);
+      }
+      if (changed) this.emit("open", { item, index });
     };
-    document.addEventListener("keydown", keyHandler);
-    overlay.dataset.keyHandler = "true";
-    // Store cleanup reference
-    (overlay as any)._keyHandler = keyHandler;
+
+    // In the constellation the camera flies in first and the card follows;
+    // stepping between open cards flies alongside instead.
+    const flight = changed ? this.scene?.flyTo(index) : undefined;
+    if (flight && !wasOpen) flight.then(reveal);
+    else reveal();
+  }
+
+  /**
+   * Binds the card template to `item` and fills its placeholders: the media
+   * gallery into `[data-media]`, the formatted description into
+   * `[data-description]` and the link buttons into `[data-links]`.
+   */
+  private renderCardTemplate(
+    template: HTMLTemplateElement,
+    item: PortfolioItem,
+    links: PortfolioLink[]
+  ): DocumentFragment {
+    const fragment = renderTemplate(template, item);
+    fragment.querySelectorAll("[data-media]").forEach((el) => {
+      const gallery = document.createElement("div");
+      setHtml(gallery, mediaGallery(item));
+      el.replaceWith(...gallery.childNodes);
+    });
+    fragment.querySelectorAll("[data-description]").forEach((el) => {
+      el.appendChild(renderDescription(item.description, this.descriptionFormat));
+    });
+    fragment.querySelectorAll("[data-links]").forEach((el) => {
+      setHtml(el, html`${links.map(linkButton)}`);
+    });
+    return fragment;
   }
 
   private hideCard() {
+    const index = this.activeIndex;
     this.activeIndex = null;
+    this.scene?.setSelectedIndex(null);
+    this.scene?.setCovered(false);
+    this.scene?.flyHome();
+    if (index !== null) {
+      this.writeRoute(null, false);
+      this.emit("close", { item: this.portfolioItems[index], index });
+    }
+    const opener = this.returnFocus;
+    this.returnFocus = null;
     const overlay = this.shadow.getElementById("card-overlay") as HTMLDivElement;
     if (!overlay) return;
+    // Clicking the backdrop drops focus to the body, which counts as the card's too
+    const active = document.activeElement;
+    const hadFocus =
+      overlay.contains(this.shadow.activeElement) || !active || active === document.body;
+    this.carousel?.destroy();
+    this.carousel = null;
+    this.shownCard = null;
     overlay.classList.remove("active");
     overlay.innerHTML = "";
-    // Remove keyboard handler
-    if ((overlay as any)._keyHandler) {
-      document.removeEventListener("keydown", (overlay as any)._keyHandler);
-      delete (overlay as any)._keyHandler;
-    }
+
+    // Return focus to whatever opened the card. Openers inside the component
+    // give way to the current item's trigger, since prev/next may have moved on.
+    if (!hadFocus || index === null) return;
+    const outside = opener && opener.isConnected && !this.shadow.contains(opener);
+    const target = outside ? opener : this.itemTrigger(index) ?? opener;
+    if (target?.isConnected) target.focus();
   }
 }
 
@@ -893,4 +5483,10 @@ if (!customElements.get("solar-portfolio")) {
   customElements.define("solar-portfolio", SolarPortfolio);
 }
 
+declare global {
+  interface HTMLElementTagNameMap {
+    "solar-portfolio": SolarPortfolio;
+  }
+}
+
 export { SolarPortfolio };